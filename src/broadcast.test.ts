@@ -0,0 +1,177 @@
+import { describe, expect, it } from "@jest/globals";
+import { BroadcastGroup } from "./broadcast";
+import { MemoryClient } from "./clients/Memory";
+import { DiscordClient } from "./clients/Discord";
+import { HttpRequest, HttpResponse } from "./types/http";
+import { EmbedOptions, PlatformClient } from "./types/broadcast";
+
+describe("severity routing", () => {
+    it("skips clients whose minimum level the severity does not meet", async () => {
+        const ops = new MemoryClient();
+        const pager = new MemoryClient();
+        const group = new BroadcastGroup("alerts", []).addClient(ops, "ops").addClient(pager, "pager", { minLevel: "error" });
+
+        const info = await group.broadcast("cache warmed");
+        const error = await group.broadcastError("DB", "db down");
+
+        expect(info.skipped).toEqual({
+            pager: { platform: "memory", reason: "Severity 'info' is below the client's minimum level 'error'." },
+        });
+        expect(Object.keys(info.results)).toEqual(["ops"]);
+        expect(error.skipped).toEqual({});
+        expect(pager.sent.map((call) => call.embed?.title)).toEqual(["❌ DB"]);
+        expect(ops.sent).toHaveLength(2);
+    });
+
+    it("rejects an unknown severity before duplicate suppression and the digest", async () => {
+        const client = new MemoryClient();
+        const group = new BroadcastGroup("alerts", [client], { digest: { interval: 60000 }, dedup: true });
+
+        await expect(group.broadcast("disk full", { severity: "urgent" })).rejects.toThrow("Invalid severity 'urgent'");
+        await expect(group.broadcastEmbed({ title: "Disk", description: "full", severity: "loud" as any })).rejects.toThrow(
+            "Invalid severity 'loud'"
+        );
+        await expect(group.broadcastRich({ blocks: [], severity: "nope" as any })).rejects.toThrow("Invalid severity");
+
+        await group.close();
+        expect(client.calls).toEqual([]);
+
+        const reopened = new BroadcastGroup("alerts", [client], { dedup: true });
+        await reopened.broadcast("disk full", { severity: "urgent" }).catch(() => undefined);
+        const summary = await reopened.broadcast("disk full");
+        expect(summary.suppressed).toBeUndefined();
+        expect(client.sent).toHaveLength(1);
+        await reopened.close();
+    });
+});
+
+/** A client without file uploads, recording what it receives. */
+class TextClient implements PlatformClient {
+    texts: string[] = [];
+    embeds: EmbedOptions[] = [];
+
+    async send(message: string | object) {
+        this.texts.push(String(message));
+        return { success: true };
+    }
+}
+
+class EmbedClient extends TextClient {
+    async sendEmbed(embed: EmbedOptions) {
+        this.embeds.push(embed);
+        return { success: true };
+    }
+}
+
+describe("broadcastFile", () => {
+    const log = Buffer.from("GET / 200\nGET /health 200\n".repeat(20));
+
+    it("uploads to clients that can and sends the rest inline", async () => {
+        const uploader = new MemoryClient();
+        const text = new TextClient();
+        const group = new BroadcastGroup("files", [], {}).addClient(uploader, "ops").addClient(text, "chat");
+
+        const summary = await group.broadcastFile(log, { filename: "access.log", content: "Access log" });
+
+        expect(uploader.sent[0]).toMatchObject({ method: "sendFile", options: { filename: "access.log", content: "Access log" } });
+        expect(summary.results.chat).toMatchObject({ note: "File uploads not supported; sent inline." });
+        expect(summary.results.ops!.note).toBeUndefined();
+        expect(text.texts[0]).toBe(`Access log\n📎 access.log (520 B)\n\`\`\`\n${log.toString().trimEnd()}\n\`\`\``);
+    });
+
+    it("sends an excerpt of long files, in the embed description when the client has embeds", async () => {
+        const embeds = new EmbedClient();
+        const group = new BroadcastGroup("files", [embeds]);
+
+        await group.broadcastFile(log, {
+            filename: "access.json",
+            excerptLength: 20,
+            embed: { title: "Traffic", description: "Last requests" },
+        });
+
+        expect(embeds.texts).toEqual([]);
+        expect(embeds.embeds[0]).toEqual({
+            title: "Traffic",
+            description: "Last requests\n📎 access.json (520 B), excerpt\n\`\`\`json\nGET / 200\nGET /healt\n… (truncated)\n\`\`\`",
+        });
+    });
+
+    it("only names binary files", async () => {
+        const text = new TextClient();
+
+        await new BroadcastGroup("files", [text]).broadcastFile(Buffer.from([1, 0, 2]), { filename: "core.bin" });
+
+        expect(text.texts).toEqual(["📎 core.bin (3 B) — binary file, not shown."]);
+    });
+});
+
+describe("editBroadcast and deleteBroadcast", () => {
+    /** A Discord client whose requests are recorded, posting messages with IDs from `firstId`. */
+    const discord = (firstId: number) => {
+        const requests: HttpRequest[] = [];
+        let nextId = firstId;
+        const transport = {
+            request: async (request: HttpRequest): Promise<HttpResponse> => {
+                requests.push(request);
+                return { status: 200, statusText: "OK", headers: {}, data: request.method === "POST" ? { id: String(nextId++) } : {} };
+            },
+        };
+        return { requests, client: new DiscordClient({ webhookUrl: "https://discord.com/api/webhooks/1/abc", transport }) };
+    };
+
+    it("edits and deletes each alias's own messages and skips clients that cannot", async () => {
+        const ops = discord(100);
+        const dev = discord(200);
+        const text = new TextClient();
+        const group = new BroadcastGroup("deploys", [])
+            .addClient(ops.client, "ops")
+            .addClient(dev.client, "dev")
+            .addClient(text, "chat");
+
+        const { handles = {} } = await group.broadcast("⏳ Deploy running");
+        expect(handles).toEqual({ ops: { platform: "discord", ids: ["100"] }, dev: { platform: "discord", ids: ["200"] } });
+
+        const edit = await group.editBroadcast(handles, { title: "✅ Deploy done", description: "v2.4.0" });
+        const removal = await group.deleteBroadcast(edit.handles ?? {});
+
+        expect(ops.requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+            "POST https://discord.com/api/webhooks/1/abc",
+            "PATCH https://discord.com/api/webhooks/1/abc/messages/100",
+            "DELETE https://discord.com/api/webhooks/1/abc/messages/100",
+        ]);
+        expect(dev.requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+            "POST https://discord.com/api/webhooks/1/abc",
+            "PATCH https://discord.com/api/webhooks/1/abc/messages/200",
+            "DELETE https://discord.com/api/webhooks/1/abc/messages/200",
+        ]);
+        expect(dev.requests[1]!.body).toMatchObject({ embeds: [{ title: "✅ Deploy done", description: "v2.4.0" }] });
+        expect(edit.handles).toEqual(handles);
+        expect(edit.skipped).toEqual({ chat: { platform: "text", reason: "No message from the earlier broadcast." } });
+        expect(Object.keys(removal.results)).toEqual(["ops", "dev"]);
+        expect(text.texts).toEqual(["⏳ Deploy running"]);
+    });
+
+    it("skips clients with a handle that cannot edit messages", async () => {
+        const text = new TextClient();
+        const group = new BroadcastGroup("deploys", []).addClient(text, "chat");
+
+        const summary = await group.editBroadcast({ chat: { platform: "text", ids: ["1"] } }, "✅ done");
+
+        expect(summary.skipped).toEqual({ chat: { platform: "text", reason: "Client cannot edit messages." } });
+        expect(text.texts).toEqual([]);
+    });
+});
+
+describe("untitled embeds", () => {
+    it("are sent, summarized and suppressed without a title", async () => {
+        const text = new TextClient();
+        const group = new BroadcastGroup("alerts", [text], { dedup: true });
+
+        await group.broadcastEmbed({ description: "disk full" });
+        const repeat = await group.broadcastEmbed({ description: "disk full" });
+        await group.close();
+
+        expect(repeat.suppressed).toMatchObject({ count: 1 });
+        expect(text.texts).toEqual(["disk full", "**🔁**\ndisk full"]);
+    });
+});
@@ -2,21 +2,102 @@ import { PlatformClient } from "./types/broadcast";
 import {
     BroadcastResult,
     BroadcastSummary,
+    ClientOptions,
     EmbedOptions,
+    GroupOptions,
+    MessageHandle,
+    OutboxPayload,
+    OutboxRecord,
+    OutboxReplayResult,
+    Severity,
+    SkippedClient,
     TestConnectionResult,
 } from "./types/broadcast";
+import { isSeverity, meetsSeverity } from "./utils/severity";
+import { Deduplicator } from "./dedup";
+import { DigestBuffer, DigestEntry, renderDigest } from "./digest";
+import { Outbox } from "./outbox";
+import { applyRedaction, createRedactor, Redactor } from "./redaction";
+import { TemplateRegistry } from "./templates";
+import { TemplateVariables } from "./types/template";
+import { RichMessage } from "./types/rich";
+import { richToEmbed, richToText } from "./rich";
+import { TRUNCATION_MARKER } from "./overflow";
+import { BroadcastFileOptions, FileInput } from "./types/file";
+import { FileSource, formatBytes, readHead, resolveFile } from "./utils/files";
+import { activeDryRun, withDryRun } from "./dryrun";
+import { DryRunConfig } from "./types/dryrun";
+import { MessageSendError } from "./utils/errors";
 
 /**
  * @internal
  * Represents an entry within a broadcast group — 
- * containing the client instance, its alias, and platform identifier.
+ * containing the client instance, its alias, platform identifier and minimum severity.
  */
 interface ClientEntry {
     client: PlatformClient;
     alias: string;
     platform: string;
+    minLevel: Severity;
+    /** Client-specific redactor; `undefined` inherits the group's. */
+    redactor?: Redactor | null | undefined;
 }
 
+/**
+ * @internal
+ * Outcome of delivering to a single client.
+ */
+interface Delivery {
+    result: any;
+    note?: string;
+    /** Redactions applied by the group before sending. */
+    redactions?: number;
+}
+
+/**
+ * Renders a file inline for clients that cannot upload files: its name and size, followed by
+ * the whole file in a code block, an excerpt of its beginning, or nothing for binary files.
+ */
+const renderFileExcerpt = async (source: FileSource, maxChars: number): Promise<string> => {
+    const label = `📎 ${source.filename} (${formatBytes(source.size)})`;
+    const { text, truncated, binary } = await readHead(source, maxChars);
+    if (binary) return `${label} — binary file, not shown.`;
+
+    const extension = source.filename.split(".").pop() ?? "";
+    const language = /^[a-z0-9]{1,10}$/i.test(extension) && !["txt", "log"].includes(extension) ? extension : "";
+    const body = truncated ? `${text.trimEnd()}\n${TRUNCATION_MARKER}` : text.trimEnd();
+    return `${truncated ? `${label}, excerpt` : label}\n\`\`\`${language}\n${body}\n\`\`\``;
+};
+
+/** Renders an embed as plain text for clients without embeds: the title in bold, then the description. */
+const embedText = (embed: EmbedOptions): string =>
+    [embed.title ? `**${embed.title}**` : "", embed.description].filter(Boolean).join("\n");
+
+/**
+ * Redacts what a payload says: the message, embed or rich message. Send options such as
+ * recipients, usernames and avatar URLs are passed through unchanged.
+ */
+const redactPayload = (redactor: Redactor | null, payload: OutboxPayload): { value: OutboxPayload; count: number } => {
+    if (payload.kind === "message") {
+        const { value, count } = applyRedaction(redactor, payload.message);
+        return { value: { ...payload, message: value }, count };
+    }
+    if (payload.kind === "embed") {
+        const { value, count } = applyRedaction(redactor, payload.embed);
+        return { value: { ...payload, embed: value }, count };
+    }
+    if (payload.kind === "parts") {
+        const { value, count } = applyRedaction(redactor, payload.parts);
+        return { value: { ...payload, parts: value }, count };
+    }
+    const { value, count } = applyRedaction(redactor, payload.rich);
+    return { value: { ...payload, rich: value }, count };
+};
+
+/** The payload to retry after a failure: only the unsent parts when a split message was partly posted. */
+const unsentPayload = (error: unknown): OutboxPayload | undefined =>
+    error instanceof MessageSendError && error.unsent ? { kind: "parts", parts: error.unsent } : undefined;
+
 /**
  * `BroadcastGroup` orchestrates message broadcasting across multiple platform clients
  * such as Discord, Slack, Email, or others.
@@ -36,32 +117,95 @@ export class BroadcastGroup {
     /** Registered platform clients */
     private clients: ClientEntry[] = [];
 
+    /** Duplicate suppression, when enabled */
+    private deduplicator: Deduplicator | null = null;
+
+    /** Digest buffer for low-severity messages, when enabled */
+    private digest: DigestBuffer | null = null;
+
+    /** Durable store of unacknowledged deliveries, when enabled */
+    private outbox: Outbox | null = null;
+
+    /** Background worker replaying the outbox */
+    private outboxWorker: ReturnType<typeof setInterval> | null = null;
+
+    /** Group-wide redactor, when enabled */
+    private redactor: Redactor | null = null;
+
+    /** Templates available to `broadcastTemplate()` */
+    private templates: TemplateRegistry;
+
+    /** Dry-run setting of this group; `undefined` follows the global setting */
+    private dryRun: DryRunConfig | undefined;
+
     /**
      * Creates a new broadcast group.
      * @param name - Unique name for this group.
      * @param clients - Optional initial list of clients.
+     * @param options - Optional group behaviour such as duplicate suppression.
      */
-    constructor(name: string, clients: PlatformClient[] = []) {
+    constructor(name: string, clients: PlatformClient[] = [], options: GroupOptions = {}) {
         this.name = name;
+        this.redactor = createRedactor(options.redact) ?? null;
+        this.templates = options.templates ?? new TemplateRegistry();
+        this.dryRun = options.dryRun;
         clients.forEach((c) => this.addClient(c));
+
+        if (options.dedup) {
+            this.deduplicator = new Deduplicator(options.dedup === true ? {} : options.dedup);
+        }
+
+        if (options.digest) {
+            this.digest = new DigestBuffer(options.digest === true ? {} : options.digest, () => {
+                this._flushDigest().catch(() => undefined);
+            });
+        }
+
+        if (options.outbox) {
+            this.outbox = new Outbox(options.outbox);
+
+            const interval = options.outbox.retryInterval ?? 30000;
+            if (interval > 0) {
+                this.outboxWorker = setInterval(() => {
+                    this.replayOutbox().catch(() => undefined);
+                }, interval);
+                // The worker should never keep the process alive; pending records survive restarts.
+                this.outboxWorker.unref?.();
+            }
+        }
     }
 
     /**
      * Registers a new client within the group.
      * @param client - The client instance (must implement `send()`).
      * @param alias - Optional alias for identification.
+     * @param options - Optional per-client settings such as the minimum severity.
      * @returns The same instance for chaining.
-     * @throws If client is invalid or lacks a `send()` method.
+     * @throws If client is invalid, lacks a `send()` method, or `minLevel` is unknown.
+     *
+     * @example
+     * ```ts
+     * group.addClient(slack, "team");                                // everything
+     * group.addClient(telegram, "pager", { minLevel: "critical" });  // critical only
+     * group.addClient(email, "audit", { redact: false });            // opt out of group redaction
+     * ```
      */
-    addClient(client: PlatformClient, alias?: string): this {
+    addClient(client: PlatformClient, alias?: string, options: ClientOptions = {}): this {
         if (!client || typeof client.send !== "function") {
             throw new Error("Invalid client: must implement send()");
         }
 
+        const minLevel = options.minLevel ?? "debug";
+        if (!isSeverity(minLevel)) {
+            throw new Error(`Invalid minLevel '${minLevel}'`);
+        }
+
         this.clients.push({
             client,
             alias: alias || `client_${this.clients.length + 1}`,
             platform: client.constructor.name.replace("Client", "").toLowerCase(),
+            minLevel,
+            redactor: createRedactor(options.redact),
         });
         return this;
     }
@@ -80,106 +224,567 @@ export class BroadcastGroup {
         return false;
     }
 
+    /**
+     * Returns the client registered under an alias.
+     * @param alias - Alias of the client.
+     * @returns The client, or `undefined` if there is none.
+     */
+    getClient(alias: string): PlatformClient | undefined {
+        return this.clients.find((c) => c.alias === alias)?.client;
+    }
+
+    /**
+     * Returns a view of this group restricted to the given aliases.
+     * The view shares client instances, minimum levels and duplicate suppression, and reports
+     * under the same group name. Messages sent through a view are never digested.
+     * @param aliases - Aliases to keep; unknown aliases are ignored.
+     * @returns A new group containing only the selected clients.
+     */
+    select(aliases: string[]): BroadcastGroup {
+        const view = new BroadcastGroup(this.name);
+        view.clients = this.clients.filter((c) => aliases.includes(c.alias));
+        view.deduplicator = this.deduplicator;
+        view.outbox = this.outbox;
+        view.redactor = this.redactor;
+        view.templates = this.templates;
+        view.dryRun = this.dryRun;
+        return view;
+    }
+
     /**
      * Broadcasts a text message or object to all clients.
      * @param message - Message text or payload.
-     * @param options - Additional send options.
+     * @param options - Additional send options; `severity` (default `"info"`) selects
+     * which clients receive the message and is not forwarded to them.
      * @returns Summary of broadcast results.
+     * @throws {Error} If the severity is unknown; nothing is sent, suppressed or queued.
      */
     async broadcast(
         message: string | object,
         options: Record<string, any> = {}
     ): Promise<BroadcastSummary> {
-        const results: Record<string, BroadcastResult> = {};
+        const { severity = "info", ...sendOptions } = options;
+        this._checkSeverity(severity);
 
-        await Promise.allSettled(
-            this.clients.map(async ({ client, alias, platform }) => {
-                try {
-                    const result = await client.send(message, options);
-                    results[alias] = { success: true, platform, result };
-                } catch (err: any) {
-                    results[alias] = { success: false, platform, error: err.message };
-                }
-            })
+        const suppressed = this._suppress(message, severity, (count) =>
+            this._sendMessage(
+                typeof message === "string"
+                    ? `🔁 ${message} (repeated ${count} more time${count === 1 ? "" : "s"})`
+                    : `🔁 Previous message repeated ${count} more time${count === 1 ? "" : "s"}`,
+                sendOptions,
+                severity
+            )
         );
+        if (suppressed) return suppressed;
 
-        return {
-            groupName: this.name,
-            totalClients: this.clients.length,
-            results,
-        };
+        if (typeof message === "string") {
+            const queued = this._enqueue({ title: message, description: "", severity, timestamp: new Date() });
+            if (queued) return queued;
+        }
+
+        return this._sendMessage(message, sendOptions, severity);
     }
 
     /**
      * Broadcasts an embed (rich message) to all clients.
      * Falls back to text if the client lacks embed support.
-     * @param embed - Embed configuration.
+     * @param embed - Embed configuration; `embed.severity` defaults to `"info"`.
+     * @throws {Error} If the severity is unknown; nothing is sent, suppressed or queued.
      */
     async broadcastEmbed(embed: EmbedOptions): Promise<BroadcastSummary> {
-        const results: Record<string, BroadcastResult> = {};
+        return this._broadcastEmbed(embed, {});
+    }
 
-        await Promise.allSettled(
-            this.clients.map(async ({ client, alias, platform }) => {
+    /**
+     * Broadcasts a file, such as a log file or JSON dump. Clients that support uploads (Discord)
+     * receive it as an attachment, streamed from disk for paths. The others receive the message text
+     * or embed followed by the file inline in a code block, or by an excerpt of its beginning when it
+     * is longer than `excerptLength`. Files bypass duplicate suppression, the digest and the outbox.
+     * Redaction applies to the message text, the embed and inline excerpts; uploaded files are sent
+     * as they are, so do not upload files that may contain secrets to redacted groups.
+     * @param file - The file contents, or the path of a file on disk.
+     * @param options - File name, message text, embed and severity (defaults to the embed's, or `"info"`).
+     * @returns Summary of broadcast results.
+     * @throws {ConfigurationError} If the path does not exist; nothing is sent.
+     *
+     * @example
+     * ```ts
+     * await alerts.broadcastFile("/var/log/api/error.log", {
+     *   severity: "error",
+     *   embed: { title: "api crashed", description: "Last log lines attached" },
+     * });
+     * ```
+     */
+    async broadcastFile(file: FileInput, options: BroadcastFileOptions = {}): Promise<BroadcastSummary> {
+        const { severity = options.embed?.severity ?? "info", excerptLength = 1500, ...fileOptions } = options;
+        this._checkSeverity(severity);
+        const source = await resolveFile(file, fileOptions.filename);
+        let excerpt: Promise<string> | null = null;
+
+        return this._fanOut(severity, async (entry) => {
+            const { client } = entry;
+            const redactor = this._redactorFor(entry);
+            const audit = (count: number) => (redactor ? { redactions: count } : {});
+            const { filename, ...content } = fileOptions;
+            const { value: redacted, count } = applyRedaction(redactor, content);
+            const message = { ...redacted, ...(filename !== undefined ? { filename } : {}) };
+
+            if (typeof client.sendFile === "function") {
+                const result = await client.sendFile(file, { ...message, filename: source.filename });
+                return { result, ...audit(count) };
+            }
+
+            // The excerpt is read once and shared by every client that needs it.
+            excerpt ??= renderFileExcerpt(source, excerptLength);
+            const { value: inline, count: inlineCount } = applyRedaction(redactor, await excerpt);
+            const note = "File uploads not supported; sent inline.";
+
+            if (message.embed && typeof client.sendEmbed === "function") {
+                const description = [message.embed.description, message.content, inline].filter(Boolean).join("\n");
+                const result = await client.sendEmbed({ ...message.embed, description });
+                return { result, note, ...audit(count + inlineCount) };
+            }
+
+            const heading = message.embed ? embedText(message.embed) : "";
+            const text = [heading, message.content, inline].filter(Boolean).join("\n");
+            const result = await client.send(text);
+            return { result, note, ...audit(count + inlineCount) };
+        });
+    }
+
+    /**
+     * Broadcasts a platform-neutral rich message. Clients render it natively when they can
+     * (Slack Block Kit, Discord embeds with link buttons); clients with embeds only receive a
+     * flattened embed, and the rest plain text.
+     * @param message - The rich message; `message.severity` defaults to `"info"`.
+     * @returns Summary of broadcast results.
+     *
+     * @example
+     * ```ts
+     * await group.broadcastRich({
+     *   severity: "warn",
+     *   blocks: [
+     *     { type: "header", text: "Disk almost full" },
+     *     { type: "fields", fields: [{ name: "Host", value: "db-1", inline: true }] },
+     *     { type: "buttons", buttons: [{ text: "Runbook", url: "https://wiki.example.com/disk" }] },
+     *   ],
+     * });
+     * ```
+     */
+    async broadcastRich(message: RichMessage): Promise<BroadcastSummary> {
+        const severity = message.severity ?? "info";
+        this._checkSeverity(severity);
+
+        const suppressed = this._suppress(message, severity, (count) =>
+            this._sendRich({
+                ...message,
+                blocks: [
+                    ...message.blocks,
+                    { type: "context", elements: [`🔁 Repeated ${count} more time${count === 1 ? "" : "s"}`] },
+                ],
+            })
+        );
+        if (suppressed) return suppressed;
+
+        const flat = richToEmbed(message);
+        const queued = this._enqueue({
+            title: flat.title ?? "",
+            description: flat.description,
+            severity,
+            color: message.color,
+            fields: flat.fields,
+            tags: message.tags,
+            timestamp: new Date(),
+        });
+        if (queued) return queued;
+
+        return this._sendRich(message);
+    }
+
+    /**
+     * Renders a template with variables and broadcasts it. Clients whose platform has an
+     * override in the template (e.g. Slack blocks) receive that payload; the others receive the embed.
+     * @param name - Template name, as registered with `defineTemplate()`.
+     * @param vars - Values for the template's `{{variable}}` placeholders.
+     * @returns Summary of broadcast results.
+     * @throws {ConfigurationError} If the template is unknown or a variable is missing; nothing is sent.
+     *
+     * @example
+     * ```ts
+     * await group.broadcastTemplate("deploy-finished", { service: "api", version: "1.4.2" });
+     * ```
+     */
+    async broadcastTemplate(name: string, vars: TemplateVariables = {}): Promise<BroadcastSummary> {
+        const { embed, platforms } = this.templates.render(name, vars);
+        return this._broadcastEmbed(embed, platforms);
+    }
+
+    /**
+     * Broadcasts an embed through duplicate suppression and the digest.
+     * @private
+     * @param platforms - Payloads that replace the embed for clients of the given platforms.
+     */
+    private async _broadcastEmbed(embed: EmbedOptions, platforms: Record<string, object>): Promise<BroadcastSummary> {
+        this._checkSeverity(embed.severity ?? "info");
+        const suppressed = this._suppress(embed, embed.severity ?? "info", (count) =>
+            this._sendEmbed({
+                ...embed,
+                title: embed.title ? `🔁 ${embed.title}` : "🔁",
+                fields: [
+                    ...(embed.fields ?? []),
+                    { name: "Repeated", value: `${count} more time${count === 1 ? "" : "s"}`, inline: true },
+                ],
+            }, platforms)
+        );
+        if (suppressed) return suppressed;
+
+        const queued = this._enqueue({
+            title: embed.title ?? "",
+            description: embed.description,
+            severity: embed.severity ?? "info",
+            color: embed.color,
+            fields: embed.fields,
+            tags: embed.tags,
+            timestamp: new Date(),
+        });
+        if (queued) return queued;
+
+        return this._sendEmbed(embed, platforms);
+    }
+
+    /**
+     * Updates the messages of an earlier broadcast on every client that supports editing (Discord),
+     * e.g. to turn "⏳ running" into "✅ done" without a second notification. Strings replace the
+     * text; embeds are rendered like `broadcastEmbed()`. Clients without a handle, or that cannot
+     * edit messages, are skipped. Edits bypass duplicate suppression, the digest, the outbox and
+     * minimum levels, since they only change what the client already received.
+     * @param handles - `summary.handles` of the broadcast, or of an earlier edit.
+     * @param message - The new text or embed.
+     * @returns Summary of the edits; its `handles` identify the updated messages.
+     *
+     * @example
+     * ```ts
+     * const { handles = {} } = await alerts.broadcastEmbed({ title: "⏳ Backup running", description: "db-1" });
+     * await runBackup();
+     * await alerts.editBroadcast(handles, { title: "✅ Backup done", description: "db-1" });
+     * ```
+     */
+    async editBroadcast(handles: Record<string, MessageHandle>, message: string | EmbedOptions): Promise<BroadcastSummary> {
+        const severity = typeof message === "string" ? "info" : message.severity ?? "info";
+
+        return this._fanOut(
+            severity,
+            async (entry) => {
+                const { client, alias } = entry;
+                const handle = handles[alias] as MessageHandle;
+                const redactor = this._redactorFor(entry);
+                const { value: redacted, count } = applyRedaction(redactor, message);
+                const audit = redactor ? { redactions: count } : {};
+
+                if (typeof redacted !== "string" && typeof client.editEmbed === "function") {
+                    return { result: await client.editEmbed(handle, redacted), ...audit };
+                }
+
+                const text = typeof redacted === "string" ? redacted : embedText(redacted);
+                return { result: await client.edit!(handle, text), ...audit };
+            },
+            (entry) => this._handleSkip(entry, handles, "edit")
+        );
+    }
+
+    /**
+     * Deletes the messages of an earlier broadcast on every client that supports it (Discord).
+     * Clients without a handle, or that cannot delete messages, are skipped.
+     * @param handles - `summary.handles` of the broadcast, or of an earlier edit.
+     * @returns Summary of the deletions.
+     */
+    async deleteBroadcast(handles: Record<string, MessageHandle>): Promise<BroadcastSummary> {
+        return this._fanOut(
+            "info",
+            async ({ client, alias }) => ({ result: await client.delete!(handles[alias] as MessageHandle) }),
+            (entry) => this._handleSkip(entry, handles, "delete")
+        );
+    }
+
+    /**
+     * Returns why a client is left out of an edit or deletion, or `null`.
+     * @private
+     */
+    private _handleSkip(
+        { client, alias }: ClientEntry,
+        handles: Record<string, MessageHandle>,
+        action: "edit" | "delete"
+    ): string | null {
+        if (!handles[alias]) return "No message from the earlier broadcast.";
+        if (typeof client[action] !== "function") {
+            return `Client cannot ${action} messages.`;
+        }
+        return null;
+    }
+
+    /**
+     * Sends any pending output immediately — "repeated N times" summaries for open
+     * suppression windows, then the pending digest. Call before shutting down.
+     */
+    async flush(): Promise<void> {
+        await this.deduplicator?.drain();
+        await this._flushDigest();
+    }
+
+    /**
+     * Stops background timers (digest interval, outbox worker) after flushing pending output,
+     * and releases the outbox file. Call once, when shutting down.
+     */
+    async close(): Promise<void> {
+        await this.flush();
+        this.digest?.stop();
+
+        if (this.outboxWorker) clearInterval(this.outboxWorker);
+        this.outboxWorker = null;
+        await this.outbox?.close();
+    }
+
+    /**
+     * Re-sends every pending outbox record — left over from a previous run or from failed
+     * sends — to the client it was addressed to. Records whose alias is no longer registered
+     * stay pending. Runs automatically on the outbox's `retryInterval`; call it at startup,
+     * after adding clients, to deliver what a crash left behind.
+     * @returns Counts of delivered, failed and newly dead-lettered records.
+     */
+    async replayOutbox(): Promise<OutboxReplayResult> {
+        const outcome: OutboxReplayResult = { delivered: 0, failed: 0, dead: 0 };
+        // A dry run must not consume records that a real run still has to deliver.
+        if (!this.outbox || this._isDryRun()) return outcome;
+
+        for (const record of this.outbox.pending()) {
+            if (record.group !== this.name) continue;
+
+            const entry = this.clients.find((c) => c.alias === record.alias);
+            if (!entry || !this.outbox.claim(record.id)) continue;
+
+            try {
+                await this._deliverPayload(entry, record.payload);
+                await this.outbox.ack(record.id);
+                outcome.delivered++;
+            } catch (err: any) {
+                const dead = await this.outbox.fail(record.id, err.message, unsentPayload(err));
+                outcome.failed++;
+                if (dead) outcome.dead++;
+            }
+        }
+
+        return outcome;
+    }
+
+    /**
+     * Lists outbox records that exhausted their delivery attempts.
+     * @returns Dead-lettered records, oldest first (empty without an outbox).
+     */
+    deadLetters(): OutboxRecord[] {
+        return this.outbox?.deadLetters() ?? [];
+    }
+
+    /**
+     * Moves dead letters back to the pending queue so the next replay retries them.
+     * @param ids - Records to requeue; all dead letters when omitted.
+     * @returns The number of records requeued.
+     */
+    async requeueDeadLetters(ids?: string[]): Promise<number> {
+        return this.outbox ? this.outbox.requeue(ids) : 0;
+    }
+
+    /**
+     * Delivers a message to all clients, bypassing duplicate suppression.
+     * @private
+     */
+    private async _sendMessage(
+        message: string | object,
+        sendOptions: Record<string, any>,
+        severity: Severity
+    ): Promise<BroadcastSummary> {
+        const payload: OutboxPayload = { kind: "message", message, options: sendOptions };
+        return this._fanOut(severity, (entry) => this._deliverDurably(entry, severity, payload));
+    }
+
+    /**
+     * Delivers an embed to all clients, bypassing duplicate suppression.
+     * @private
+     * @param platforms - Payloads sent instead of the embed to clients of the given platforms.
+     */
+    private async _sendEmbed(embed: EmbedOptions, platforms: Record<string, object> = {}): Promise<BroadcastSummary> {
+        const severity = embed.severity ?? "info";
+        const payload: OutboxPayload = { kind: "embed", embed };
+        return this._fanOut(severity, (entry) => {
+            const override = platforms[entry.platform];
+            return this._deliverDurably(
+                entry,
+                severity,
+                override ? { kind: "message", message: override, options: {} } : payload
+            );
+        });
+    }
+
+    /**
+     * Delivers a rich message to all clients, bypassing duplicate suppression.
+     * @private
+     */
+    private async _sendRich(message: RichMessage): Promise<BroadcastSummary> {
+        const severity = message.severity ?? "info";
+        const payload: OutboxPayload = { kind: "rich", rich: message };
+        return this._fanOut(severity, (entry) => this._deliverDurably(entry, severity, payload));
+    }
+
+    /**
+     * Delivers a payload to one client: redacts it (if enabled), records it in the outbox
+     * (if enabled, and not in a dry run) and acknowledges or fails it afterwards. Only redacted
+     * payloads are persisted; a split message that fails partway keeps only its unsent parts.
+     * @private
+     */
+    private async _deliverDurably(entry: ClientEntry, severity: Severity, payload: OutboxPayload): Promise<Delivery> {
+        const redactor = this._redactorFor(entry);
+        const { value: redacted, count } = redactPayload(redactor, payload);
+        const audit = redactor ? { redactions: count } : {};
+
+        if (!this.outbox || this._isDryRun()) return { ...(await this._deliverPayload(entry, redacted)), ...audit };
+
+        const record = await this.outbox.add(this.name, entry.alias, severity, redacted);
+        try {
+            const delivered = await this._deliverPayload(entry, redacted);
+            await this.outbox.ack(record.id);
+            return { ...delivered, ...audit };
+        } catch (err: any) {
+            await this.outbox.fail(record.id, err.message, unsentPayload(err));
+            throw err;
+        }
+    }
+
+    /**
+     * Returns the redactor for a client: its own if configured, otherwise the group's.
+     * @private
+     */
+    private _redactorFor(entry: ClientEntry): Redactor | null {
+        return entry.redactor === undefined ? this.redactor : entry.redactor;
+    }
+
+    /**
+     * Sends a payload to one client. Embeds fall back to text if the client lacks embed support;
+     * rich messages fall back to an embed, then to text.
+     * @private
+     */
+    private async _deliverPayload({ client, platform }: ClientEntry, payload: OutboxPayload): Promise<Delivery> {
+        if (payload.kind === "message") {
+            const result = await client.send(payload.message, payload.options);
+            return { result };
+        }
+
+        if (payload.kind === "parts") {
+            let result: any;
+            for (const [index, part] of payload.parts.entries()) {
                 try {
-                    if (typeof client.sendEmbed === "function") {
-                        const result = await client.sendEmbed(embed);
-                        results[alias] = { success: true, platform, result };
-                    } else {
-                        const msg = `**${embed.title}**\n${embed.description}`;
-                        const result = await client.send(msg);
-                        results[alias] = {
-                            success: true,
-                            platform,
-                            result,
-                            note: "Embed not supported; sent as plain text.",
-                        };
+                    result = await client.send(part.message, part.options);
+                } catch (err) {
+                    const unsent = [
+                        ...((err instanceof MessageSendError && err.unsent) || [part]),
+                        ...payload.parts.slice(index + 1),
+                    ];
+                    if (err instanceof MessageSendError) {
+                        err.unsent = unsent;
+                        throw err;
                     }
-                } catch (err: any) {
-                    results[alias] = { success: false, platform, error: err.message };
+                    throw new MessageSendError(platform, err, undefined, unsent);
                 }
-            })
-        );
+            }
+            return { result };
+        }
 
-        return {
-            groupName: this.name,
-            totalClients: this.clients.length,
-            results,
-        };
+        if (payload.kind === "rich") {
+            if (typeof client.sendRich === "function") {
+                return { result: await client.sendRich(payload.rich) };
+            }
+            if (typeof client.sendEmbed === "function") {
+                const result = await client.sendEmbed(richToEmbed(payload.rich));
+                return { result, note: "Rich message sent as an embed." };
+            }
+            const result = await client.send(richToText(payload.rich));
+            return { result, note: "Rich message sent as plain text." };
+        }
+
+        const embed = payload.embed;
+        if (typeof client.sendEmbed === "function") {
+            const result = await client.sendEmbed(embed);
+            return { result };
+        }
+
+        const result = await client.send(embedText(embed));
+        return { result, note: "Embed not supported; sent as plain text." };
+    }
+
+    /**
+     * Shortcut: broadcasts a grey debug embed.
+     * The shortcuts accept extra embed options (fields, footer, tags...) as a third argument.
+     */
+    async broadcastDebug(title: string, description: string, extra: Partial<EmbedOptions> = {}) {
+        return this.broadcastEmbed({
+            ...extra,
+            title: `🐛 ${title}`,
+            description,
+            color: 0x95a5a6,
+            severity: "debug",
+        });
     }
 
     /** Shortcut: broadcasts a green success embed. */
-    async broadcastSuccess(title: string, description: string) {
+    async broadcastSuccess(title: string, description: string, extra: Partial<EmbedOptions> = {}) {
         return this.broadcastEmbed({
+            ...extra,
             title: `✅ ${title}`,
             description,
             color: 0x00ff00,
+            severity: "info",
         });
     }
 
     /** Shortcut: broadcasts a red error embed. */
-    async broadcastError(title: string, description: string) {
+    async broadcastError(title: string, description: string, extra: Partial<EmbedOptions> = {}) {
         return this.broadcastEmbed({
+            ...extra,
             title: `❌ ${title}`,
             description,
             color: 0xff0000,
+            severity: "error",
+        });
+    }
+
+    /** Shortcut: broadcasts a dark red critical embed. */
+    async broadcastCritical(title: string, description: string, extra: Partial<EmbedOptions> = {}) {
+        return this.broadcastEmbed({
+            ...extra,
+            title: `🚨 ${title}`,
+            description,
+            color: 0x8b0000,
+            severity: "critical",
         });
     }
 
     /** Shortcut: broadcasts a yellow warning embed. */
-    async broadcastWarning(title: string, description: string) {
+    async broadcastWarning(title: string, description: string, extra: Partial<EmbedOptions> = {}) {
         return this.broadcastEmbed({
+            ...extra,
             title: `⚠️ ${title}`,
             description,
             color: 0xffff00,
+            severity: "warn",
         });
     }
 
     /** Shortcut: broadcasts a blue info embed. */
-    async broadcastInfo(title: string, description: string) {
+    async broadcastInfo(title: string, description: string, extra: Partial<EmbedOptions> = {}) {
         return this.broadcastEmbed({
+            ...extra,
             title: `ℹ️ ${title}`,
             description,
             color: 0x3498db,
+            severity: "info",
         });
     }
 
@@ -188,7 +793,7 @@ export class BroadcastGroup {
      * @returns Array of client descriptors.
      */
     listClients() {
-        return this.clients.map(({ alias, platform }) => ({ alias, platform }));
+        return this.clients.map(({ alias, platform, minLevel }) => ({ alias, platform, minLevel }));
     }
 
     /**
@@ -223,4 +828,205 @@ export class BroadcastGroup {
 
         return results;
     }
+
+    /**
+     * Queues an entry for the next digest if digests are enabled and its severity qualifies.
+     * Reaching `maxSize` triggers a flush in the background.
+     * @private
+     * @returns A summary marking every client as skipped if the entry was queued, otherwise `null`.
+     */
+    private _enqueue(entry: DigestEntry): BroadcastSummary | null {
+        if (!this.digest || !this.digest.accepts(entry.severity)) return null;
+
+        const pending = this.digest.push(entry);
+        if (pending >= this.digest.maxSize) {
+            this._flushDigest().catch(() => undefined);
+        }
+
+        const skipped: Record<string, SkippedClient> = {};
+        this.clients.forEach(({ alias, platform }) => {
+            skipped[alias] = { platform, reason: "Queued for the next digest." };
+        });
+
+        return {
+            groupName: this.name,
+            totalClients: this.clients.length,
+            severity: entry.severity,
+            results: {},
+            skipped,
+            digest: { pending },
+        };
+    }
+
+    /**
+     * Sends all pending digest entries as one combined message per client, rendered for
+     * its platform. Each client only receives entries at or above its minimum level.
+     * @private
+     * @returns Summary of the digest broadcast, or `null` if nothing was pending.
+     */
+    private async _flushDigest(): Promise<BroadcastSummary | null> {
+        const entries = this.digest?.take() ?? [];
+        if (entries.length === 0) return null;
+
+        const severity = entries.reduce<Severity>(
+            (top, e) => (meetsSeverity(e.severity, top) ? e.severity : top),
+            "debug"
+        );
+
+        return this._fanOut(severity, async (entry) => {
+            const { client, platform, minLevel } = entry;
+            const visible = entries.filter((e) => meetsSeverity(e.severity, minLevel));
+            const redactor = this._redactorFor(entry);
+            const { value: parts, count } = applyRedaction(redactor, renderDigest(visible, platform, this.name));
+            const results: any[] = [];
+
+            for (const part of parts) {
+                if ("embed" in part && typeof client.sendEmbed === "function") {
+                    results.push(await client.sendEmbed(part.embed));
+                } else if ("embed" in part) {
+                    results.push(await client.send(embedText(part.embed)));
+                } else {
+                    results.push(await client.send(part.message));
+                }
+            }
+
+            // Redactions made by the client while sending the parts count towards the audit too.
+            const clientCount = results.reduce<number>(
+                (n, r) => n + (typeof r?.redactions === "number" ? r.redactions : 0),
+                0
+            );
+
+            return {
+                result: results,
+                ...(redactor || clientCount > 0 ? { redactions: count + clientCount } : {}),
+                note: `Digest of ${visible.length} message${visible.length === 1 ? "" : "s"} in ${parts.length} part${parts.length === 1 ? "" : "s"}.`,
+            };
+        });
+    }
+
+    /**
+     * Counts the message against its suppression window, if deduplication is enabled.
+     * @private
+     * @param message - The message or embed being broadcast.
+     * @param severity - Its severity.
+     * @param summarize - Sends the "repeated N times" summary when the window closes.
+     * @returns A summary marking every client as skipped if the message is a duplicate, otherwise `null`.
+     */
+    private _suppress(
+        message: string | object,
+        severity: Severity,
+        summarize: (count: number) => Promise<BroadcastSummary>
+    ): BroadcastSummary | null {
+        const duplicate = this.deduplicator?.admit(message, summarize);
+        if (!duplicate) return null;
+
+        const skipped: Record<string, SkippedClient> = {};
+        this.clients.forEach(({ alias, platform }) => {
+            skipped[alias] = {
+                platform,
+                reason: "Duplicate suppressed; a summary is sent when the window closes.",
+            };
+        });
+
+        return {
+            groupName: this.name,
+            totalClients: this.clients.length,
+            severity,
+            results: {},
+            skipped,
+            suppressed: duplicate,
+        };
+    }
+
+    /**
+     * Whether this group prints instead of sending: its own setting, else the global one.
+     * @private
+     */
+    private _isDryRun(): boolean {
+        return this.dryRun !== undefined ? this.dryRun !== false : activeDryRun() !== null;
+    }
+
+    /**
+     * Rejects an unknown severity before it reaches duplicate suppression, the digest or a client.
+     * @private
+     * @throws {Error} If the severity is not one of the severity levels.
+     */
+    private _checkSeverity(severity: unknown): asserts severity is Severity {
+        if (!isSeverity(severity)) {
+            throw new Error(`Invalid severity '${severity}'`);
+        }
+    }
+
+    /**
+     * Delivers to every client whose minimum level the severity meets, collecting
+     * per-client results, message handles and the clients that were skipped.
+     * @private
+     * @param severity - Severity of the message being broadcast.
+     * @param deliver - Sends to a single client; may add a `note` to the result.
+     * @param skip - Returns why a client is skipped, or `null`. Defaults to the minimum level check.
+     * @returns Summary of broadcast results.
+     */
+    private async _fanOut(
+        severity: Severity,
+        deliver: (entry: ClientEntry) => Promise<Delivery>,
+        skip: (entry: ClientEntry) => string | null = ({ minLevel }) =>
+            meetsSeverity(severity, minLevel)
+                ? null
+                : `Severity '${severity}' is below the client's minimum level '${minLevel}'.`
+    ): Promise<BroadcastSummary> {
+        this._checkSeverity(severity);
+
+        const dryRun = this._isDryRun();
+        const results: Record<string, BroadcastResult> = {};
+        const skipped: Record<string, SkippedClient> = {};
+        const handles: Record<string, MessageHandle> = {};
+
+        await Promise.allSettled(
+            this.clients.map(async (entry) => {
+                const { alias, platform } = entry;
+
+                const reason = dryRun && !entry.client.supportsDryRun
+                    ? "Client does not support dry run; nothing was sent."
+                    : skip(entry);
+                if (reason) {
+                    skipped[alias] = { platform, reason };
+                    return;
+                }
+
+                try {
+                    const { result, note, redactions } = await withDryRun(this.dryRun, () => deliver(entry));
+                    const clientRedactions = typeof result?.redactions === "number" ? result.redactions : undefined;
+                    if (result?.handle) handles[alias] = result.handle;
+                    results[alias] = {
+                        success: true,
+                        platform,
+                        result,
+                        attempts: result?.attempts,
+                        ...(note ? { note } : {}),
+                        ...(redactions !== undefined || clientRedactions !== undefined
+                            ? { redactions: (redactions ?? 0) + (clientRedactions ?? 0) }
+                            : {}),
+                        ...(result?.handle ? { handle: result.handle } : {}),
+                    };
+                } catch (err: any) {
+                    results[alias] = {
+                        success: false,
+                        platform,
+                        error: err.message,
+                        attempts: err.attempts,
+                    };
+                }
+            })
+        );
+
+        return {
+            groupName: this.name,
+            totalClients: this.clients.length,
+            severity,
+            results,
+            skipped,
+            ...(Object.keys(handles).length > 0 ? { handles } : {}),
+            ...(dryRun ? { dryRun: true } : {}),
+        };
+    }
 }
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { captureProcessErrors } from "./capture";
+import { BroadcastGroup } from "./broadcast";
+import { MemoryClient } from "./clients/Memory";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("captureProcessErrors", () => {
+    let release: () => void = () => undefined;
+
+    afterEach(() => {
+        release();
+        jest.restoreAllMocks();
+    });
+
+    /** Installs the handlers and returns ours, without emitting real process events. */
+    const install = (client: MemoryClient, maxQueued?: number) => {
+        const group = new BroadcastGroup("crashes", [client]);
+        release = captureProcessErrors(group, { exit: false, ...(maxQueued !== undefined ? { maxQueued } : {}) });
+        const listeners = process.listeners("uncaughtException");
+        return listeners[listeners.length - 1] as (error: Error) => void;
+    };
+
+    it("reports the error with its stack and host fields", async () => {
+        const client = new MemoryClient();
+        const onException = install(client);
+
+        onException(new TypeError("boom"));
+        await sleep(20);
+
+        const embed = client.sent[0]!.embed!;
+        expect(embed.title).toContain("Uncaught exception");
+        expect(embed.description).toContain("**TypeError:** boom");
+        expect(embed.fields!.map((f: { name: string }) => f.name)).toEqual(["Host", "PID", "Node", "Uptime"]);
+    });
+
+    it("reports errors raised during a report afterwards, and counts those beyond the queue", async () => {
+        const warning = jest.spyOn(process, "emitWarning").mockImplementation(() => undefined);
+        const client = new MemoryClient({ latency: 20 });
+        const onException = install(client, 1);
+
+        onException(new Error("first"));
+        onException(new Error("second"));
+        onException(new Error("third"));
+        onException(new Error("fourth"));
+        await sleep(150);
+
+        expect(client.sent.map((c) => c.embed!.description)).toEqual([
+            expect.stringContaining("first"),
+            expect.stringContaining("second"),
+        ]);
+        expect(client.sent[1]!.embed!.fields).toContainEqual({ name: "Dropped reports", value: "2", inline: true });
+        expect(warning).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,150 @@
+import * as os from "os";
+import { BroadcastGroup } from "./broadcast";
+import { PLATFORM_LIMITS } from "./utils/constants";
+import { CaptureOptions, ProcessErrorEvent } from "./types/capture";
+
+const TITLES: Record<ProcessErrorEvent, string> = {
+    uncaughtException: "Uncaught exception",
+    unhandledRejection: "Unhandled promise rejection",
+    SIGTERM: "Received SIGTERM",
+};
+
+/** Description length each platform displays in full, leaving room for the title and fields. */
+const descriptionLimit = (platform: string): number => {
+    switch (platform) {
+        case "discord":
+            return PLATFORM_LIMITS.discord.description;
+        case "slack":
+            return PLATFORM_LIMITS.slack.attachmentText;
+        case "telegram":
+            return PLATFORM_LIMITS.telegram.text - 1024;
+        case "teams":
+            return PLATFORM_LIMITS.teams.payload / 2;
+        default:
+            return 16000;
+    }
+};
+
+/** Formats seconds as e.g. `2d 3h 4m 5s`. */
+const formatUptime = (seconds: number): string => {
+    const units: Array<[string, number]> = [["d", 86400], ["h", 3600], ["m", 60], ["s", 1]];
+    let rest = Math.floor(seconds);
+    const parts = units.flatMap(([unit, size]) => {
+        const value = Math.floor(rest / size);
+        rest %= size;
+        return value > 0 ? [`${value}${unit}`] : [];
+    });
+    return parts.join(" ") || "0s";
+};
+
+/** Builds the description: the error message followed by as much of the stack as fits in `limit`. */
+const describe = (reason: unknown, limit: number): string => {
+    if (!(reason instanceof Error)) {
+        const text = typeof reason === "string" ? reason : JSON.stringify(reason) ?? String(reason);
+        return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+    }
+
+    const message = `**${reason.name}:** ${reason.message}`.slice(0, limit);
+    const stack = reason.stack?.split("\n").slice(1).join("\n").trimEnd();
+    const room = limit - message.length - "\n```\n\n```".length;
+    if (!stack || room <= 1) return message;
+
+    const shown = stack.length > room ? `${stack.slice(0, room - 1)}…` : stack;
+    return `${message}\n\`\`\`\n${shown}\n\`\`\``;
+};
+
+/**
+ * Reports fatal process events to a broadcast group and waits for delivery before the process exits.
+ *
+ * Each report is sent with `broadcastError()`, using the message and stack trace as the description
+ * (truncated to the smallest limit among the group's platforms) and host name, PID, Node version and
+ * uptime as fields. The group is flushed afterwards so pending digests are not lost.
+ * Events raised while a report is being sent are reported after it, before exiting, up to
+ * `maxQueued`; further ones are dropped, counted in the next report and emitted as a process warning.
+ *
+ * @param group - The group that receives the reports.
+ * @param options - Which events to report and how to exit.
+ * @returns A function that removes the installed handlers.
+ */
+export const captureProcessErrors = (group: BroadcastGroup, options: CaptureOptions = {}): (() => void) => {
+    const exit = options.exit ?? true;
+    const timeout = options.timeout ?? 5000;
+    const maxQueued = Math.max(0, options.maxQueued ?? 10);
+    let reporting = false;
+    /** Events that arrived during the running report, and how many were accepted or dropped since it started. */
+    const queued: Array<{ event: ProcessErrorEvent; reason: unknown }> = [];
+    let accepted = 0;
+    let dropped = 0;
+
+    const report = async (event: ProcessErrorEvent, reason?: unknown): Promise<void> => {
+        const limit = Math.min(...group.listClients().map((c) => descriptionLimit(c.platform)));
+        const fields = [
+            { name: "Host", value: os.hostname(), inline: true },
+            { name: "PID", value: String(process.pid), inline: true },
+            { name: "Node", value: process.version, inline: true },
+            { name: "Uptime", value: formatUptime(process.uptime()), inline: true },
+            ...(dropped > 0 ? [{ name: "Dropped reports", value: String(dropped), inline: true }] : []),
+            ...Object.entries(options.fields ?? {}).map(([name, value]) => ({ name, value, inline: true })),
+        ];
+
+        const delivery = (async () => {
+            await group.broadcastError(
+                TITLES[event],
+                reason === undefined ? `Process ${process.pid} is shutting down.` : describe(reason, limit),
+                { fields }
+            );
+            await group.flush();
+        })();
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const deadline = new Promise<void>((resolve) => {
+            timer = setTimeout(resolve, timeout);
+        });
+
+        try {
+            await Promise.race([delivery.catch(() => undefined), deadline]);
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    const handle = (event: ProcessErrorEvent, code: number, reason?: unknown) => {
+        // Events during a report are sent after it. The limit counts every event since the first,
+        // so errors raised by the reports themselves cannot keep the process alive.
+        if (reporting) {
+            if (accepted < maxQueued) {
+                accepted++;
+                queued.push({ event, reason });
+            } else if (dropped++ === 0) {
+                process.emitWarning(`logifly dropped process error reports: more than ${maxQueued} arrived while reporting`);
+            }
+            return;
+        }
+        reporting = true;
+
+        (async () => {
+            await report(event, reason);
+            for (let next = queued.shift(); next; next = queued.shift()) await report(next.event, next.reason);
+        })().finally(() => {
+            reporting = false;
+            accepted = 0;
+            dropped = 0;
+            const othersHandleSignal = event === "SIGTERM" && process.listenerCount("SIGTERM") > 1;
+            if (exit && !othersHandleSignal) process.exit(code);
+        });
+    };
+
+    const onException = (error: Error) => handle("uncaughtException", 1, error);
+    const onRejection = (reason: unknown) => handle("unhandledRejection", 1, reason);
+    const onSigterm = () => handle("SIGTERM", 143);
+
+    process.on("uncaughtException", onException);
+    process.on("unhandledRejection", onRejection);
+    if (options.sigterm) process.on("SIGTERM", onSigterm);
+
+    return () => {
+        process.off("uncaughtException", onException);
+        process.off("unhandledRejection", onRejection);
+        process.off("SIGTERM", onSigterm);
+    };
+};
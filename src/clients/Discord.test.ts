@@ -0,0 +1,193 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Readable } from "stream";
+import { describe, expect, it } from "@jest/globals";
+import { DiscordClient } from "./Discord";
+import { HttpError, MessageSendError } from "../utils/errors";
+import { HttpRequest, HttpResponse } from "../types/http";
+
+const WEBHOOK = "https://discord.com/api/webhooks/1/abc";
+
+/**
+ * A transport that records every request, with streamed bodies read into a string. Posts are
+ * answered with increasing message IDs, and requests for the messages in `missing` with 404.
+ */
+const recorder = (missing: string[] = []) => {
+    const requests: Array<HttpRequest & { text?: string }> = [];
+    let nextId = 100;
+    const transport = {
+        request: async (request: HttpRequest): Promise<HttpResponse> => {
+            let text: string | undefined;
+            if (request.body instanceof Readable) {
+                const chunks: Buffer[] = [];
+                for await (const chunk of request.body) chunks.push(Buffer.from(chunk));
+                text = Buffer.concat(chunks).toString("utf8");
+            }
+            requests.push({ ...request, ...(text !== undefined ? { text } : {}) });
+            if (missing.some((id) => request.url.includes(`/messages/${id}`))) {
+                const response = { status: 404, statusText: "Not Found", headers: {}, data: { message: "Unknown Message" } };
+                throw new HttpError("HTTP 404", "status", response);
+            }
+            const id = request.method === "POST" ? String(nextId++) : request.url.split("/").pop()!.split("?")[0];
+            return { status: 200, statusText: "OK", headers: {}, data: { id } };
+        },
+    };
+    return { requests, transport };
+};
+
+describe("DiscordClient.sendFile", () => {
+    it("uploads the file as multipart form data after the payload", async () => {
+        const { requests, transport } = recorder();
+        const discord = new DiscordClient({ webhookUrl: WEBHOOK, transport });
+
+        const result = await discord.sendFile(Buffer.from("line 1\nline 2\n"), {
+            filename: "error.log",
+            content: "Crash log attached",
+        });
+
+        const request = requests[0]!;
+        const boundary = /^multipart\/form-data; boundary=(logifly-[0-9a-f]{24})$/.exec(request.headers!["Content-Type"]!)?.[1];
+        expect(boundary).toBeDefined();
+        expect(request.params).toEqual({ wait: true });
+        expect(Number(request.headers!["Content-Length"])).toBe(Buffer.byteLength(request.text!));
+
+        const parts = request.text!.split(`--${boundary}`);
+        expect(parts).toHaveLength(4);
+        expect(parts[3]).toBe("--\r\n");
+        expect(parts[1]).toContain('Content-Disposition: form-data; name="payload_json"');
+        expect(JSON.parse(parts[1]!.split("\r\n\r\n")[1]!.trim())).toMatchObject({
+            content: "Crash log attached",
+            attachments: [{ id: 0, filename: "error.log" }],
+        });
+        expect(parts[2]).toBe(
+            '\r\nContent-Disposition: form-data; name="files[0]"; filename="error.log"\r\n' +
+                "Content-Type: text/plain\r\n\r\nline 1\nline 2\n\r\n"
+        );
+        expect(result.handle).toEqual({ platform: "discord", ids: ["100"] });
+    });
+
+    it("streams paths from disk and refuses files over maxFileSize without a request", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "logifly-discord-"));
+        const file = path.join(dir, "dump.json");
+        fs.writeFileSync(file, '{"ok":true}');
+        const { requests, transport } = recorder();
+
+        try {
+            await new DiscordClient({ webhookUrl: WEBHOOK, transport }).sendFile(file);
+            const error = await new DiscordClient({ webhookUrl: WEBHOOK, transport, maxFileSize: 4 })
+                .sendFile(file)
+                .catch((e) => e);
+
+            expect(requests).toHaveLength(1);
+            expect(requests[0]!.text).toContain('filename="dump.json"\r\nContent-Type: application/json\r\n\r\n{"ok":true}');
+            expect(error).toBeInstanceOf(MessageSendError);
+            expect(error.message).toContain("exceeds the limit of 4 B");
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe("DiscordClient edits", () => {
+    const threadHook = `${WEBHOOK}?thread_id=42`;
+
+    it("posts with wait=true and keeps the returned IDs as the handle", async () => {
+        const { requests, transport } = recorder();
+        const discord = new DiscordClient({ webhookUrl: threadHook, transport });
+
+        const { handle } = await discord.send("a ".repeat(2250));
+
+        expect(handle).toEqual({ platform: "discord", ids: ["100", "101", "102"] });
+        expect(requests.map((r) => [r.method, r.url, r.params])).toEqual([
+            ["POST", threadHook, { wait: true }],
+            ["POST", threadHook, { wait: true }],
+            ["POST", threadHook, { wait: true }],
+        ]);
+    });
+
+    it("patches each message of the handle and deletes the surplus", async () => {
+        const { requests, transport } = recorder();
+        const discord = new DiscordClient({ webhookUrl: threadHook, transport });
+        const { handle } = await discord.send("a ".repeat(2250));
+        requests.length = 0;
+
+        const edited = await discord.editEmbed(handle, { title: "✅ Done", description: "all parts sent" });
+
+        expect(requests.map((r) => [r.method, r.url])).toEqual([
+            ["PATCH", "https://discord.com/api/webhooks/1/abc/messages/100?thread_id=42"],
+            ["DELETE", "https://discord.com/api/webhooks/1/abc/messages/101?thread_id=42"],
+            ["DELETE", "https://discord.com/api/webhooks/1/abc/messages/102?thread_id=42"],
+        ]);
+        expect(requests[0]!.params).toEqual({});
+        expect(requests[0]!.body).toMatchObject({ content: "", components: [], embeds: [{ title: "✅ Done" }] });
+        expect(requests[1]!.body).toBeUndefined();
+        expect(edited.handle).toEqual({ platform: "discord", ids: ["100"] });
+    });
+
+    it("deletes every message and ignores those already gone", async () => {
+        const { requests, transport } = recorder(["101"]);
+        const discord = new DiscordClient({ webhookUrl: WEBHOOK, transport });
+
+        const result = await discord.delete({ platform: "discord", ids: ["100", "101"] });
+
+        expect(result).toMatchObject({ success: true, attempts: 1 });
+        expect(requests.map((r) => [r.method, r.url])).toEqual([
+            ["DELETE", `${WEBHOOK}/messages/100`],
+            ["DELETE", `${WEBHOOK}/messages/101`],
+        ]);
+    });
+
+    it("fails an edit of a message that no longer exists", async () => {
+        const { transport } = recorder(["100"]);
+        const discord = new DiscordClient({ webhookUrl: WEBHOOK, transport });
+
+        await expect(discord.edit({ platform: "discord", ids: ["100"] }, "new text")).rejects.toBeInstanceOf(MessageSendError);
+    });
+});
+
+describe("DiscordClient rate limits", () => {
+    /** A transport whose responses report an exhausted bucket that resets after `resetAfter` seconds. */
+    const exhausted = (resetAfter: string) => {
+        const started: number[] = [];
+        const transport = {
+            request: async (): Promise<HttpResponse> => {
+                started.push(Date.now());
+                return {
+                    status: 200,
+                    statusText: "OK",
+                    headers: { "x-ratelimit-remaining": "0", "x-ratelimit-reset-after": resetAfter },
+                    data: { id: "1" },
+                };
+            },
+        };
+        return { started, transport };
+    };
+
+    it("waits for the bucket to reset before the next request", async () => {
+        const { started, transport } = exhausted("0.05");
+        const discord = new DiscordClient({ webhookUrl: WEBHOOK, transport });
+
+        await discord.send("first");
+        await discord.send("second");
+
+        expect(started[1]! - started[0]!).toBeGreaterThanOrEqual(45);
+    });
+
+    it("fails at once instead of waiting longer than maxDelay", async () => {
+        const { started, transport } = exhausted("60");
+        const discord = new DiscordClient({ webhookUrl: WEBHOOK, transport, retry: { maxDelay: 1000 } });
+        await discord.send("first");
+
+        const before = Date.now();
+        const error = await discord.send("second").catch((e) => e);
+
+        expect(error).toBeInstanceOf(MessageSendError);
+        expect(error.message).toBe(
+            "Failed to send message via Discord: Rate limited for another 60s, longer than the maximum delay of 1000ms"
+        );
+        expect(error.attempts).toBe(1);
+        expect(Date.now() - before).toBeLessThan(500);
+        expect(started).toHaveLength(1);
+    });
+});
@@ -1,7 +1,30 @@
-import axios, { AxiosError } from "axios";
-import { ConfigurationError, MessageSendError } from "../utils/errors";
+import { randomBytes } from "crypto";
+import { Readable } from "stream";
+import { ConfigurationError, HttpError, MessageSendError, OverflowError } from "../utils/errors";
 import { IsValidWebhookUrl, validateRequired } from "../utils/validators";
-import { DiscordClientConfig, DiscordEmbed, SendOptions } from "../types/discord";
+import { DiscordClientConfig, DiscordEmbed, DiscordSendResult, SendOptions } from "../types/discord";
+import { MessageHandle } from "../types/broadcast";
+import { RetryPolicy } from "../types/retry";
+import {
+    classifyHttpError,
+    parseRetryAfter,
+    resolveRetryPolicy,
+    RetryDecision,
+    sleep,
+    withRetry,
+} from "../utils/retry";
+import { statusEmbed } from "../utils/status";
+import { createRedactor, redactContent, Redactor } from "../redaction";
+import { fitDiscordPayload } from "../overflow";
+import { UnsentPart } from "../types/overflow";
+import { toDiscordMessage } from "../rich";
+import { RichMessage } from "../types/rich";
+import { FileInput, FileOptions } from "../types/file";
+import { PLATFORM_LIMITS } from "../utils/constants";
+import { activeDryRun, printPreview } from "../dryrun";
+import { contentTypeOf, FileSource, formatBytes, resolveFile } from "../utils/files";
+import { resolveTransport, sendHttp } from "../http";
+import { HttpTransport } from "../types/http";
 
 /**
  * Represents a Discord webhook client.
@@ -10,9 +33,33 @@ import { DiscordClientConfig, DiscordEmbed, SendOptions } from "../types/discord
 export class DiscordClient {
     /**
      * Configuration details for the Discord webhook client.
-     * @type {Required<DiscordClientConfig>}
+     * @type {Required<Omit<DiscordClientConfig, "transport" | "retry">> & { retry: Required<RetryPolicy> }}
      */
-    config: Required<DiscordClientConfig>;
+    config: Required<Omit<DiscordClientConfig, "transport" | "retry">> & { retry: Required<RetryPolicy> };
+
+    /**
+     * Prints previews instead of sending while dry run is active.
+     * @type {boolean}
+     */
+    readonly supportsDryRun = true;
+
+    /**
+     * Epoch milliseconds until which the webhook's rate-limit bucket is exhausted.
+     * @private
+     */
+    private rateLimitResetAt = 0;
+
+    /**
+     * Transport of the client, or `null` to use the default one.
+     * @private
+     */
+    private transport: HttpTransport | null;
+
+    /**
+     * Redactor applied to every payload, or `null` when redaction is off.
+     * @private
+     */
+    private redactor: Redactor | null;
 
     /**
      * Creates a new instance of DiscordClient.
@@ -26,7 +73,13 @@ export class DiscordClient {
             avatarUrl: config.avatarUrl ?? "",
             defaultColor: config.defaultColor ?? 0x3498db,
             timeout: config.timeout ?? 5000,
+            retry: resolveRetryPolicy(config.retry),
+            redact: config.redact ?? false,
+            overflow: config.overflow ?? "split",
+            maxFileSize: config.maxFileSize ?? PLATFORM_LIMITS.discord.fileSize,
         };
+        this.transport = config.transport ? resolveTransport(config.transport) : null;
+        this.redactor = createRedactor(this.config.redact) ?? null;
 
         this._validateConfig();
     }
@@ -49,52 +102,229 @@ export class DiscordClient {
 
     /**
      * Sends a plain text or structured message to Discord using the webhook.
+     * Rate-limited (429) and server (5xx) failures are retried according to the
+     * configured retry policy, honouring Discord's `retry_after` and `X-RateLimit-*` hints.
+     * When redaction is configured, the payload is redacted before it is sent.
+     * Payloads that exceed Discord's limits are handled according to the `overflow` policy:
+     * split payloads are posted in order, each with its own retries. When a part fails after
+     * earlier ones were posted, the error's `unsent` holds the rest.
      * @param {string | Record<string, unknown>} message - The message content or structured payload.
      * @param {SendOptions} [options={}] - Optional message overrides like username and avatar.
-     * @returns {Promise<{ success: boolean; platform: string; timestamp: string }>} A result object with status details.
-     * @throws {MessageSendError} If the request to Discord fails.
+     * @returns {Promise<DiscordSendResult>} A result object with status details and a `handle`
+     * identifying the posted messages, for `edit()` and `delete()`.
+     * @throws {MessageSendError} If the request to Discord fails, or the payload overflows under the `"error"` policy.
      */
     async send(
         message: string | Record<string, unknown>,
         options: SendOptions = {}
-    ): Promise<{ success: boolean; platform: string; timestamp: string }> {
+    ): Promise<DiscordSendResult> {
+        return this._deliver(this._buildPayload(message, options));
+    }
+
+    /**
+     * Uploads a file, such as a log file, JSON dump or screenshot, with an optional message and embed.
+     * Paths are streamed from disk rather than read into memory, and reopened for each retry.
+     * The message and embed are redacted when redaction is configured; the file itself is not.
+     * @param {FileInput} file - The file contents, or the path of a file on disk.
+     * @param {FileOptions} [options={}] - File name, message text and embed.
+     * @returns {Promise<DiscordSendResult>} The send result, like `send()`.
+     * @throws {MessageSendError} If the file is missing or larger than `maxFileSize`, or the upload fails.
+     *
+     * @example
+     * ```ts
+     * await discord.sendFile("/var/log/api/error.log", {
+     *   content: "Crash log attached",
+     *   embed: { title: "api crashed", description: "See error.log" },
+     * });
+     * ```
+     */
+    async sendFile(
+        file: FileInput,
+        options: FileOptions = {}
+    ): Promise<DiscordSendResult> {
+        let source: FileSource;
         try {
-            const payload = this._buildPayload(message, options);
+            source = await resolveFile(file, options.filename);
+            if (source.size > this.config.maxFileSize) {
+                throw new OverflowError(
+                    "Discord",
+                    `file '${source.filename}' (${formatBytes(source.size)}) exceeds the limit of ${formatBytes(this.config.maxFileSize)}`
+                );
+            }
+        } catch (error) {
+            throw new MessageSendError("Discord", error as Error, 0);
+        }
 
-            const response = await axios.post(this.config.webhookUrl, payload, {
-                headers: { "Content-Type": "application/json" },
-                timeout: this.config.timeout,
-            });
+        const message: Record<string, unknown> = {};
+        if (options.content) message.content = options.content;
+        if (options.embed) message.embeds = [this._toEmbed(options.embed)];
+        return this._deliver(this._buildPayload(message, {}), source);
+    }
+
+    /**
+     * Replaces the content, embeds and components of previously sent messages.
+     * If the new message needs more parts than the handle holds, the extra parts are posted as new
+     * messages; surplus messages are deleted. The returned handle identifies the updated messages.
+     * @param {MessageHandle} handle - Handle returned by `send()`, `sendEmbed()` or an earlier `edit()`.
+     * @param {string | Record<string, unknown>} message - The new message content or structured payload.
+     * @returns {Promise<DiscordSendResult>} A result object with status details and the updated handle.
+     * @throws {MessageSendError} If a request to Discord fails, e.g. because the message was deleted.
+     *
+     * @example
+     * ```ts
+     * const { handle } = await discord.send("⏳ Backup running");
+     * await discord.edit(handle, "✅ Backup done");
+     * ```
+     */
+    async edit(handle: MessageHandle, message: string | Record<string, unknown>): Promise<DiscordSendResult> {
+        return this._deliver(this._buildPayload(message, {}), undefined, handle.ids);
+    }
+
+    /**
+     * Replaces previously sent messages with an embed.
+     * @param {MessageHandle} handle - Handle returned by an earlier send or edit.
+     * @param {DiscordEmbed} embedOptions - The embed configuration.
+     * @returns {Promise<DiscordSendResult>} A result object with status details and the updated handle.
+     */
+    async editEmbed(handle: MessageHandle, embedOptions: DiscordEmbed): Promise<DiscordSendResult> {
+        return this.edit(handle, { embeds: [this._toEmbed(embedOptions)] });
+    }
 
-            if (response.status < 200 || response.status >= 300) {
-                throw new Error(`Discord API Error: ${response.status} - ${response.statusText}`);
+    /**
+     * Deletes previously sent messages. Messages that no longer exist are ignored.
+     * @param {MessageHandle} handle - Handle returned by an earlier send or edit.
+     * @returns {Promise<{ success: boolean; platform: string; timestamp: string; attempts: number }>} A result object with status details.
+     * @throws {MessageSendError} If a request to Discord fails.
+     */
+    async delete(handle: MessageHandle): Promise<{ success: boolean; platform: string; timestamp: string; attempts: number }> {
+        let attempts = 0;
+
+        try {
+            for (const id of handle.ids) {
+                await withRetry(
+                    (attempt) => {
+                        attempts = Math.max(attempts, attempt);
+                        return this._deleteMessage(id);
+                    },
+                    this.config.retry,
+                    (error) => this._classifyError(error)
+                );
+            }
+
+            return { success: true, platform: "discord", timestamp: new Date().toISOString(), attempts };
+        } catch (error) {
+            throw this._sendError(error, attempts);
+        }
+    }
+
+    /**
+     * Redacts the payload's content, fits it to Discord's limits and posts the resulting parts in order.
+     * When editing, the parts replace the existing messages in order, extra parts are posted and
+     * surplus messages deleted. A file is attached to the last part. When a new message fails
+     * after some of its parts were posted, the error lists the parts left to send as `unsent`.
+     * @private
+     * @param {Record<string, unknown>} built - The webhook payload.
+     * @param {FileSource} [file] - File to upload with the payload.
+     * @param {string[]} [existing=[]] - IDs of the messages to edit.
+     */
+    private async _deliver(
+        built: Record<string, unknown>,
+        file?: FileSource,
+        existing: string[] = []
+    ): Promise<DiscordSendResult> {
+        let attempts = 0;
+        let parts: Record<string, unknown>[] = [];
+        let posted = 0;
+
+        try {
+            const { value: payload, count: redactions } = redactContent(this.redactor, built);
+            parts = fitDiscordPayload(payload, this.config.overflow);
+            const ids: string[] = [];
+
+            for (const [index, part] of parts.entries()) {
+                const upload = index === parts.length - 1 ? file : undefined;
+                const existingId = existing[index];
+                const postedId = await withRetry(
+                    (attempt) => {
+                        attempts = Math.max(attempts, attempt);
+                        return existingId
+                            ? this._request("PATCH", this._replacement(part), existingId)
+                            : this._request("POST", part, undefined, upload);
+                    },
+                    this.config.retry,
+                    (error) => this._classifyError(error)
+                );
+                const id = existingId ?? postedId;
+                if (id) ids.push(id);
+                posted++;
+            }
+
+            for (const id of existing.slice(parts.length)) {
+                await withRetry(
+                    (attempt) => {
+                        attempts = Math.max(attempts, attempt);
+                        return this._deleteMessage(id);
+                    },
+                    this.config.retry,
+                    (error) => this._classifyError(error)
+                );
             }
 
             return {
                 success: true,
                 platform: "discord",
                 timestamp: new Date().toISOString(),
+                attempts,
+                redactions,
+                parts: parts.length,
+                handle: { platform: "discord", ids },
             };
         } catch (error) {
-            if (axios.isAxiosError(error)) {
-                const axiosError = error as AxiosError;
-                const status = axiosError.response?.status ?? "Unknown";
-                const data = axiosError.response?.data ?? axiosError.message;
-                throw new MessageSendError(
-                    "Discord",
-                    new Error(`Discord API Error: ${status} - ${JSON.stringify(data)}`)
-                );
-            }
-            throw new MessageSendError("Discord", error as Error);
+            // Parts of an upload or an edit cannot be resent on their own.
+            const resumable = !file && existing.length === 0 && posted > 0;
+            const unsent = resumable ? parts.slice(posted).map((part) => ({ message: part, options: {} })) : undefined;
+            throw this._sendError(error, attempts, unsent);
         }
     }
 
+    /**
+     * Wraps a failed request in a `MessageSendError`, describing Discord API errors.
+     * @private
+     * @param {unknown} error - The error thrown by the request.
+     * @param {number} attempts - Attempts made.
+     * @param {UnsentPart[]} [unsent] - Parts left to send, if some were posted.
+     * @returns {MessageSendError} The error to throw.
+     */
+    private _sendError(error: unknown, attempts: number, unsent?: UnsentPart[]): MessageSendError {
+        if (error instanceof HttpError) {
+            const status = error.status ?? "Unknown";
+            const data = error.response?.data ?? error.message;
+            return new MessageSendError(
+                "Discord",
+                new Error(`Discord API Error: ${status} - ${JSON.stringify(data)}`),
+                attempts,
+                unsent
+            );
+        }
+        return new MessageSendError("Discord", error as Error, attempts, unsent);
+    }
+
     /**
      * Sends a Discord embed message with detailed content like title, description, and color.
      * @param {DiscordEmbed} embedOptions - The embed configuration.
      * @returns {Promise<object>} The Discord API response.
      */
     async sendEmbed(embedOptions: DiscordEmbed): Promise<object> {
+        return this.send({ embeds: [this._toEmbed(embedOptions)] });
+    }
+
+    /**
+     * Normalizes an embed: applies the default color and timestamp and drops undefined keys.
+     * @private
+     * @param {DiscordEmbed} embedOptions - The embed configuration.
+     * @returns {DiscordEmbed} The embed as sent to Discord.
+     */
+    private _toEmbed(embedOptions: DiscordEmbed): DiscordEmbed {
         const embed: DiscordEmbed = {
             title: embedOptions.title,
             description: embedOptions.description,
@@ -112,7 +342,16 @@ export class DiscordClient {
             if ((embed as any)[key] === undefined) delete (embed as any)[key];
         });
 
-        return this.send({ embeds: [embed] });
+        return embed;
+    }
+
+    /**
+     * Sends a rich message rendered as an embed, with buttons as link-button components.
+     * @param {RichMessage} message - The platform-neutral rich message.
+     * @returns {Promise<object>} The Discord API response.
+     */
+    async sendRich(message: RichMessage): Promise<object> {
+        return this.send(toDiscordMessage(message));
     }
 
     /**
@@ -122,11 +361,7 @@ export class DiscordClient {
      * @returns {Promise<object>} The Discord API response.
      */
     async success(title: string, description: string): Promise<object> {
-        return this.sendEmbed({
-            title: `✅ ${title}`,
-            description,
-            color: 0x00ff00,
-        });
+        return this.sendEmbed(statusEmbed("success", title, description));
     }
 
     /**
@@ -136,11 +371,7 @@ export class DiscordClient {
      * @returns {Promise<object>} The Discord API response.
      */
     async error(title: string, description: string): Promise<object> {
-        return this.sendEmbed({
-            title: `❌ ${title}`,
-            description,
-            color: 0xff0000,
-        });
+        return this.sendEmbed(statusEmbed("error", title, description));
     }
 
     /**
@@ -150,11 +381,7 @@ export class DiscordClient {
      * @returns {Promise<object>} The Discord API response.
      */
     async warn(title: string, description: string): Promise<object> {
-        return this.sendEmbed({
-            title: `⚠️ ${title}`,
-            description,
-            color: 0xffff00,
-        });
+        return this.sendEmbed(statusEmbed("warn", title, description));
     }
 
     /**
@@ -164,11 +391,7 @@ export class DiscordClient {
      * @returns {Promise<object>} The Discord API response.
      */
     async info(title: string, description: string): Promise<object> {
-        return this.sendEmbed({
-            title: `ℹ️ ${title}`,
-            description,
-            color: 0x3498db,
-        });
+        return this.sendEmbed(statusEmbed("info", title, description));
     }
 
     /**
@@ -184,6 +407,180 @@ export class DiscordClient {
         }
     }
 
+    /**
+     * Makes one webhook request, waiting first if the rate-limit bucket reported by the previous
+     * response is exhausted, or failing at once if it resets later than `retry.maxDelay` from now.
+     * Messages are posted with `wait=true` so Discord returns their ID.
+     * With a file, the payload and the file are sent as a streamed `multipart/form-data` body.
+     * @private
+     * @param {"POST" | "PATCH" | "DELETE"} method - Posts a message, or edits or deletes `messageId`.
+     * @param {Record<string, unknown>} payload - The Discord message payload.
+     * @param {string} [messageId] - The message to edit or delete.
+     * @param {FileSource} [file] - File to upload as `files[0]`.
+     * @returns {Promise<string | undefined>} The ID of the posted or edited message.
+     */
+    private async _request(
+        method: "POST" | "PATCH" | "DELETE",
+        payload: Record<string, unknown>,
+        messageId?: string,
+        file?: FileSource
+    ): Promise<string | undefined> {
+        const dryRun = activeDryRun();
+        if (dryRun) {
+            const action = `${method} ${messageId ? `message ${messageId}` : "message"}${file ? ` with file ${file.filename}` : ""}`;
+            printPreview(dryRun, "discord", action, method === "DELETE" ? undefined : payload);
+            return messageId ?? `dry-run-${Date.now()}`;
+        }
+
+        const wait = this.rateLimitResetAt - Date.now();
+        if (wait > this.config.retry.maxDelay) {
+            throw new Error(
+                `Rate limited for another ${Math.ceil(wait / 1000)}s, longer than the maximum delay of ${this.config.retry.maxDelay}ms`
+            );
+        }
+        if (wait > 0) await sleep(wait);
+
+        const { body, headers } = file
+            ? this._multipart({ ...payload, attachments: [{ id: 0, filename: file.filename }] }, file)
+            : method === "DELETE"
+              ? { body: undefined, headers: {} }
+              : { body: payload, headers: { "Content-Type": "application/json" } };
+
+        const params: Record<string, boolean> = {};
+        if (method === "POST") params.wait = true;
+        // Webhooks not owned by an application only accept (link button) components with this flag.
+        if (Array.isArray(payload.components) && payload.components.length > 0) params.with_components = true;
+
+        try {
+            const response = await sendHttp(this.transport, {
+                method,
+                url: this._messageUrl(messageId),
+                ...(body !== undefined ? { body } : {}),
+                headers,
+                timeout: this.config.timeout,
+                params,
+            });
+
+            this._trackRateLimit(response.headers);
+
+            const id = (response.data as { id?: unknown } | undefined)?.id;
+            return typeof id === "string" ? id : undefined;
+        } catch (error) {
+            if (error instanceof HttpError && error.response) {
+                this._trackRateLimit(error.response.headers);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Deletes one message. A message that no longer exists counts as deleted.
+     * @private
+     * @param {string} id - The message ID.
+     */
+    private async _deleteMessage(id: string): Promise<void> {
+        try {
+            await this._request("DELETE", {}, id);
+        } catch (error) {
+            if (!(error instanceof HttpError && error.status === 404)) throw error;
+        }
+    }
+
+    /**
+     * Returns the URL of the webhook, or of one of its messages. Query parameters such as
+     * `thread_id` are kept, since edits in a thread need them too.
+     * @private
+     * @param {string} [messageId] - The message ID.
+     * @returns {string} The request URL.
+     */
+    private _messageUrl(messageId?: string): string {
+        if (!messageId) return this.config.webhookUrl;
+        const url = new URL(this.config.webhookUrl);
+        url.pathname = `${url.pathname.replace(/\/+$/, "")}/messages/${messageId}`;
+        return url.toString();
+    }
+
+    /**
+     * Turns a payload into a full replacement for an edited message: the username and avatar
+     * cannot be edited, and content, embeds and components that are not given are cleared.
+     * @private
+     * @param {Record<string, unknown>} payload - The Discord message payload.
+     * @returns {Record<string, unknown>} The edit payload.
+     */
+    private _replacement(payload: Record<string, unknown>): Record<string, unknown> {
+        const { username: _username, avatar_url: _avatarUrl, ...edit } = payload;
+        return { content: "", embeds: [], components: [], ...edit };
+    }
+
+    /**
+     * Builds a `multipart/form-data` body that streams the file between the JSON payload and the
+     * closing boundary, with a known `Content-Length`.
+     * @private
+     * @param {Record<string, unknown>} payload - The message payload, sent as `payload_json`.
+     * @param {FileSource} file - The file to upload.
+     * @returns The request body stream and its headers.
+     */
+    private _multipart(
+        payload: Record<string, unknown>,
+        file: FileSource
+    ): { body: Readable; headers: Record<string, string> } {
+        const boundary = `logifly-${randomBytes(12).toString("hex")}`;
+        const filename = file.filename.replace(/["\r\n]/g, "_");
+        const head = Buffer.from(
+            `--${boundary}\r\n` +
+                `Content-Disposition: form-data; name="payload_json"\r\n` +
+                `Content-Type: application/json\r\n\r\n` +
+                `${JSON.stringify(payload)}\r\n` +
+                `--${boundary}\r\n` +
+                `Content-Disposition: form-data; name="files[0]"; filename="${filename}"\r\n` +
+                `Content-Type: ${contentTypeOf(file.filename)}\r\n\r\n`
+        );
+        const tail = Buffer.from(`\r\n--${boundary}--\r\n`);
+
+        async function* parts() {
+            yield head;
+            yield* file.open();
+            yield tail;
+        }
+
+        return {
+            body: Readable.from(parts(), { objectMode: false }),
+            headers: {
+                "Content-Type": `multipart/form-data; boundary=${boundary}`,
+                "Content-Length": String(head.length + file.size + tail.length),
+            },
+        };
+    }
+
+    /**
+     * Records when the webhook's rate-limit bucket resets, based on the
+     * `X-RateLimit-Remaining` and `X-RateLimit-Reset-After` response headers.
+     * @private
+     * @param {Record<string, unknown>} headers - Response headers.
+     */
+    private _trackRateLimit(headers: Record<string, unknown> = {}): void {
+        if (String(headers["x-ratelimit-remaining"]) !== "0") return;
+
+        const resetAfter = parseRetryAfter(headers["x-ratelimit-reset-after"]);
+        if (resetAfter !== undefined) {
+            this.rateLimitResetAt = Date.now() + resetAfter;
+        }
+    }
+
+    /**
+     * Decides whether a failed request may be retried and how long Discord asked us to wait.
+     * @private
+     * @param {unknown} error - The error thrown by the request.
+     * @returns {RetryDecision} The retry decision.
+     */
+    private _classifyError(error: unknown): RetryDecision {
+        return classifyHttpError(error, (response) => [
+            (response.data as { retry_after?: unknown } | undefined)?.retry_after,
+            response.headers["retry-after"],
+            response.headers["x-ratelimit-reset-after"],
+        ]);
+    }
+
     /**
      * Builds a formatted payload for the Discord API request.
      * @private
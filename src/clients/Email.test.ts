@@ -0,0 +1,165 @@
+import * as net from "net";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { EmailClient } from "./Email";
+import { ConfigurationError, MessageSendError } from "../utils/errors";
+
+interface Sink {
+    port: number;
+    commands: string[];
+    messages: string[];
+    close(): Promise<void>;
+}
+
+/**
+ * A local SMTP sink that accepts everything, records the commands it receives and
+ * replies with `replies[verb]` (consumed in order) when one is queued.
+ */
+const startSink = (options: { auth?: boolean; replies?: Record<string, string[]> } = {}): Promise<Sink> => {
+    const commands: string[] = [];
+    const messages: string[] = [];
+    const sockets = new Set<net.Socket>();
+
+    const server = net.createServer((socket) => {
+        sockets.add(socket);
+        socket.on("close", () => sockets.delete(socket));
+        let buffer = "";
+        let inData = false;
+        const reply = (verb: string, fallback: string) => socket.write(`${options.replies?.[verb]?.shift() ?? fallback}\r\n`);
+
+        socket.write("220 sink ready\r\n");
+        socket.on("data", (chunk) => {
+            buffer += chunk.toString("utf8");
+            if (inData) {
+                const end = buffer.indexOf("\r\n.\r\n");
+                if (end < 0) return;
+                messages.push(buffer.slice(0, end));
+                buffer = buffer.slice(end + 5);
+                inData = false;
+                reply("DATA-END", "250 queued");
+            }
+
+            let index: number;
+            while (!inData && (index = buffer.indexOf("\r\n")) >= 0) {
+                const line = buffer.slice(0, index);
+                buffer = buffer.slice(index + 2);
+                commands.push(line);
+                const verb = line.split(/[ :]/)[0]!.toUpperCase();
+
+                if (verb === "EHLO") socket.write(`250-sink\r\n${options.auth ? "250-AUTH PLAIN LOGIN\r\n" : ""}250 8BITMIME\r\n`);
+                else if (verb === "DATA") {
+                    inData = true;
+                    reply("DATA", "354 go ahead");
+                } else if (verb === "QUIT") {
+                    socket.end("221 bye\r\n");
+                } else if (verb === "AUTH") reply("AUTH", "235 ok");
+                else reply(verb, "250 ok");
+            }
+        });
+    });
+
+    return new Promise((resolve) => {
+        server.listen(0, "127.0.0.1", () => {
+            resolve({
+                port: (server.address() as net.AddressInfo).port,
+                commands,
+                messages,
+                close: () =>
+                    new Promise<void>((done) => {
+                        sockets.forEach((s) => s.destroy());
+                        server.close(() => done());
+                    }),
+            });
+        });
+    });
+};
+
+const client = (sink: Sink, config: Partial<ConstructorParameters<typeof EmailClient>[0]> = {}) =>
+    new EmailClient({
+        host: "127.0.0.1",
+        port: sink.port,
+        from: "Alerts <alerts@example.com>",
+        to: "oncall@example.com",
+        timeout: 2000,
+        retry: { baseDelay: 1, jitter: false },
+        ...config,
+    });
+
+describe("EmailClient", () => {
+    let sink: Sink;
+
+    afterEach(async () => {
+        await sink.close();
+    });
+
+    describe("against a plain sink", () => {
+        beforeEach(async () => {
+            sink = await startSink();
+        });
+
+        it("delivers the message to every recipient", async () => {
+            const result = await client(sink, { cc: "audit@example.com" }).send("Disk full\nOn db-1", {
+                bcc: ["hidden@example.com"],
+            });
+
+            expect(result).toMatchObject({ success: true, platform: "email", attempts: 1 });
+            expect(sink.commands).toEqual(
+                expect.arrayContaining([
+                    "MAIL FROM:<alerts@example.com>",
+                    "RCPT TO:<oncall@example.com>",
+                    "RCPT TO:<audit@example.com>",
+                    "RCPT TO:<hidden@example.com>",
+                ])
+            );
+            expect(sink.messages).toHaveLength(1);
+            expect(sink.messages[0]).toContain("Subject: Disk full");
+            expect(sink.messages[0]).toContain("Cc: audit@example.com");
+            expect(sink.messages[0]).not.toContain("hidden@example.com");
+        });
+
+        it("rejects recipients that would inject SMTP commands", async () => {
+            const error = await client(sink)
+                .send("hi", { to: "victim@example.com>\r\nRCPT TO:<attacker@example.com" })
+                .catch((e) => e);
+
+            expect(error).toBeInstanceOf(MessageSendError);
+            expect(error.originalError).toBeInstanceOf(ConfigurationError);
+            expect(sink.commands).toEqual([]);
+        });
+
+        it("rejects configured addresses with CR, LF or angle brackets", () => {
+            expect(() => client(sink, { from: "a@example.com\r\nRSET" })).toThrow(ConfigurationError);
+            expect(() => client(sink, { to: ["ok@example.com", "bad<@example.com"] })).toThrow(ConfigurationError);
+        });
+
+        it("refuses to authenticate over an unencrypted connection", async () => {
+            const error = await client(sink, { auth: { user: "u", pass: "p" } }).send("hi").catch((e) => e);
+
+            expect(error.originalError).toBeInstanceOf(ConfigurationError);
+            expect(error.attempts).toBe(1);
+            expect(sink.commands.some((c) => c.startsWith("AUTH"))).toBe(false);
+            expect(sink.messages).toEqual([]);
+        });
+    });
+
+    it("authenticates in clear text only with allowInsecureAuth", async () => {
+        sink = await startSink({ auth: true });
+
+        await client(sink, { auth: { user: "u", pass: "p" }, allowInsecureAuth: true }).send("hi");
+
+        expect(sink.commands).toContain(`AUTH PLAIN ${Buffer.from("\u0000u\u0000p").toString("base64")}`);
+        expect(sink.messages).toHaveLength(1);
+    });
+
+    it("retries transient 4xx replies and gives up on 5xx", async () => {
+        sink = await startSink({ replies: { RCPT: ["451 try later", "250 ok", "550 no such user"] } });
+        const email = client(sink);
+
+        const result = await email.send("hi");
+        expect(result.attempts).toBe(2);
+
+        const error = await email.send("hi").catch((e) => e);
+        expect(error).toBeInstanceOf(MessageSendError);
+        expect(error.attempts).toBe(1);
+        expect(error.message).toContain("550");
+    });
+});
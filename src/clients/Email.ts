@@ -0,0 +1,527 @@
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import { ConfigurationError, MessageSendError, SmtpError } from "../utils/errors";
+import { validateRequired } from "../utils/validators";
+import { SmtpConnection, SmtpReply } from "../utils/smtp";
+import {
+    EmailClientConfig,
+    EmailEmbed,
+    EmailMessage,
+    EmailSendOptions,
+    SmtpAuthMethod,
+} from "../types/email";
+import { RetryPolicy } from "../types/retry";
+import { resolveRetryPolicy, RetryDecision, withRetry } from "../utils/retry";
+import { statusEmbed } from "../utils/status";
+import { activeDryRun, printPreview } from "../dryrun";
+
+/** Escapes text for inclusion in HTML. */
+const escapeHtml = (text: string) =>
+    text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+
+/** Removes CR/LF so user content cannot inject extra headers. */
+const stripNewlines = (text: string) => text.replace(/[\r\n]+/g, " ");
+
+/** Extracts the bare address from `Name <user@host>` or returns the input trimmed. */
+const extractAddress = (address: string) => (address.match(/<([^>]+)>/)?.[1] ?? address).trim();
+
+/**
+ * Returns the bare address used in `MAIL FROM` / `RCPT TO`.
+ * @throws {ConfigurationError} If it could inject SMTP commands or break the envelope.
+ */
+const envelopeAddress = (address: string) => {
+    const bare = extractAddress(address);
+    if (/[\r\n]/.test(address) || /[<>]/.test(bare) || bare === "") {
+        throw new ConfigurationError("Invalid email address: it must not be empty or contain CR, LF, '<' or '>'");
+    }
+    return bare;
+};
+
+/** Encodes a header value as an RFC 2047 encoded-word when it is not plain ASCII. */
+const encodeHeader = (value: string) =>
+    /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+/** Base64-encodes a body part, wrapped at 76 characters per line. */
+const encodeBody = (content: string) =>
+    (Buffer.from(content, "utf8").toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+
+const toList = (value: string | string[] | undefined): string[] =>
+    (Array.isArray(value) ? value : value ? [value] : []).filter(Boolean);
+
+/**
+ * Represents an SMTP email client.
+ * Talks to the mail server directly (implicit TLS or STARTTLS, AUTH PLAIN/LOGIN) and renders
+ * embeds as styled HTML emails with a plain-text alternative.
+ *
+ * @example
+ * ```ts
+ * const email = new EmailClient({
+ *   host: "smtp.example.com",
+ *   auth: { user: "alerts@example.com", pass: process.env.SMTP_PASSWORD! },
+ *   from: "Alerts <alerts@example.com>",
+ *   to: ["oncall@example.com", "compliance@example.com"],
+ * });
+ *
+ * await email.error("Database Failure", "Unable to connect");
+ * ```
+ */
+export class EmailClient {
+    /**
+     * Configuration details for the email client.
+     */
+    config: Required<Omit<EmailClientConfig, "auth" | "tls" | "retry">> &
+        Pick<EmailClientConfig, "auth" | "tls"> & { retry: Required<RetryPolicy> };
+
+    /**
+     * Prints previews instead of sending while dry run is active.
+     * @type {boolean}
+     */
+    readonly supportsDryRun = true;
+
+    /**
+     * Creates a new instance of EmailClient.
+     * @param {EmailClientConfig} config - The configuration object for the client.
+     * @throws {ConfigurationError} If the host, sender or recipients are missing.
+     */
+    constructor(config: EmailClientConfig) {
+        const secure = config.secure ?? false;
+
+        this.config = {
+            host: config.host ?? "",
+            port: config.port ?? (secure ? 465 : 587),
+            secure,
+            starttls: config.starttls ?? true,
+            requireTLS: config.requireTLS ?? false,
+            allowInsecureAuth: config.allowInsecureAuth ?? false,
+            from: config.from ?? "",
+            to: config.to ?? [],
+            cc: config.cc ?? [],
+            bcc: config.bcc ?? [],
+            subjectPrefix: config.subjectPrefix ?? "",
+            clientName: config.clientName ?? hostname(),
+            defaultColor: config.defaultColor ?? 0x3498db,
+            timeout: config.timeout ?? 10000,
+            retry: resolveRetryPolicy(config.retry),
+        };
+        if (config.auth) this.config.auth = config.auth;
+        if (config.tls) this.config.tls = config.tls;
+
+        this._validateConfig();
+    }
+
+    /**
+     * Validates the provided client configuration.
+     * @private
+     * @throws {ConfigurationError} If required settings are missing.
+     */
+    private _validateConfig(): void {
+        validateRequired(this.config, ["host", "from"], "Email");
+
+        if (toList(this.config.to).length === 0) {
+            throw new ConfigurationError("Email configuration requires at least one recipient in 'to'");
+        }
+
+        if (this.config.auth && (!this.config.auth.user || !this.config.auth.pass)) {
+            throw new ConfigurationError("Email auth requires both 'user' and 'pass'");
+        }
+
+        [this.config.from, ...toList(this.config.to), ...toList(this.config.cc), ...toList(this.config.bcc)].forEach(
+            envelopeAddress
+        );
+    }
+
+    /**
+     * Sends an email.
+     * Strings become the plain-text body (with an HTML rendition); objects may carry
+     * `subject`, `text` and `html` explicitly. Transient SMTP failures (4xx replies, dropped
+     * connections) are retried according to the configured retry policy.
+     * @param {string | EmailMessage} message - The message text or structured email.
+     * @param {EmailSendOptions} [options={}] - Per-message subject and recipient overrides.
+     * @returns {Promise<{ success: boolean; platform: string; timestamp: string; attempts: number }>} A result object with status details.
+     * @throws {MessageSendError} If the server rejects the message.
+     */
+    async send(
+        message: string | EmailMessage,
+        options: EmailSendOptions = {}
+    ): Promise<{ success: boolean; platform: string; timestamp: string; attempts: number }> {
+        let attempts = 0;
+
+        try {
+            const email: EmailMessage = typeof message === "string" ? { text: message } : message;
+            const text = email.text ?? "";
+            const html = email.html ?? `<pre style="font-family: inherit; white-space: pre-wrap;">${escapeHtml(text)}</pre>`;
+            const subject = options.subject ?? email.subject ?? (text.split("\n")[0] || "logifly notification");
+
+            const to = toList(options.to ?? this.config.to);
+            const cc = toList(options.cc ?? this.config.cc);
+            const bcc = toList(options.bcc ?? this.config.bcc);
+            [...to, ...cc, ...bcc].forEach(envelopeAddress);
+            const raw = this._buildMessage({ subject, text, html, to, cc });
+            // The MIME message is base64-encoded, so the preview shows its decoded parts instead.
+            const dryRun = activeDryRun();
+
+            await withRetry(
+                async (attempt) => {
+                    attempts = attempt;
+                    if (dryRun) {
+                        const prefixed = `${this.config.subjectPrefix}${subject}`;
+                        const preview = { from: this.config.from, to, cc, bcc, subject: prefixed, text };
+                        return printPreview(dryRun, "email", "SMTP message", preview);
+                    }
+                    return this._deliver(raw, [...to, ...cc, ...bcc]);
+                },
+                this.config.retry,
+                (error) => this._classifyError(error)
+            );
+
+            return {
+                success: true,
+                platform: "email",
+                timestamp: new Date().toISOString(),
+                attempts,
+            };
+        } catch (error) {
+            throw new MessageSendError("Email", error as Error, attempts);
+        }
+    }
+
+    /**
+     * Sends an embed as a styled HTML email with a plain-text alternative.
+     * The title becomes the subject line.
+     * @param {EmailEmbed} embedOptions - The embed configuration.
+     * @returns {Promise<object>} The send result.
+     */
+    async sendEmbed(embedOptions: EmailEmbed): Promise<object> {
+        return this.send({
+            subject: embedOptions.title ?? "logifly notification",
+            text: this.renderText(embedOptions),
+            html: this.renderHtml(embedOptions),
+        });
+    }
+
+    /**
+     * Renders an embed as an HTML document with inline styles, since most mail clients
+     * strip `<style>` blocks.
+     * @param {EmailEmbed} embed - The embed configuration.
+     * @returns {string} The HTML document.
+     */
+    renderHtml(embed: EmailEmbed): string {
+        const color = `#${(embed.color ?? this.config.defaultColor).toString(16).padStart(6, "0")}`;
+        const parts: string[] = [];
+
+        if (embed.author) {
+            const name = escapeHtml(embed.author.name);
+            parts.push(
+                `<p style="margin:0 0 8px;font-size:13px;color:#555;">${
+                    embed.author.url ? `<a href="${escapeHtml(embed.author.url)}" style="color:#555;">${name}</a>` : name
+                }</p>`
+            );
+        }
+
+        if (embed.title) {
+            const title = escapeHtml(embed.title);
+            parts.push(
+                `<h2 style="margin:0 0 12px;font-size:20px;color:#111;">${
+                    embed.url ? `<a href="${escapeHtml(embed.url)}" style="color:#111;">${title}</a>` : title
+                }</h2>`
+            );
+        }
+
+        if (embed.description) {
+            parts.push(
+                `<p style="margin:0 0 16px;font-size:15px;line-height:1.5;color:#222;">${escapeHtml(
+                    embed.description
+                ).replace(/\n/g, "<br>")}</p>`
+            );
+        }
+
+        if (embed.fields && embed.fields.length > 0) {
+            const rows = embed.fields
+                .map(
+                    (f) =>
+                        `<tr><td style="padding:4px 12px 4px 0;font-weight:bold;vertical-align:top;white-space:nowrap;">${escapeHtml(
+                            f.name
+                        )}</td><td style="padding:4px 0;">${escapeHtml(f.value).replace(/\n/g, "<br>")}</td></tr>`
+                )
+                .join("");
+            parts.push(`<table style="border-collapse:collapse;margin:0 0 16px;font-size:14px;color:#222;">${rows}</table>`);
+        }
+
+        if (embed.image) {
+            parts.push(
+                `<img src="${escapeHtml(embed.image.url)}" alt="" style="max-width:100%;border-radius:4px;margin:0 0 16px;">`
+            );
+        }
+
+        const footer = [embed.footer?.text, embed.timestamp ?? new Date().toISOString()].filter(Boolean).join(" • ");
+        parts.push(`<p style="margin:0;font-size:12px;color:#777;">${escapeHtml(footer)}</p>`);
+
+        const thumbnail = embed.thumbnail
+            ? `<td style="width:80px;vertical-align:top;padding-left:16px;"><img src="${escapeHtml(
+                  embed.thumbnail.url
+              )}" alt="" width="80" style="border-radius:4px;"></td>`
+            : "";
+
+        return [
+            "<!DOCTYPE html>",
+            `<html><head><meta charset="utf-8"><title>${escapeHtml(embed.title ?? "")}</title></head>`,
+            `<body style="margin:0;padding:24px;background:#f4f5f7;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;">`,
+            `<table role="presentation" style="max-width:640px;width:100%;margin:0 auto;border-collapse:collapse;background:#fff;border-left:6px solid ${color};border-radius:4px;">`,
+            `<tr><td style="padding:20px 24px;vertical-align:top;">${parts.join("")}</td>${thumbnail}</tr>`,
+            "</table>",
+            "</body></html>",
+        ].join("\n");
+    }
+
+    /**
+     * Renders an embed as the plain-text alternative part.
+     * @param {EmailEmbed} embed - The embed configuration.
+     * @returns {string} The plain-text body.
+     */
+    renderText(embed: EmailEmbed): string {
+        const lines: string[] = [];
+
+        if (embed.author) lines.push(embed.author.name, "");
+        if (embed.title) lines.push(embed.title, "=".repeat(Math.min(embed.title.length, 72)));
+        if (embed.url) lines.push(embed.url);
+        if (embed.description) lines.push("", embed.description);
+
+        if (embed.fields && embed.fields.length > 0) {
+            lines.push("");
+            embed.fields.forEach((f) => lines.push(`${f.name}: ${f.value}`));
+        }
+
+        if (embed.image) lines.push("", `Image: ${embed.image.url}`);
+
+        lines.push("", "--", [embed.footer?.text, embed.timestamp ?? new Date().toISOString()].filter(Boolean).join(" • "));
+        return lines.join("\n");
+    }
+
+    /**
+     * Sends a success email with a ✅ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async success(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("success", title, description));
+    }
+
+    /**
+     * Sends an error email with a ❌ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async error(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("error", title, description));
+    }
+
+    /**
+     * Sends a warning email with a ⚠️ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async warn(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("warn", title, description));
+    }
+
+    /**
+     * Sends an informational email with a ℹ️ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async info(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("info", title, description));
+    }
+
+    /**
+     * Tests the SMTP connection by greeting, negotiating TLS and authenticating,
+     * without sending any email.
+     * @returns {Promise<boolean>} True if the session could be established, otherwise false.
+     */
+    async testConnection(): Promise<boolean> {
+        const conn = this._createConnection();
+        try {
+            await this._openSession(conn);
+            await conn.quit();
+            return true;
+        } catch {
+            return false;
+        } finally {
+            conn.close();
+        }
+    }
+
+    /**
+     * Runs one complete SMTP transaction for an already-built message.
+     * @private
+     * @param {string} raw - The RFC 5322 message.
+     * @param {string[]} recipients - Envelope recipients (to, cc and bcc).
+     */
+    private async _deliver(raw: string, recipients: string[]): Promise<void> {
+        const conn = this._createConnection();
+        try {
+            await this._openSession(conn);
+
+            await conn.command(`MAIL FROM:<${envelopeAddress(this.config.from)}>`, [250]);
+            for (const recipient of recipients) {
+                await conn.command(`RCPT TO:<${envelopeAddress(recipient)}>`, [250, 251]);
+            }
+
+            await conn.command("DATA", [354]);
+            // Dot-stuff lines starting with "." so they are not read as the terminator.
+            await conn.command(`${raw.replace(/^\./gm, "..")}\r\n.`, [250], "DATA");
+            await conn.quit();
+        } finally {
+            conn.close();
+        }
+    }
+
+    /**
+     * @private
+     */
+    private _createConnection(): SmtpConnection {
+        return new SmtpConnection({
+            host: this.config.host,
+            port: this.config.port,
+            secure: this.config.secure,
+            timeout: this.config.timeout,
+            tls: this.config.tls,
+        });
+    }
+
+    /**
+     * Connects, greets the server, upgrades with STARTTLS when possible and authenticates.
+     * @private
+     * @param {SmtpConnection} conn - A fresh connection.
+     * @throws {ConfigurationError} If TLS is required but the server does not offer it, or credentials
+     * would be sent in clear text without `allowInsecureAuth`.
+     * @throws {SmtpError} If the server rejects the session or authentication fails.
+     */
+    private async _openSession(conn: SmtpConnection): Promise<void> {
+        await conn.connect();
+        let ehlo = await this._ehlo(conn);
+
+        if (!conn.secure) {
+            if (this.config.starttls && ehlo.has("STARTTLS")) {
+                await conn.startTls();
+                ehlo = await this._ehlo(conn);
+            } else if (this.config.requireTLS) {
+                throw new ConfigurationError("SMTP server does not support STARTTLS, but requireTLS is set");
+            }
+        }
+
+        if (this.config.auth) {
+            if (!conn.secure && !this.config.allowInsecureAuth) {
+                throw new ConfigurationError(
+                    "SMTP connection is not encrypted; refusing to send credentials (set allowInsecureAuth to allow it)"
+                );
+            }
+            await this._authenticate(conn, ehlo);
+        }
+    }
+
+    /**
+     * Sends EHLO and returns the advertised extensions (upper-cased keyword → parameters).
+     * @private
+     */
+    private async _ehlo(conn: SmtpConnection): Promise<Map<string, string>> {
+        const reply: SmtpReply = await conn.command(`EHLO ${this.config.clientName}`, [250]);
+        const extensions = new Map<string, string>();
+
+        reply.lines.slice(1).forEach((line) => {
+            const [keyword = "", ...params] = line.split(/[\s=]+/);
+            extensions.set(keyword.toUpperCase(), params.join(" ").toUpperCase());
+        });
+
+        return extensions;
+    }
+
+    /**
+     * Authenticates using the configured method, or the best one the server advertises.
+     * @private
+     */
+    private async _authenticate(conn: SmtpConnection, ehlo: Map<string, string>): Promise<void> {
+        const { user, pass, method } = this.config.auth!;
+        const advertised = (ehlo.get("AUTH") ?? "").split(" ");
+        const mechanism: SmtpAuthMethod =
+            method ?? (advertised.includes("PLAIN") || !advertised.includes("LOGIN") ? "PLAIN" : "LOGIN");
+        const b64 = (value: string) => Buffer.from(value, "utf8").toString("base64");
+
+        if (mechanism === "PLAIN") {
+            await conn.command(`AUTH PLAIN ${b64(`\u0000${user}\u0000${pass}`)}`, [235], "AUTH PLAIN");
+            return;
+        }
+
+        await conn.command("AUTH LOGIN", [334]);
+        await conn.command(b64(user), [334], "AUTH LOGIN");
+        await conn.command(b64(pass), [235], "AUTH LOGIN");
+    }
+
+    /**
+     * SMTP 4xx replies and dropped connections are transient; 5xx replies are permanent.
+     * @private
+     */
+    private _classifyError(error: unknown): RetryDecision {
+        if (error instanceof ConfigurationError) {
+            return { retryable: false };
+        }
+
+        if (error instanceof SmtpError && error.responseCode !== undefined) {
+            return { retryable: error.responseCode >= 400 && error.responseCode < 500 };
+        }
+
+        return { retryable: true };
+    }
+
+    /**
+     * Builds a `multipart/alternative` MIME message with plain-text and HTML parts.
+     * @private
+     */
+    private _buildMessage(email: {
+        subject: string;
+        text: string;
+        html: string;
+        to: string[];
+        cc: string[];
+    }): string {
+        const boundary = `logifly-${randomBytes(12).toString("hex")}`;
+        const domain = extractAddress(this.config.from).split("@")[1] ?? "logifly.local";
+        const subject = stripNewlines(`${this.config.subjectPrefix}${email.subject}`);
+
+        const headers = [
+            `From: ${stripNewlines(this.config.from)}`,
+            `To: ${email.to.map(stripNewlines).join(", ")}`,
+            ...(email.cc.length > 0 ? [`Cc: ${email.cc.map(stripNewlines).join(", ")}`] : []),
+            `Subject: ${encodeHeader(subject)}`,
+            `Date: ${new Date().toUTCString()}`,
+            `Message-ID: <${randomBytes(16).toString("hex")}@${domain}>`,
+            "MIME-Version: 1.0",
+            `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        ];
+
+        return [
+            ...headers,
+            "",
+            `--${boundary}`,
+            "Content-Type: text/plain; charset=UTF-8",
+            "Content-Transfer-Encoding: base64",
+            "",
+            encodeBody(email.text),
+            `--${boundary}`,
+            "Content-Type: text/html; charset=UTF-8",
+            "Content-Transfer-Encoding: base64",
+            "",
+            encodeBody(email.html),
+            `--${boundary}--`,
+        ].join("\r\n");
+    }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "@jest/globals";
+import { MemoryClient } from "./Memory";
+import { BroadcastGroup } from "../broadcast";
+import { MessageSendError } from "../utils/errors";
+
+describe("MemoryClient failure injection", () => {
+    it("fails the next calls, then sends again", async () => {
+        const client = new MemoryClient().fail({ times: 2, error: "HTTP 503" });
+
+        const failures = await Promise.all([client.send("a").catch((e) => e), client.send("b").catch((e) => e)]);
+        const result = await client.send("c");
+
+        failures.forEach((error) => {
+            expect(error).toBeInstanceOf(MessageSendError);
+            expect(error.message).toBe("Failed to send message via memory: HTTP 503");
+        });
+        expect(result).toMatchObject({ success: true, handle: { platform: "memory", ids: ["1"] } });
+        expect(client.calls.map((call) => call.error)).toEqual(["HTTP 503", "HTTP 503", undefined]);
+        expect(client.sent.map((call) => call.message)).toEqual(["c"]);
+    });
+
+    it("fails only the calls a condition selects and reports itself disconnected while failing every call", async () => {
+        const client = new MemoryClient().fail({ when: (call) => call.embed?.severity === "critical" });
+
+        await client.sendEmbed({ title: "Disk", description: "80%", severity: "warn" });
+        await expect(client.sendEmbed({ title: "Disk", description: "99%", severity: "critical" })).rejects.toThrow(
+            "Simulated failure"
+        );
+        expect(await client.testConnection()).toBe(true);
+
+        client.fail();
+        expect(await client.testConnection()).toBe(false);
+        client.recover();
+        expect(await client.testConnection()).toBe(true);
+        expect(client.sent).toHaveLength(1);
+
+        client.reset();
+        expect(client.calls).toEqual([]);
+        expect((await client.send("again")).handle?.ids).toEqual(["1"]);
+    });
+
+    it("shows up as a partial failure in the broadcast summary", async () => {
+        const ops = new MemoryClient();
+        const pager = new MemoryClient().fail({ error: new Error("pager down") });
+        const group = new BroadcastGroup("alerts", []).addClient(ops, "ops").addClient(pager, "pager");
+
+        const summary = await group.broadcastError("DB", "db down");
+
+        expect(summary.results.ops).toMatchObject({ success: true, platform: "memory", attempts: 1 });
+        expect(summary.results.pager).toEqual({
+            success: false,
+            platform: "memory",
+            error: "Failed to send message via memory: pager down",
+            attempts: 1,
+        });
+        expect(summary.handles).toEqual({ ops: { platform: "memory", ids: ["1"] } });
+        expect(pager.calls).toHaveLength(1);
+        expect(pager.sent).toEqual([]);
+    });
+});
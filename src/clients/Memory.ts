@@ -0,0 +1,210 @@
+import { MessageSendError } from "../utils/errors";
+import { sleep } from "../utils/retry";
+import { EmbedOptions, MessageHandle } from "../types/broadcast";
+import { FileInput, FileOptions } from "../types/file";
+import { RichMessage } from "../types/rich";
+import { FailureOptions, MemoryCall, MemoryClientConfig, MemorySendResult } from "../types/memory";
+
+/**
+ * A client that records every call in memory instead of sending it, for unit tests.
+ * Supports every optional client method, so groups use the same path as for Discord.
+ * Failures can be injected to exercise partial-failure handling.
+ *
+ * @example
+ * ```ts
+ * const ops = new MemoryClient();
+ * const pager = new MemoryClient();
+ * const alerts = lgfy.createGroup("alerts", []).addClient(ops, "ops").addClient(pager, "pager");
+ *
+ * pager.fail({ error: "timeout", times: 1 });
+ * const summary = await alerts.broadcastError("DB", "db down");
+ *
+ * summary.results.pager.success; // false
+ * ops.sent[0].embed?.title;      // "❌ DB"
+ * ```
+ */
+export class MemoryClient {
+    /**
+     * Configuration of the client.
+     * @type {Required<MemoryClientConfig>}
+     */
+    config: Required<MemoryClientConfig>;
+
+    /**
+     * Records calls as usual while dry run is active, since it never sends anything.
+     * @type {boolean}
+     */
+    readonly supportsDryRun = true;
+
+    /**
+     * Every call, in order, including the ones that failed.
+     * @type {MemoryCall[]}
+     */
+    calls: MemoryCall[] = [];
+
+    /**
+     * Active failure rules, checked in the order they were added.
+     * @private
+     */
+    private failures: Array<{ error: Error; remaining: number; when?: (call: MemoryCall) => boolean }> = [];
+
+    /** @private */
+    private nextId = 1;
+
+    /**
+     * Creates a new instance of MemoryClient.
+     * @param {MemoryClientConfig} [config={}] - Optional latency.
+     */
+    constructor(config: MemoryClientConfig = {}) {
+        this.config = { latency: 0, ...config };
+    }
+
+    /**
+     * Calls that succeeded, in order.
+     * @returns {MemoryCall[]}
+     */
+    get sent(): MemoryCall[] {
+        return this.calls.filter((call) => call.error === undefined);
+    }
+
+    /**
+     * Records a text message or payload.
+     * @param {string | object} message - Message text or payload.
+     * @param {Record<string, any>} [options={}] - Send options.
+     * @returns {Promise<MemorySendResult>}
+     */
+    async send(message: string | object, options: Record<string, any> = {}): Promise<MemorySendResult> {
+        return this._record({ method: "send", message, options });
+    }
+
+    /**
+     * Records an embed.
+     * @param {EmbedOptions} embed - The embed.
+     * @returns {Promise<MemorySendResult>}
+     */
+    async sendEmbed(embed: EmbedOptions): Promise<MemorySendResult> {
+        return this._record({ method: "sendEmbed", embed });
+    }
+
+    /**
+     * Records a rich message.
+     * @param {RichMessage} rich - The message.
+     * @returns {Promise<MemorySendResult>}
+     */
+    async sendRich(rich: RichMessage): Promise<MemorySendResult> {
+        return this._record({ method: "sendRich", rich });
+    }
+
+    /**
+     * Records a file upload. The file itself is not read.
+     * @param {FileInput} file - Buffer or path.
+     * @param {FileOptions} [options={}] - Caption, embed and file name.
+     * @returns {Promise<MemorySendResult>}
+     */
+    async sendFile(file: FileInput, options: FileOptions = {}): Promise<MemorySendResult> {
+        return this._record({ method: "sendFile", file, options });
+    }
+
+    /**
+     * Records an edit of earlier messages.
+     * @param {MessageHandle} handle - Handle returned by an earlier send.
+     * @param {string | object} message - The new text or payload.
+     * @returns {Promise<MemorySendResult>}
+     */
+    async edit(handle: MessageHandle, message: string | object): Promise<MemorySendResult> {
+        return this._record({ method: "edit", handle, message });
+    }
+
+    /**
+     * Records an edit of earlier messages into an embed.
+     * @param {MessageHandle} handle - Handle returned by an earlier send.
+     * @param {EmbedOptions} embed - The new embed.
+     * @returns {Promise<MemorySendResult>}
+     */
+    async editEmbed(handle: MessageHandle, embed: EmbedOptions): Promise<MemorySendResult> {
+        return this._record({ method: "editEmbed", handle, embed });
+    }
+
+    /**
+     * Records a deletion of earlier messages.
+     * @param {MessageHandle} handle - Handle returned by an earlier send.
+     * @returns {Promise<MemorySendResult>}
+     */
+    async delete(handle: MessageHandle): Promise<MemorySendResult> {
+        return this._record({ method: "delete", handle });
+    }
+
+    /**
+     * Reports the client as disconnected while a failure rule without a `when` condition is active.
+     * @returns {Promise<boolean>}
+     */
+    async testConnection(): Promise<boolean> {
+        return !this.failures.some((f) => !f.when && f.remaining > 0);
+    }
+
+    /**
+     * Makes calls fail with a `MessageSendError`, as a real client does when delivery fails.
+     * Rules accumulate; each call uses the first one that applies.
+     * @param {FailureOptions} [options={}] - Error, number of calls and condition.
+     * @returns {this} The same instance for chaining.
+     *
+     * @example
+     * ```ts
+     * client.fail();                                                // every call
+     * client.fail({ times: 2, error: "HTTP 503" });                 // the next two calls
+     * client.fail({ when: (call) => call.embed?.severity === "critical" });
+     * ```
+     */
+    fail(options: FailureOptions = {}): this {
+        const error = options.error ?? "Simulated failure";
+        this.failures.push({
+            error: typeof error === "string" ? new Error(error) : error,
+            remaining: options.times ?? Infinity,
+            ...(options.when ? { when: options.when } : {}),
+        });
+        return this;
+    }
+
+    /**
+     * Removes every failure rule.
+     * @returns {this} The same instance for chaining.
+     */
+    recover(): this {
+        this.failures = [];
+        return this;
+    }
+
+    /**
+     * Forgets every recorded call and failure rule.
+     * @returns {this} The same instance for chaining.
+     */
+    reset(): this {
+        this.calls = [];
+        this.nextId = 1;
+        return this.recover();
+    }
+
+    /**
+     * Records a call, then fails it if a failure rule applies.
+     * @private
+     */
+    private async _record(call: Omit<MemoryCall, "timestamp">): Promise<MemorySendResult> {
+        if (this.config.latency > 0) await sleep(this.config.latency);
+
+        const timestamp = new Date().toISOString();
+        const entry: MemoryCall = { ...call, timestamp };
+        this.calls.push(entry);
+
+        const failure = this.failures.find((f) => f.remaining > 0 && (!f.when || f.when(entry)));
+        if (failure) {
+            failure.remaining--;
+            entry.error = failure.error.message;
+            throw new MessageSendError("memory", failure.error, 1);
+        }
+
+        const result: MemorySendResult = { success: true, platform: "memory", timestamp, attempts: 1 };
+        if (call.method === "delete") return result;
+        const ids = call.handle?.ids ?? [String(this.nextId++)];
+        return { ...result, handle: { platform: "memory", ids } };
+    }
+}
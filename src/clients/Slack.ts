@@ -1,4 +1,4 @@
-import { ConfigurationError, MessageSendError } from "../utils/errors.js";
+import { ConfigurationError, HttpError, MessageSendError } from "../utils/errors.js";
 import { validateRequired, IsValidWebhookUrl } from "../utils/validators.js";
 import {
     SlackClientConfig,
@@ -6,6 +6,19 @@ import {
     SlackMessageOptions,
     SlackField
 } from "../types/slack.js";
+import { RetryPolicy } from "../types/retry.js";
+import {
+    classifyHttpError,
+    resolveRetryPolicy,
+    withRetry,
+} from "../utils/retry.js";
+import { createRedactor, redactContent, Redactor } from "../redaction.js";
+import { embedToRich, toSlackMessage } from "../rich.js";
+import { fitSlackPayload } from "../overflow.js";
+import { RichMessage } from "../types/rich.js";
+import { activeDryRun, printPreview } from "../dryrun.js";
+import { resolveTransport, sendHttp } from "../http.js";
+import { HttpTransport } from "../types/http.js";
 
 /**
  * A high-level Slack client for sending messages, attachments, and embeds
@@ -28,7 +41,15 @@ import {
  * ```
  */
 export class SlackClient {
-    private config: Required<SlackClientConfig>;
+    private config: Required<Omit<SlackClientConfig, "transport" | "retry">> & { retry: Required<RetryPolicy> };
+
+    /**
+     * Prints previews instead of sending while dry run is active.
+     * @type {boolean}
+     */
+    readonly supportsDryRun = true;
+    private redactor: Redactor | null;
+    private transport: HttpTransport | null;
 
     /**
      * Creates a new SlackClient instance.
@@ -45,7 +66,13 @@ export class SlackClient {
             channel: config.channel || "",
             defaultColor: config.defaultColor || "#3498db",
             timeout: config.timeout || 5000,
+            retry: resolveRetryPolicy(config.retry),
+            redact: config.redact ?? false,
+            embedStyle: config.embedStyle ?? "attachments",
+            overflow: config.overflow ?? "split",
         };
+        this.transport = config.transport ? resolveTransport(config.transport) : null;
+        this.redactor = createRedactor(this.config.redact) ?? null;
 
         this._validateConfig();
     }
@@ -69,37 +96,67 @@ export class SlackClient {
 
     /**
      * Sends a message to Slack.
+     * Rate-limited (429) and server (5xx) failures are retried according to the
+     * configured retry policy, honouring Slack's `Retry-After` header.
+     * When redaction is configured, the payload's content is redacted before it is sent; send options are not.
+     * Payloads that exceed Slack's limits are handled according to the `overflow` policy:
+     * split payloads are posted in order, each with its own retries. If a part fails after
+     * others were posted, the error lists the parts left to send as `unsent`.
      *
      * @param message - Either a plain string or an object representing the full message payload.
      * @param options - Optional parameters such as username, channel, or attachments.
-     * @returns An object containing the success status, platform name, and timestamp.
-     * @throws {MessageSendError} If the Slack API request fails.
+     * @returns An object containing the success status, platform name, timestamp, highest attempt count,
+     * redaction count and number of messages posted.
+     * @throws {MessageSendError} If the Slack API request fails, or the payload overflows under the `"error"` policy.
      */
     async send(
         message: string | object,
         options: SlackMessageOptions = {}
-    ): Promise<{ success: boolean; platform: string; timestamp: string }> {
-        try {
-            const payload = this._buildPayload(message, options);
+    ): Promise<{ success: boolean; platform: string; timestamp: string; attempts: number; redactions: number; parts: number }> {
+        let attempts = 0;
+        let parts: Record<string, unknown>[] = [];
+        let posted = 0;
 
-            const response = await fetch(this.config.webhookUrl, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(payload),
-            });
+        try {
+            const { value: payload, count: redactions } = redactContent(
+                this.redactor,
+                this._buildPayload(message, options)
+            );
+            parts = fitSlackPayload(payload, this.config.overflow);
 
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`Slack API Error: ${response.status} - ${errorText}`);
+            for (const part of parts) {
+                const body = JSON.stringify(part);
+                await withRetry(
+                    (attempt) => {
+                        attempts = Math.max(attempts, attempt);
+                        return this._post(body);
+                    },
+                    this.config.retry,
+                    classifyHttpError
+                );
+                posted++;
             }
 
             return {
                 success: true,
                 platform: "slack",
                 timestamp: new Date().toISOString(),
+                attempts,
+                redactions,
+                parts: parts.length,
             };
         } catch (error: any) {
-            throw new MessageSendError("Slack", error);
+            const unsent = posted > 0 ? parts.slice(posted).map((part) => ({ message: part, options: {} })) : undefined;
+            if (error instanceof HttpError && error.response) {
+                const data = error.response.data;
+                throw new MessageSendError(
+                    "Slack",
+                    new Error(`Slack API Error: ${error.status} - ${typeof data === "string" ? data : JSON.stringify(data)}`),
+                    attempts,
+                    unsent
+                );
+            }
+            throw new MessageSendError("Slack", error, attempts, unsent);
         }
     }
 
@@ -119,8 +176,30 @@ export class SlackClient {
         return this.send({ attachments: [attachmentWithDefaults] });
     }
 
+    /**
+     * Sends a rich message rendered as Block Kit blocks.
+     *
+     * @param message - The platform-neutral rich message.
+     * @returns The API response from Slack.
+     *
+     * @example
+     * ```ts
+     * await client.sendRich({
+     *   blocks: [
+     *     { type: "header", text: "Deploy finished" },
+     *     { type: "section", text: "**api** 1.4.2 is live" },
+     *     { type: "buttons", buttons: [{ text: "Open dashboard", url: "https://grafana.example.com" }] },
+     *   ],
+     * });
+     * ```
+     */
+    async sendRich(message: RichMessage): Promise<any> {
+        return this.send(toSlackMessage(message));
+    }
+
     /**
      * Sends a rich embed-style message (Discord-style) to Slack.
+     * Rendered as a legacy attachment, or as Block Kit blocks when `embedStyle` is `"blocks"`.
      *
      * @param embedOptions - Configuration object describing the embed contents.
      * @param embedOptions.title - Embed title text.
@@ -145,6 +224,12 @@ export class SlackClient {
         image?: { url: string };
         url?: string;
     }): Promise<any> {
+        if (this.config.embedStyle === "blocks") {
+            return this.sendRich(
+                embedToRich({ ...embedOptions, title: embedOptions.title ?? "", description: embedOptions.description ?? "" })
+            );
+        }
+
         const colorHex = embedOptions.color
             ? `#${embedOptions.color.toString(16).padStart(6, "0")}`
             : this.config.defaultColor;
@@ -253,6 +338,26 @@ export class SlackClient {
         }
     }
 
+    /**
+     * Posts a serialized payload to the webhook once.
+     *
+     * @private
+     * @param body - The JSON-encoded Slack message payload.
+     * @throws {HttpError} If the request fails or Slack responds with a non-2xx status.
+     */
+    private async _post(body: string): Promise<void> {
+        const dryRun = activeDryRun();
+        if (dryRun) return printPreview(dryRun, "slack", "POST message", body);
+
+        await sendHttp(this.transport, {
+            method: "POST",
+            url: this.config.webhookUrl,
+            headers: { "Content-Type": "application/json" },
+            body,
+            timeout: this.config.timeout,
+        });
+    }
+
     /**
      * Builds the complete Slack webhook payload by combining configuration,
      * message content, and optional overrides.
@@ -0,0 +1,374 @@
+import { ConfigurationError, HttpError, MessageSendError } from "../utils/errors";
+import { IsValidWebhookUrl, validateRequired } from "../utils/validators";
+import {
+    AdaptiveCard,
+    AdaptiveCardElement,
+    TeamsClientConfig,
+    TeamsContainerStyle,
+    TeamsEmbed,
+} from "../types/teams";
+import { RetryPolicy } from "../types/retry";
+import {
+    classifyHttpError,
+    resolveRetryPolicy,
+    withRetry,
+} from "../utils/retry";
+import { statusEmbed } from "../utils/status";
+import { fitTeamsPayload } from "../overflow";
+import { activeDryRun, printPreview } from "../dryrun";
+import { resolveTransport, sendHttp } from "../http";
+import { HttpTransport } from "../types/http";
+
+/**
+ * Reference colors for each Adaptive Card container style.
+ * Embed colors are mapped to the closest of these, since cards cannot use arbitrary colors.
+ */
+const STYLE_COLORS: Array<[TeamsContainerStyle, number]> = [
+    ["good", 0x00ff00],
+    ["attention", 0xff0000],
+    ["warning", 0xffff00],
+    ["accent", 0x3498db],
+];
+
+/**
+ * Represents a Microsoft Teams client.
+ * Sends plain messages, embeds, and status notifications as Adaptive Cards through
+ * Incoming Webhooks or Power Automate Workflows webhooks.
+ *
+ * @example
+ * ```ts
+ * const teams = new TeamsClient({
+ *   webhookUrl: process.env.TEAMS_WEBHOOK_URL!,
+ * });
+ *
+ * await teams.send("Deployment completed successfully!");
+ * await teams.success("Build", "All tests passed.");
+ * ```
+ */
+export class TeamsClient {
+    /**
+     * Configuration details for the Teams webhook client.
+     * @type {Required<Omit<TeamsClientConfig, "transport" | "retry">> & { retry: Required<RetryPolicy> }}
+     */
+    config: Required<Omit<TeamsClientConfig, "transport" | "retry">> & { retry: Required<RetryPolicy> };
+
+    /**
+     * Prints previews instead of sending while dry run is active.
+     * @type {boolean}
+     */
+    readonly supportsDryRun = true;
+
+    /**
+     * Transport of the client, or `null` to use the default one.
+     * @private
+     */
+    private transport: HttpTransport | null;
+
+    /**
+     * Creates a new instance of TeamsClient.
+     * @param {TeamsClientConfig} config - The configuration object for the client.
+     * @throws {ConfigurationError} If the provided webhook URL is invalid.
+     */
+    constructor(config: TeamsClientConfig) {
+        this.config = {
+            webhookUrl: config.webhookUrl ?? "",
+            defaultColor: config.defaultColor ?? 0x3498db,
+            timeout: config.timeout ?? 5000,
+            retry: resolveRetryPolicy(config.retry),
+            overflow: config.overflow ?? "split",
+        };
+        this.transport = config.transport ? resolveTransport(config.transport) : null;
+
+        this._validateConfig();
+    }
+
+    /**
+     * Validates the provided client configuration.
+     * Ensures that the webhook URL is present and correctly formatted.
+     * @private
+     * @throws {ConfigurationError} If the webhook URL is invalid.
+     */
+    private _validateConfig(): void {
+        validateRequired(this.config, ["webhookUrl"], "Teams");
+
+        if (!IsValidWebhookUrl(this.config.webhookUrl, "teams")) {
+            throw new ConfigurationError(
+                "Invalid Teams webhook URL format. Expected: https://<tenant>.webhook.office.com/webhookb2/... or a Workflows webhook URL"
+            );
+        }
+    }
+
+    /**
+     * Sends a plain text message or a full payload to Teams.
+     * Strings are wrapped in an Adaptive Card; objects are posted as-is.
+     * Rate-limited (429) and server (5xx) failures are retried according to the configured retry policy.
+     * Cards that exceed the 28 KB payload limit are handled according to the `overflow` policy:
+     * split cards are posted in order, each with its own retries. If a card fails after others
+     * were posted, the error lists the cards left to send as `unsent`.
+     * @param {string | Record<string, unknown>} message - The message text or a complete Teams payload.
+     * @returns {Promise<{ success: boolean; platform: string; timestamp: string; attempts: number; parts: number }>} A result object with status details.
+     * @throws {MessageSendError} If the request to Teams fails, or the payload overflows under the `"error"` policy.
+     */
+    async send(
+        message: string | Record<string, unknown>
+    ): Promise<{ success: boolean; platform: string; timestamp: string; attempts: number; parts: number }> {
+        let attempts = 0;
+        let parts: Record<string, unknown>[] = [];
+        let posted = 0;
+
+        try {
+            parts = fitTeamsPayload(this._buildPayload(message), this.config.overflow);
+
+            for (const part of parts) {
+                await withRetry(
+                    (attempt) => {
+                        attempts = Math.max(attempts, attempt);
+                        return this._post(part);
+                    },
+                    this.config.retry,
+                    classifyHttpError
+                );
+                posted++;
+            }
+
+            return {
+                success: true,
+                platform: "teams",
+                timestamp: new Date().toISOString(),
+                attempts,
+                parts: parts.length,
+            };
+        } catch (error) {
+            const unsent = posted > 0 ? parts.slice(posted).map((part) => ({ message: part, options: {} })) : undefined;
+            if (error instanceof HttpError) {
+                const status = error.status ?? "Unknown";
+                const data = error.response?.data ?? error.message;
+                throw new MessageSendError(
+                    "Teams",
+                    new Error(`Teams API Error: ${status} - ${JSON.stringify(data)}`),
+                    attempts,
+                    unsent
+                );
+            }
+            throw new MessageSendError("Teams", error as Error, attempts, unsent);
+        }
+    }
+
+    /**
+     * Sends an embed rendered as an Adaptive Card.
+     * The title, description, fields (as a fact set), images, footer and link are mapped
+     * to card elements; the color selects the closest container style.
+     * @param {TeamsEmbed} embedOptions - The embed configuration.
+     * @returns {Promise<object>} The send result.
+     */
+    async sendEmbed(embedOptions: TeamsEmbed): Promise<object> {
+        const body: AdaptiveCardElement[] = [];
+
+        if (embedOptions.author) {
+            body.push({
+                type: "TextBlock",
+                text: embedOptions.author.url
+                    ? `[${embedOptions.author.name}](${embedOptions.author.url})`
+                    : embedOptions.author.name,
+                size: "Small",
+                isSubtle: true,
+                wrap: true,
+            });
+        }
+
+        if (embedOptions.title) {
+            body.push({
+                type: "TextBlock",
+                text: embedOptions.title,
+                size: "Large",
+                weight: "Bolder",
+                wrap: true,
+            });
+        }
+
+        if (embedOptions.description) {
+            body.push({ type: "TextBlock", text: embedOptions.description, wrap: true });
+        }
+
+        if (embedOptions.thumbnail) {
+            body.push({ type: "Image", url: embedOptions.thumbnail.url, size: "Small" });
+        }
+
+        if (embedOptions.fields && embedOptions.fields.length > 0) {
+            body.push({
+                type: "FactSet",
+                facts: embedOptions.fields.map((f) => ({ title: f.name, value: f.value })),
+            });
+        }
+
+        if (embedOptions.image) {
+            body.push({ type: "Image", url: embedOptions.image.url, size: "Stretch" });
+        }
+
+        const footer = [embedOptions.footer?.text, embedOptions.timestamp ?? new Date().toISOString()]
+            .filter(Boolean)
+            .join(" • ");
+        body.push({ type: "TextBlock", text: footer, size: "Small", isSubtle: true, wrap: true });
+
+        const card = this._buildCard([
+            {
+                type: "Container",
+                style: this._toContainerStyle(embedOptions.color ?? this.config.defaultColor),
+                bleed: true,
+                items: body,
+            },
+        ]);
+
+        if (embedOptions.url) {
+            card.actions = [{ type: "Action.OpenUrl", title: "Open", url: embedOptions.url }];
+        }
+
+        return this.send(this._wrapCard(card));
+    }
+
+    /**
+     * Sends a green success card with a ✅ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async success(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("success", title, description));
+    }
+
+    /**
+     * Sends a red error card with a ❌ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async error(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("error", title, description));
+    }
+
+    /**
+     * Sends a yellow warning card with a ⚠️ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async warn(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("warn", title, description));
+    }
+
+    /**
+     * Sends a blue informational card with a ℹ️ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async info(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("info", title, description));
+    }
+
+    /**
+     * Tests the connection to the Teams webhook by sending a sample message.
+     * @returns {Promise<boolean>} True if the test succeeded, otherwise false.
+     */
+    async testConnection(): Promise<boolean> {
+        try {
+            await this.send("logifly connection test successful! 🚀");
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Posts a payload to the webhook once.
+     * @private
+     * @param {Record<string, unknown>} payload - The Teams message payload.
+     */
+    private async _post(payload: Record<string, unknown>): Promise<void> {
+        const dryRun = activeDryRun();
+        if (dryRun) return printPreview(dryRun, "teams", "POST message", payload);
+
+        await sendHttp(this.transport, {
+            method: "POST",
+            url: this.config.webhookUrl,
+            headers: { "Content-Type": "application/json" },
+            body: payload,
+            timeout: this.config.timeout,
+        });
+    }
+
+    /**
+     * Maps an RGB color to the closest Adaptive Card container style.
+     * @private
+     * @param {number} color - RGB integer color.
+     * @returns {TeamsContainerStyle} The container style.
+     */
+    private _toContainerStyle(color: number): TeamsContainerStyle {
+        const channels = (c: number) => [(c >> 16) & 0xff, (c >> 8) & 0xff, c & 0xff];
+        const [r, g, b] = channels(color) as [number, number, number];
+
+        let best: TeamsContainerStyle = "default";
+        let bestDistance = Infinity;
+        for (const [style, reference] of STYLE_COLORS) {
+            const [rr, rg, rb] = channels(reference) as [number, number, number];
+            const distance = (r - rr) ** 2 + (g - rg) ** 2 + (b - rb) ** 2;
+            if (distance < bestDistance) {
+                best = style;
+                bestDistance = distance;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Creates an Adaptive Card with the given body elements.
+     * @private
+     * @param {AdaptiveCardElement[]} body - The card body.
+     * @returns {AdaptiveCard} The card.
+     */
+    private _buildCard(body: AdaptiveCardElement[]): AdaptiveCard {
+        return {
+            $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+            type: "AdaptiveCard",
+            version: "1.4",
+            body,
+            msteams: { width: "Full" },
+        };
+    }
+
+    /**
+     * Wraps an Adaptive Card in the message envelope accepted by both
+     * Incoming Webhooks and Workflows.
+     * @private
+     * @param {AdaptiveCard} card - The card to wrap.
+     * @returns {Record<string, unknown>} The message payload.
+     */
+    private _wrapCard(card: AdaptiveCard): Record<string, unknown> {
+        return {
+            type: "message",
+            attachments: [
+                {
+                    contentType: "application/vnd.microsoft.card.adaptive",
+                    contentUrl: null,
+                    content: card,
+                },
+            ],
+        };
+    }
+
+    /**
+     * Builds a formatted payload for the Teams webhook request.
+     * @private
+     * @param {string | Record<string, unknown>} message - The message to send.
+     * @returns {Record<string, unknown>} The structured Teams message payload.
+     */
+    private _buildPayload(message: string | Record<string, unknown>): Record<string, unknown> {
+        if (typeof message === "string") {
+            return this._wrapCard(
+                this._buildCard([{ type: "TextBlock", text: message, wrap: true }])
+            );
+        }
+
+        return { ...message };
+    }
+}
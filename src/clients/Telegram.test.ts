@@ -0,0 +1,81 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, expect, it } from "@jest/globals";
+import { TelegramClient } from "./Telegram";
+import { BroadcastGroup } from "../broadcast";
+import { MessageSendError } from "../utils/errors";
+import { HttpRequest, HttpResponse } from "../types/http";
+
+/** A transport that records `sendMessage` bodies and answers 400 for the chats in `failing`. */
+const fakeTelegram = (failing: Set<string | number>) => {
+    const sent: Array<{ chat: string | number; text: string }> = [];
+    const transport = {
+        request: async (request: HttpRequest): Promise<HttpResponse> => {
+            const body = request.body as { chat_id: string | number; text: string };
+            if (failing.has(body.chat_id)) {
+                return { status: 400, statusText: "Bad Request", headers: {}, data: { ok: false, description: "chat not found" } };
+            }
+            sent.push({ chat: body.chat_id, text: body.text });
+            return { status: 200, statusText: "OK", headers: {}, data: { ok: true, result: {} } };
+        },
+    };
+    return { sent, transport };
+};
+
+const client = (transport: { request(request: HttpRequest): Promise<HttpResponse> }, chatId: string[]) =>
+    new TelegramClient({ botToken: "123:abc", chatId, transport, retry: { baseDelay: 1, jitter: false } });
+
+describe("TelegramClient with several chats", () => {
+    it("sends every part to every chat", async () => {
+        const { sent, transport } = fakeTelegram(new Set());
+
+        const result = await client(transport, ["-1", "-2"]).send("x".repeat(5000));
+
+        expect(result).toMatchObject({ success: true, parts: 2 });
+        expect(sent.filter((s) => s.chat === "-1")).toHaveLength(2);
+        expect(sent.filter((s) => s.chat === "-2")).toHaveLength(2);
+    });
+
+    it("names the delivered and failed chats and keeps only what the failed ones need", async () => {
+        const failing = new Set<string | number>(["-2"]);
+        const { sent, transport } = fakeTelegram(failing);
+
+        const error = await client(transport, ["-1", "-2", "-3"]).send("disk full").catch((e) => e);
+
+        expect(error).toBeInstanceOf(MessageSendError);
+        expect(error.message).toContain("failed for chats -2; delivered to -1, -3");
+        expect(sent.map((s) => s.chat)).toEqual(["-1", "-3"]);
+        expect(error.unsent).toEqual([{ message: expect.objectContaining({ chat_id: "-2", text: "disk full" }), options: { chatId: "-2" } }]);
+    });
+
+    it("leaves the message as is when no chat got it", async () => {
+        const { transport } = fakeTelegram(new Set(["-1", "-2"]));
+
+        const error = await client(transport, ["-1", "-2"]).send("disk full").catch((e) => e);
+
+        expect(error.unsent).toBeUndefined();
+        expect(error.message).not.toContain("delivered to");
+    });
+
+    it("replays the outbox to the failed chats only", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "logifly-telegram-"));
+        const failing = new Set<string | number>(["-2"]);
+        const { sent, transport } = fakeTelegram(failing);
+        const group = new BroadcastGroup("alerts", [], {
+            outbox: { path: path.join(dir, "alerts.jsonl"), retryInterval: 0 },
+        }).addClient(client(transport, ["-1", "-2"]), "telegram");
+
+        try {
+            const summary = await group.broadcast("db down");
+            expect(summary.results.telegram!.success).toBe(false);
+
+            failing.clear();
+            expect(await group.replayOutbox()).toMatchObject({ delivered: 1 });
+            expect(sent.map((s) => s.chat)).toEqual(["-1", "-2"]);
+        } finally {
+            await group.close();
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
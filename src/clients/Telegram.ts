@@ -0,0 +1,391 @@
+import { ConfigurationError, HttpError, MessageSendError } from "../utils/errors";
+import { validateRequired } from "../utils/validators";
+import { TELEGRAM_BOT_TOKEN_PATTERN } from "../utils/constants";
+import {
+    TelegramChatId,
+    TelegramClientConfig,
+    TelegramEmbed,
+    TelegramParseMode,
+    TelegramSendOptions,
+} from "../types/telegram";
+import { RetryPolicy } from "../types/retry";
+import {
+    classifyHttpError,
+    resolveRetryPolicy,
+    RetryDecision,
+    withRetry,
+} from "../utils/retry";
+import { statusEmbed } from "../utils/status";
+import { fitTelegramPayload } from "../overflow";
+import { UnsentPart } from "../types/overflow";
+import { activeDryRun, printPreview } from "../dryrun";
+import { resolveTransport, sendHttp } from "../http";
+import { HttpTransport } from "../types/http";
+
+/** Escapes text for Telegram's HTML parse mode. */
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** Escapes text for Telegram's MarkdownV2 parse mode. */
+const escapeMarkdown = (text: string) => text.replace(/[_*\[\]()~`>#+\-=|{}.!\\]/g, "\\$&");
+
+/** Escapes a URL placed inside a MarkdownV2 inline link. */
+const escapeMarkdownUrl = (url: string) => url.replace(/[)\\]/g, "\\$&");
+
+/**
+ * Represents a Telegram Bot API client.
+ * Sends plain messages, embeds, and status notifications to one or more chats,
+ * optionally silently or into a forum topic.
+ *
+ * @example
+ * ```ts
+ * const telegram = new TelegramClient({
+ *   botToken: process.env.TELEGRAM_BOT_TOKEN!,
+ *   chatId: -1001234567890,
+ *   messageThreadId: 42,
+ * });
+ *
+ * await telegram.error("Database Failure", "Unable to connect");
+ * ```
+ */
+export class TelegramClient {
+    /**
+     * Configuration details for the Telegram client.
+     * @type {Required<Omit<TelegramClientConfig, "transport" | "retry">> & { retry: Required<RetryPolicy> }}
+     */
+    config: Required<Omit<TelegramClientConfig, "transport" | "retry">> & { retry: Required<RetryPolicy> };
+
+    /**
+     * Prints previews instead of sending while dry run is active.
+     * @type {boolean}
+     */
+    readonly supportsDryRun = true;
+
+    /**
+     * Transport of the client, or `null` to use the default one.
+     * @private
+     */
+    private transport: HttpTransport | null;
+
+    /**
+     * Creates a new instance of TelegramClient.
+     * @param {TelegramClientConfig} config - The configuration object for the client.
+     * @throws {ConfigurationError} If the bot token or chat IDs are missing or invalid.
+     */
+    constructor(config: TelegramClientConfig) {
+        this.config = {
+            botToken: config.botToken ?? "",
+            chatId: config.chatId ?? "",
+            parseMode: config.parseMode ?? "HTML",
+            disableNotification: config.disableNotification ?? false,
+            messageThreadId: config.messageThreadId ?? 0,
+            disableWebPagePreview: config.disableWebPagePreview ?? false,
+            apiBaseUrl: (config.apiBaseUrl ?? "https://api.telegram.org").replace(/\/+$/, ""),
+            timeout: config.timeout ?? 5000,
+            retry: resolveRetryPolicy(config.retry),
+            overflow: config.overflow ?? "split",
+        };
+        this.transport = config.transport ? resolveTransport(config.transport) : null;
+
+        this._validateConfig();
+    }
+
+    /**
+     * Validates the provided client configuration.
+     * @private
+     * @throws {ConfigurationError} If the bot token or chat IDs are invalid.
+     */
+    private _validateConfig(): void {
+        validateRequired(this.config, ["botToken", "chatId"], "Telegram");
+
+        if (!TELEGRAM_BOT_TOKEN_PATTERN.test(this.config.botToken)) {
+            throw new ConfigurationError(
+                "Invalid Telegram bot token format. Expected: <bot id>:<secret>"
+            );
+        }
+
+        if (this._chatIds(this.config.chatId).length === 0) {
+            throw new ConfigurationError("Telegram configuration requires at least one chat ID");
+        }
+    }
+
+    /**
+     * Sends a message to every configured chat.
+     * Strings are sent as plain text unless a `parseMode` option is given; objects are merged
+     * into the `sendMessage` request (e.g. `{ text, parse_mode, reply_markup }`).
+     * Rate-limited (429) and server (5xx) failures are retried, honouring `retry_after`.
+     * Text over Telegram's limit is handled according to the `overflow` policy; split messages
+     * are sent to each chat in order.
+     * Chats are sent to independently. If some fail after others were delivered, the error names
+     * both, and its `unsent` holds only what the failed chats still need, so a retry (such as an
+     * outbox replay) does not repeat messages in the chats that got them.
+     * @param {string | Record<string, unknown>} message - The message text or a `sendMessage` payload.
+     * @param {TelegramSendOptions} [options={}] - Per-message overrides.
+     * @returns {Promise<{ success: boolean; platform: string; timestamp: string; attempts: number; parts: number }>}
+     * A result object with status details; `attempts` is the highest attempt count across chats and parts.
+     * @throws {MessageSendError} If delivery to any chat fails, or the text overflows under the `"error"` policy.
+     */
+    async send(
+        message: string | Record<string, unknown>,
+        options: TelegramSendOptions = {}
+    ): Promise<{ success: boolean; platform: string; timestamp: string; attempts: number; parts: number }> {
+        const chatIds = this._chatIds(options.chatId ?? this.config.chatId);
+        let attempts = 0;
+        let parts = 0;
+        let delivered = false;
+        const unsent: UnsentPart[] = [];
+
+        const outcomes = await Promise.allSettled(
+            chatIds.map(async (chatId) => {
+                let chatAttempts = 0;
+                let payloads: Record<string, unknown>[] = [];
+                let sent = 0;
+                try {
+                    payloads = fitTelegramPayload(this._buildPayload(chatId, message, options), this.config.overflow);
+                    parts = Math.max(parts, payloads.length);
+                    for (const payload of payloads) {
+                        await withRetry(
+                            (attempt) => {
+                                chatAttempts = Math.max(chatAttempts, attempt);
+                                return this._post("sendMessage", payload);
+                            },
+                            this.config.retry,
+                            (error) => this._classifyError(error)
+                        );
+                        sent++;
+                        delivered = true;
+                    }
+                } catch (error) {
+                    unsent.push(...payloads.slice(sent).map((payload) => ({ message: payload, options: { chatId } })));
+                    throw error;
+                } finally {
+                    attempts = Math.max(attempts, chatAttempts);
+                }
+            })
+        );
+
+        const failed = chatIds.filter((_, index) => outcomes[index]!.status === "rejected");
+        if (failed.length > 0) {
+            const reason = (outcomes.find((o) => o.status === "rejected") as PromiseRejectedResult).reason;
+            let error: Error =
+                reason instanceof HttpError
+                    ? new Error(
+                          `Telegram API Error: ${reason.status ?? "Unknown"} - ${JSON.stringify(reason.response?.data ?? reason.message)}`
+                      )
+                    : (reason as Error);
+
+            if (failed.length < chatIds.length) {
+                const succeeded = chatIds.filter((chatId) => !failed.includes(chatId));
+                error = new Error(
+                    `${error?.message} (failed for chats ${failed.join(", ")}; delivered to ${succeeded.join(", ")})`
+                );
+            }
+            // Only a partial delivery needs a narrower retry; otherwise the original message is resent.
+            throw new MessageSendError("Telegram", error, attempts, delivered ? unsent : undefined);
+        }
+
+        return {
+            success: true,
+            platform: "telegram",
+            timestamp: new Date().toISOString(),
+            attempts,
+            parts,
+        };
+    }
+
+    /**
+     * Sends an embed rendered as formatted text in the configured parse mode.
+     * Telegram messages have no accent color, so `color` is ignored; images are linked.
+     * @param {TelegramEmbed} embedOptions - The embed configuration.
+     * @returns {Promise<object>} The send result.
+     */
+    async sendEmbed(embedOptions: TelegramEmbed): Promise<object> {
+        const parseMode = this.config.parseMode;
+        return this.send(this.renderEmbed(embedOptions, parseMode), { parseMode });
+    }
+
+    /**
+     * Renders an embed as Telegram-formatted text with all user content escaped.
+     * @param {TelegramEmbed} embed - The embed configuration.
+     * @param {TelegramParseMode} [parseMode] - Target parse mode; defaults to the configured one.
+     * @returns {string} The formatted message text.
+     */
+    renderEmbed(embed: TelegramEmbed, parseMode: TelegramParseMode = this.config.parseMode): string {
+        const html = parseMode === "HTML";
+        const esc = html ? escapeHtml : escapeMarkdown;
+        const bold = (t: string) => (html ? `<b>${t}</b>` : `*${t}*`);
+        const italic = (t: string) => (html ? `<i>${t}</i>` : `_${t}_`);
+        const link = (t: string, url: string) =>
+            html ? `<a href="${escapeHtml(url)}">${t}</a>` : `[${t}](${escapeMarkdownUrl(url)})`;
+
+        const lines: string[] = [];
+
+        if (embed.author) {
+            const name = esc(embed.author.name);
+            lines.push(italic(embed.author.url ? link(name, embed.author.url) : name));
+        }
+
+        if (embed.title) {
+            const title = bold(esc(embed.title));
+            lines.push(embed.url ? link(title, embed.url) : title);
+        }
+
+        if (embed.description) {
+            lines.push(esc(embed.description));
+        }
+
+        if (embed.fields && embed.fields.length > 0) {
+            lines.push("");
+            embed.fields.forEach((f) => lines.push(`${bold(esc(`${f.name}:`))} ${esc(f.value)}`));
+        }
+
+        if (embed.image) {
+            lines.push("", link(esc("🖼 Image"), embed.image.url));
+        }
+
+        if (embed.footer) {
+            lines.push("", italic(esc(embed.footer.text)));
+        }
+
+        return lines.join("\n");
+    }
+
+    /**
+     * Sends a success message with a ✅ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async success(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("success", title, description));
+    }
+
+    /**
+     * Sends an error message with a ❌ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async error(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("error", title, description));
+    }
+
+    /**
+     * Sends a warning message with a ⚠️ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async warn(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("warn", title, description));
+    }
+
+    /**
+     * Sends an informational message with a ℹ️ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async info(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("info", title, description));
+    }
+
+    /**
+     * Tests the bot token by calling `getMe`, without posting to any chat.
+     * @returns {Promise<boolean>} True if the token is valid, otherwise false.
+     */
+    async testConnection(): Promise<boolean> {
+        try {
+            await this._post("getMe", {});
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Calls a Bot API method once.
+     * @private
+     * @param {string} method - Bot API method name.
+     * @param {Record<string, unknown>} payload - Request body.
+     */
+    private async _post(method: string, payload: Record<string, unknown>): Promise<void> {
+        const dryRun = activeDryRun();
+        if (dryRun) return printPreview(dryRun, "telegram", method, payload);
+
+        const url = `${this.config.apiBaseUrl}/bot${this.config.botToken}/${method}`;
+        const response = await sendHttp(this.transport, {
+            method: "POST",
+            url,
+            headers: { "Content-Type": "application/json" },
+            body: payload,
+            timeout: this.config.timeout,
+        });
+
+        const data = response.data as { ok?: boolean; error_code?: number; description?: string } | undefined;
+        if (data?.ok === false) {
+            throw new Error(`Telegram API Error: ${data.error_code} - ${data.description}`);
+        }
+    }
+
+    /**
+     * Decides whether a failed request may be retried and how long Telegram asked us to wait.
+     * @private
+     * @param {unknown} error - The error thrown by the request.
+     * @returns {RetryDecision} The retry decision.
+     */
+    private _classifyError(error: unknown): RetryDecision {
+        return classifyHttpError(error, (response) => [
+            (response.data as { parameters?: { retry_after?: unknown } } | undefined)?.parameters?.retry_after,
+            response.headers["retry-after"],
+        ]);
+    }
+
+    /**
+     * Normalizes one or many chat IDs into a list, dropping empty entries.
+     * @private
+     */
+    private _chatIds(chatId: TelegramChatId | TelegramChatId[]): TelegramChatId[] {
+        return (Array.isArray(chatId) ? chatId : [chatId]).filter((id) => id !== "");
+    }
+
+    /**
+     * Builds a `sendMessage` request body for a single chat.
+     * @private
+     * @param {TelegramChatId} chatId - Target chat.
+     * @param {string | Record<string, unknown>} message - The message to send.
+     * @param {TelegramSendOptions} options - Per-message overrides.
+     * @returns {Record<string, unknown>} The request body.
+     */
+    private _buildPayload(
+        chatId: TelegramChatId,
+        message: string | Record<string, unknown>,
+        options: TelegramSendOptions
+    ): Record<string, unknown> {
+        const payload: Record<string, unknown> = {
+            chat_id: chatId,
+            disable_notification: options.disableNotification ?? this.config.disableNotification,
+        };
+
+        const threadId = options.messageThreadId ?? this.config.messageThreadId;
+        if (threadId) {
+            payload.message_thread_id = threadId;
+        }
+
+        if (this.config.disableWebPagePreview) {
+            payload.link_preview_options = { is_disabled: true };
+        }
+
+        if (options.parseMode) {
+            payload.parse_mode = options.parseMode;
+        }
+
+        if (typeof message === "string") {
+            payload.text = message;
+        } else if (typeof message === "object") {
+            Object.assign(payload, message);
+        }
+
+        return payload;
+    }
+}
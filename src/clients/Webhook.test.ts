@@ -0,0 +1,50 @@
+import { describe, expect, it } from "@jest/globals";
+import { WebhookClient } from "./Webhook";
+import { HttpRequest, HttpResponse } from "../types/http";
+
+/** A transport that records the parsed body of every request. */
+const recorder = () => {
+    const bodies: unknown[] = [];
+    const transport = {
+        request: async (request: HttpRequest): Promise<HttpResponse> => {
+            bodies.push(JSON.parse(String(request.body)));
+            return { status: 200, statusText: "OK", headers: {}, data: "ok" };
+        },
+    };
+    return { bodies, transport };
+};
+
+describe("WebhookClient", () => {
+    it("leaves a missing title or description out of the default text", async () => {
+        const { bodies, transport } = recorder();
+        const client = new WebhookClient({ url: "https://example.com/hook", transport });
+
+        await client.sendEmbed({ description: "disk full", fields: [{ name: "Host", value: "db-1" }] });
+        await client.sendEmbed({ title: "Deploy", description: "" });
+
+        expect(bodies).toEqual([{ text: "disk full\n**Host:** db-1" }, { text: "**Deploy**" }]);
+    });
+
+    it("fills template placeholders and blanks paths that do not resolve", async () => {
+        const { bodies, transport } = recorder();
+        const client = new WebhookClient({
+            url: "https://example.com/hook",
+            transport,
+            template: JSON.stringify({
+                summary: "{{embed.title}}: {{embed.description}}",
+                missing: "[{{embed.author.name}}]",
+                through: "[{{embed.title.length.x}}]",
+                fields: "{{embed.fields}}",
+            }),
+        });
+
+        await client.sendEmbed({ title: "DB", description: "", fields: [{ name: "Host", value: "db-1" }] });
+
+        expect(bodies[0]).toEqual({
+            summary: "DB: ",
+            missing: "[]",
+            through: "[]",
+            fields: [{ name: "Host", value: "db-1" }],
+        });
+    });
+});
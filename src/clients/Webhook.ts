@@ -0,0 +1,345 @@
+import { createHmac } from "crypto";
+import { ConfigurationError, HttpError, MessageSendError } from "../utils/errors";
+import { isValidURL, validateRequired } from "../utils/validators";
+import { interpolate, lookup } from "../utils/interpolate";
+import { EmbedOptions } from "../types/broadcast";
+import {
+    WebhookClientConfig,
+    WebhookSigningOptions,
+    WebhookTemplate,
+    WebhookTemplateInput,
+} from "../types/webhook";
+import { RetryPolicy } from "../types/retry";
+import {
+    classifyHttpError,
+    resolveRetryPolicy,
+    withRetry,
+} from "../utils/retry";
+import { statusEmbed } from "../utils/status";
+import { activeDryRun, printPreview } from "../dryrun";
+import { resolveTransport, sendHttp } from "../http";
+import { HttpTransport } from "../types/http";
+
+const SOLE_PLACEHOLDER = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+/** Substitutes placeholders in every string of a parsed JSON template. */
+const fill = (node: unknown, input: WebhookTemplateInput): unknown => {
+    if (typeof node === "string") {
+        const sole = node.match(SOLE_PLACEHOLDER);
+        if (sole) return lookup(input, sole[1]!) ?? null;
+
+        return interpolate(node, input);
+    }
+
+    if (Array.isArray(node)) {
+        return node.map((item) => fill(item, input));
+    }
+
+    if (node && typeof node === "object") {
+        return Object.fromEntries(Object.entries(node).map(([k, v]) => [k, fill(v, input)]));
+    }
+
+    return node;
+};
+
+/**
+ * Represents a generic outgoing-webhook client.
+ * Posts to any HTTP(S) endpoint — in-house services, Mattermost, Rocket.Chat and the like —
+ * with the body shaped by a template and optionally signed with HMAC.
+ *
+ * @example
+ * ```ts
+ * const mattermost = new WebhookClient({
+ *   url: "https://chat.example.com/hooks/xxx",
+ *   template: '{"text": "{{text}}", "username": "logifly"}',
+ * });
+ *
+ * const internal = new WebhookClient({
+ *   url: "https://ops.internal/alerts",
+ *   template: ({ embed, text }) => ({ summary: embed?.title ?? text, severity: "high" }),
+ *   signing: { secret: process.env.ALERTS_SECRET! },
+ * });
+ * ```
+ */
+export class WebhookClient {
+    /**
+     * Configuration details for the webhook client.
+     */
+    config: Required<Omit<WebhookClientConfig, "template" | "signing" | "transport" | "retry">> &
+        Pick<WebhookClientConfig, "template" | "signing"> & { retry: Required<RetryPolicy> };
+
+    /**
+     * Prints previews instead of sending while dry run is active.
+     * @type {boolean}
+     */
+    readonly supportsDryRun = true;
+
+    /**
+     * Transport of the client, or `null` to use the default one.
+     * @private
+     */
+    private transport: HttpTransport | null;
+
+    /**
+     * Parsed JSON template, when a template string was configured.
+     * @private
+     */
+    private parsedTemplate: unknown;
+
+    /**
+     * Creates a new instance of WebhookClient.
+     * @param {WebhookClientConfig} config - The configuration object for the client.
+     * @throws {ConfigurationError} If the URL, template or signing options are invalid.
+     */
+    constructor(config: WebhookClientConfig) {
+        this.config = {
+            url: config.url ?? "",
+            method: config.method ?? "POST",
+            headers: config.headers ?? {},
+            timeout: config.timeout ?? 5000,
+            retry: resolveRetryPolicy(config.retry),
+        };
+        if (config.template) this.config.template = config.template;
+        if (config.signing) this.config.signing = config.signing;
+        this.transport = config.transport ? resolveTransport(config.transport) : null;
+
+        this._validateConfig();
+    }
+
+    /**
+     * Validates the provided client configuration.
+     * @private
+     * @throws {ConfigurationError} If the configuration is invalid.
+     */
+    private _validateConfig(): void {
+        validateRequired(this.config, ["url"], "Webhook");
+
+        if (!isValidURL(this.config.url) || !/^https?:$/.test(new URL(this.config.url).protocol)) {
+            throw new ConfigurationError("Invalid webhook URL. Expected an http(s) URL");
+        }
+
+        if (typeof this.config.template === "string") {
+            try {
+                this.parsedTemplate = JSON.parse(this.config.template);
+            } catch (err: any) {
+                throw new ConfigurationError(`Webhook template must be valid JSON: ${err.message}`);
+            }
+        }
+
+        if (this.config.signing && !this.config.signing.secret) {
+            throw new ConfigurationError("Webhook signing requires a non-empty 'secret'");
+        }
+    }
+
+    /**
+     * Sends a message to the endpoint, shaped by the configured template.
+     * Without a template, strings are sent as `{ "text": ... }` and objects as-is.
+     * Rate-limited (429) and server (5xx) failures are retried according to the configured retry policy.
+     * @param {string | Record<string, unknown>} message - The message text or payload.
+     * @returns {Promise<{ success: boolean; platform: string; timestamp: string; attempts: number }>} A result object with status details.
+     * @throws {MessageSendError} If the request fails.
+     */
+    async send(
+        message: string | Record<string, unknown>
+    ): Promise<{ success: boolean; platform: string; timestamp: string; attempts: number }> {
+        return this._dispatch({
+            kind: "message",
+            text: typeof message === "string" ? message : JSON.stringify(message),
+            message,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * Sends an embed, shaped by the configured template.
+     * Without a template, the embed is sent as `{ "text": "**title**\ndescription" }`; a missing
+     * title or description is left out.
+     * @param {EmbedOptions} embedOptions - The embed configuration.
+     * @returns {Promise<object>} The send result.
+     */
+    async sendEmbed(embedOptions: EmbedOptions): Promise<object> {
+        const fields: Array<{ name: string; value: string }> = embedOptions.fields ?? [];
+        const text = [
+            embedOptions.title ? `**${embedOptions.title}**` : "",
+            embedOptions.description ?? "",
+            ...fields.map((f) => `**${f.name}:** ${f.value}`),
+        ]
+            .filter(Boolean)
+            .join("\n");
+
+        return this._dispatch({
+            kind: "embed",
+            text,
+            embed: embedOptions,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * Sends a success embed with a ✅ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async success(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("success", title, description));
+    }
+
+    /**
+     * Sends an error embed with a ❌ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async error(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("error", title, description));
+    }
+
+    /**
+     * Sends a warning embed with a ⚠️ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async warn(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("warn", title, description));
+    }
+
+    /**
+     * Sends an informational embed with a ℹ️ emoji.
+     * @param {string} title - The title of the message.
+     * @param {string} description - The detailed description.
+     * @returns {Promise<object>} The send result.
+     */
+    async info(title: string, description: string): Promise<object> {
+        return this.sendEmbed(statusEmbed("info", title, description));
+    }
+
+    /**
+     * Tests the endpoint by sending a sample message.
+     * @returns {Promise<boolean>} True if the test succeeded, otherwise false.
+     */
+    async testConnection(): Promise<boolean> {
+        try {
+            await this.send("logifly connection test successful! 🚀");
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Renders the request body for the given template input.
+     * @param {WebhookTemplateInput} input - Values available to the template.
+     * @returns {unknown} The JSON-serializable body.
+     */
+    render(input: WebhookTemplateInput): unknown {
+        const template: WebhookTemplate | undefined = this.config.template;
+
+        if (typeof template === "function") {
+            return template(input);
+        }
+
+        if (typeof template === "string") {
+            return fill(this.parsedTemplate, input);
+        }
+
+        if (input.kind === "message" && typeof input.message === "object") {
+            return input.message;
+        }
+
+        return { text: input.text };
+    }
+
+    /**
+     * Renders, signs and delivers a request, retrying transient failures.
+     * @private
+     */
+    private async _dispatch(
+        input: WebhookTemplateInput
+    ): Promise<{ success: boolean; platform: string; timestamp: string; attempts: number }> {
+        let attempts = 0;
+
+        try {
+            const body = JSON.stringify(this.render(input));
+
+            await withRetry(
+                (attempt) => {
+                    attempts = attempt;
+                    return this._request(body);
+                },
+                this.config.retry,
+                classifyHttpError
+            );
+
+            return {
+                success: true,
+                platform: "webhook",
+                timestamp: new Date().toISOString(),
+                attempts,
+            };
+        } catch (error) {
+            if (error instanceof HttpError) {
+                const status = error.status ?? "Unknown";
+                const data = error.response?.data ?? error.message;
+                throw new MessageSendError(
+                    "Webhook",
+                    new Error(`Webhook Error: ${status} - ${JSON.stringify(data)}`),
+                    attempts
+                );
+            }
+            throw new MessageSendError("Webhook", error as Error, attempts);
+        }
+    }
+
+    /**
+     * Performs a single HTTP request. Signatures are computed per attempt so the
+     * timestamp stays fresh across retries.
+     * @private
+     * @param {string} body - Serialized request body.
+     */
+    private async _request(body: string): Promise<void> {
+        const dryRun = activeDryRun();
+        if (dryRun) return printPreview(dryRun, "webhook", `${this.config.method} request`, body);
+
+        const headers: Record<string, string> = {
+            "Content-Type": "application/json",
+            ...this.config.headers,
+            ...(this.config.signing ? this._sign(body, this.config.signing) : {}),
+        };
+
+        await sendHttp(this.transport, {
+            method: this.config.method,
+            url: this.config.url,
+            headers,
+            body,
+            timeout: this.config.timeout,
+        });
+    }
+
+    /**
+     * Computes the HMAC signature headers for a request body.
+     * @private
+     * @param {string} body - Serialized request body.
+     * @param {WebhookSigningOptions} signing - Signing options.
+     * @returns {Record<string, string>} Headers to add to the request.
+     */
+    private _sign(body: string, signing: WebhookSigningOptions): Record<string, string> {
+        const algorithm = signing.algorithm ?? "sha256";
+        const header = signing.header ?? "X-Logifly-Signature";
+        const timestampHeader = signing.timestampHeader ?? "X-Logifly-Timestamp";
+        const headers: Record<string, string> = {};
+
+        let signed = body;
+        if (timestampHeader) {
+            const timestamp = Math.floor(Date.now() / 1000).toString();
+            headers[timestampHeader] = timestamp;
+            signed = `${timestamp}.${body}`;
+        }
+
+        const digest = createHmac(algorithm, signing.secret).update(signed).digest("hex");
+        headers[header] = `${algorithm}=${digest}`;
+        return headers;
+    }
+
+}
@@ -0,0 +1,448 @@
+import * as fs from "fs";
+import * as path from "path";
+import { AVAILABLE_PLATFORMS, createClient, getPlatform } from "./registry";
+import { Router } from "./routing";
+import { TemplateRegistry } from "./templates";
+import { ConfigurationError } from "./utils/errors";
+import { SEVERITY_LEVELS } from "./utils/constants";
+import { ClientOptions, GroupOptions, PlatformClient, Severity } from "./types/broadcast";
+import { ClientDefinition, GroupDefinition, LogiflyConfig } from "./types/config";
+import { HttpTransport, HttpTransportOptions } from "./types/http";
+import { DefaultHttpTransport } from "./http";
+import { ConfigField } from "./types/platform";
+import { RoutingRule } from "./types/routing";
+import { TemplateDefinition } from "./types/template";
+
+type Env = Record<string, string | undefined>;
+
+/** Parses a value at `at`, recording problems instead of throwing. Returns `undefined` when invalid. */
+type Field = (value: unknown, at: string, problems: string[]) => unknown;
+
+/** A group member, resolved to the client it refers to. */
+interface ParsedMember {
+    client: string;
+    alias: string;
+    options: ClientOptions;
+}
+
+/** A validated configuration with its clients already constructed. */
+export interface ParsedConfig {
+    clients: Record<string, PlatformClient>;
+    groups: Array<{ name: string; members: ParsedMember[]; options: GroupOptions }>;
+    routes: RoutingRule[];
+    templates: Record<string, TemplateDefinition>;
+    /** Default transport, when the configuration sets one. */
+    transport?: HttpTransport;
+}
+
+/** Matches `${NAME}` and `${NAME:-default}`. */
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Describes the type of a value for error messages. Values are never echoed, as they may be secrets. */
+const describe = (value: unknown): string => {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "an array";
+    const type = typeof value;
+    return type === "object" ? "an object" : `a ${type}`;
+};
+
+const child = (at: string, key: string | number) =>
+    typeof key === "number" ? `${at}[${key}]` : at ? `${at}.${key}` : key;
+
+const expected = (problems: string[], at: string, what: string, value: unknown) => {
+    problems.push(`${at}: expected ${what}, got ${describe(value)}`);
+    return undefined;
+};
+
+const string: Field = (value, at, problems) =>
+    typeof value === "string" ? value : expected(problems, at, "a string", value);
+
+/** Numbers may be given as strings (including `0x` colors), since environment variables are strings. */
+const number: Field = (value, at, problems) => {
+    if (typeof value === "number" && !isNaN(value)) return value;
+    if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) return Number(value);
+    return expected(problems, at, "a number", value);
+};
+
+const boolean: Field = (value, at, problems) => {
+    if (typeof value === "boolean") return value;
+    if (value === "true" || value === "false") return value === "true";
+    return expected(problems, at, "a boolean", value);
+};
+
+/** A string or a number, passed through unchanged (e.g. Telegram chat ids). */
+const scalar: Field = (value, at, problems) =>
+    typeof value === "string" || typeof value === "number" ? value : expected(problems, at, "a string or a number", value);
+
+/** A free-form object, passed through unchanged. */
+const record: Field = (value, at, problems) => (isObject(value) ? value : expected(problems, at, "an object", value));
+
+const oneOf =
+    (...allowed: readonly string[]): Field =>
+    (value, at, problems) =>
+        typeof value === "string" && allowed.includes(value)
+            ? value
+            : expected(problems, at, `one of ${allowed.join(", ")}`, value);
+
+const list =
+    (item: Field): Field =>
+    (value, at, problems) =>
+        Array.isArray(value) ? value.map((v, i) => item(v, child(at, i), problems)) : expected(problems, at, "an array", value);
+
+/** A single item or an array of them, e.g. email recipients. */
+const oneOrMany =
+    (item: Field): Field =>
+    (value, at, problems) =>
+        Array.isArray(value) ? list(item)(value, at, problems) : item(value, at, problems);
+
+/**
+ * An object with known options. Unknown options and missing required options are reported;
+ * options that are absent stay absent.
+ */
+const shape =
+    (fields: Record<string, Field>, required: string[] = []): Field =>
+    (value, at, problems) => {
+        if (!isObject(value)) return expected(problems, at, "an object", value);
+
+        const parsed: Record<string, unknown> = {};
+        required
+            .filter((key) => value[key] === undefined)
+            .forEach((key) => problems.push(`${child(at, key)}: required`));
+        Object.entries(value).forEach(([key, v]) => {
+            const field = fields[key];
+            if (!field) {
+                problems.push(`${child(at, key)}: unknown option`);
+            } else if (v !== undefined) {
+                parsed[key] = field(v, child(at, key), problems);
+            }
+        });
+        return parsed;
+    };
+
+/** `true`/`false`, or an options object. */
+const flagOr =
+    (options: Field): Field =>
+    (value, at, problems) =>
+        typeof value === "boolean" || value === "true" || value === "false"
+            ? boolean(value, at, problems)
+            : options(value, at, problems);
+
+/** A regular expression source, compiled with the `g` flag. */
+const pattern: Field = (value, at, problems) => {
+    if (typeof value !== "string") return expected(problems, at, "a regular expression string", value);
+    try {
+        return new RegExp(value, "g");
+    } catch {
+        problems.push(`${at}: invalid regular expression`);
+        return undefined;
+    }
+};
+
+const severity = oneOf(...SEVERITY_LEVELS);
+
+/** Custom redaction rules are regular expression strings, since functions cannot be written in JSON. */
+const redact = flagOr(
+    shape({
+        detectors: list(oneOf("tokens", "emails", "creditCards", "jwts")),
+        rules: list(pattern),
+        replacement: string,
+    })
+);
+
+const retry = shape({ maxAttempts: number, baseDelay: number, maxDelay: number, jitter: boolean });
+const overflow = oneOf("split", "truncate", "error");
+
+/** Options of a `DefaultHttpTransport`; agents and hooks need code, so they are left out. */
+const transport = shape({
+    proxy: (value, at, problems) => (value === false || value === "false" ? false : string(value, at, problems)),
+    noProxy: oneOrMany(string),
+    keepAlive: boolean,
+    maxSockets: number,
+    ca: oneOrMany(string),
+    caFile: string,
+    timeout: number,
+});
+
+const NAMED_FIELDS: Record<Extract<ConfigField, string>, Field> = {
+    string,
+    number,
+    boolean,
+    scalar,
+    object: record,
+    retry,
+    redact,
+    overflow,
+    severity,
+    transport,
+};
+
+/** Turns a platform's declarative schema into a field. */
+const compile = (field: ConfigField): Field => {
+    if (typeof field === "string") return NAMED_FIELDS[field];
+    if ("fields" in field) {
+        const fields = Object.fromEntries(Object.entries(field.fields).map(([key, f]) => [key, compile(f)]));
+        return shape(fields, field.required);
+    }
+    if ("oneOf" in field) return oneOf(...field.oneOf);
+    if ("list" in field) return list(compile(field.list));
+    return oneOrMany(compile(field.oneOrMany));
+};
+
+const member: Field = (value, at, problems) =>
+    typeof value === "string"
+        ? value
+        : shape({ client: string, alias: string, minLevel: severity, redact }, ["client"])(value, at, problems);
+
+const group = shape(
+    {
+        clients: list(member),
+        dedup: flagOr(shape({ window: number })),
+        digest: flagOr(shape({ interval: number, maxSize: number, maxSeverity: severity })),
+        outbox: shape({ path: string, maxAttempts: number, retryInterval: number, compactAfter: number }, ["path"]),
+        redact,
+        dryRun: flagOr(shape({ color: boolean })),
+    },
+    ["clients"]
+);
+
+/**
+ * Replaces `${NAME}` and `${NAME:-default}` in every string. Unset (or empty) variables without
+ * a default are reported with the path of the string that references them.
+ */
+const interpolateEnv = (value: unknown, at: string, env: Env, problems: string[]): unknown => {
+    if (typeof value === "string") {
+        return value.replace(ENV_REFERENCE, (reference, name: string, fallback: string | undefined) => {
+            const resolved = env[name];
+            if (resolved !== undefined && resolved !== "") return resolved;
+            if (fallback !== undefined) return fallback;
+            problems.push(`${at}: environment variable ${name} is not set`);
+            return reference;
+        });
+    }
+    if (Array.isArray(value)) return value.map((v, i) => interpolateEnv(v, child(at, i), env, problems));
+    if (isObject(value)) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, v]) => [key, interpolateEnv(v, child(at, key), env, problems)])
+        );
+    }
+    return value;
+};
+
+/**
+ * Reads a JSON or YAML configuration file. YAML needs the optional `yaml` package.
+ * @throws {ConfigurationError} If the file cannot be read or parsed.
+ */
+const readConfigFile = async (file: string): Promise<unknown> => {
+    let text: string;
+    try {
+        text = await fs.promises.readFile(file, "utf8");
+    } catch (err: any) {
+        throw new ConfigurationError(`Cannot read configuration file ${file}: ${err.message}`);
+    }
+
+    const extension = path.extname(file).toLowerCase();
+    if (extension === ".yml" || extension === ".yaml") {
+        // Not a dependency: only needed by those who write YAML.
+        const moduleName = "yaml";
+        const yaml = await import(moduleName).catch(() => {
+            throw new ConfigurationError(`Reading ${file} requires the yaml package: npm install yaml`);
+        });
+        try {
+            return yaml.parse(text);
+        } catch (err: any) {
+            throw new ConfigurationError(`Invalid YAML in ${file}: ${err.message}`);
+        }
+    }
+
+    try {
+        return JSON.parse(text);
+    } catch (err: any) {
+        throw new ConfigurationError(`Invalid JSON in ${file}: ${err.message}`);
+    }
+};
+
+/** Splits a comma-separated variable into a list. */
+const splitList = (value: string) =>
+    value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+
+/**
+ * Builds a configuration from `LOGIFLY_*` variables: one client per platform whose variables
+ * are set, all in one group. Returns `null` when no client variables are set.
+ */
+export const configFromEnv = (env: Env): LogiflyConfig | null => {
+    const clients: Record<string, ClientDefinition> = {};
+
+    if (env.LOGIFLY_DISCORD_WEBHOOK_URL) {
+        clients.discord = { type: "discord", webhookUrl: env.LOGIFLY_DISCORD_WEBHOOK_URL };
+    }
+    if (env.LOGIFLY_SLACK_WEBHOOK_URL) {
+        clients.slack = { type: "slack", webhookUrl: env.LOGIFLY_SLACK_WEBHOOK_URL };
+    }
+    if (env.LOGIFLY_TEAMS_WEBHOOK_URL) {
+        clients.teams = { type: "teams", webhookUrl: env.LOGIFLY_TEAMS_WEBHOOK_URL };
+    }
+    if (env.LOGIFLY_TELEGRAM_BOT_TOKEN) {
+        clients.telegram = {
+            type: "telegram",
+            botToken: env.LOGIFLY_TELEGRAM_BOT_TOKEN,
+            chatId: splitList(env.LOGIFLY_TELEGRAM_CHAT_ID ?? ""),
+        };
+    }
+    if (env.LOGIFLY_SMTP_HOST) {
+        const email: ClientDefinition = {
+            type: "email",
+            host: env.LOGIFLY_SMTP_HOST,
+            from: env.LOGIFLY_EMAIL_FROM,
+            to: splitList(env.LOGIFLY_EMAIL_TO ?? ""),
+        };
+        if (env.LOGIFLY_SMTP_PORT) email.port = env.LOGIFLY_SMTP_PORT;
+        if (env.LOGIFLY_SMTP_USER) email.auth = { user: env.LOGIFLY_SMTP_USER, pass: env.LOGIFLY_SMTP_PASS };
+        clients.email = email;
+    }
+    if (env.LOGIFLY_WEBHOOK_URL) {
+        clients.webhook = { type: "webhook", url: env.LOGIFLY_WEBHOOK_URL };
+    }
+
+    const names = Object.keys(clients);
+    if (names.length === 0) return null;
+
+    // An invalid level is reported by validation, like any other option.
+    const minLevel = env.LOGIFLY_MIN_LEVEL as Severity | undefined;
+    const definition: GroupDefinition = {
+        clients: names.map((client) => (minLevel ? { client, minLevel } : client)),
+    };
+    if (env.LOGIFLY_REDACT) definition.redact = env.LOGIFLY_REDACT === "true";
+
+    return { clients, groups: { [env.LOGIFLY_GROUP || "default"]: definition } };
+};
+
+/**
+ * Resolves where the configuration comes from: the given object or file, else the file named by
+ * `LOGIFLY_CONFIG`, else the `LOGIFLY_*` variables.
+ * @throws {ConfigurationError} If no configuration is found or a file cannot be read.
+ */
+export const readConfig = async (source: LogiflyConfig | string | undefined, env: Env): Promise<unknown> => {
+    if (typeof source === "string") return readConfigFile(source);
+    if (source !== undefined) return source;
+    if (env.LOGIFLY_CONFIG) return readConfigFile(env.LOGIFLY_CONFIG);
+
+    const fromEnv = configFromEnv(env);
+    if (!fromEnv) {
+        throw new ConfigurationError(
+            "No configuration given: pass an object or a file path, or set LOGIFLY_CONFIG or LOGIFLY_* variables"
+        );
+    }
+    return fromEnv;
+};
+
+/**
+ * Validates a configuration and constructs its clients. Every problem is collected, with the path
+ * of the offending option, before anything is reported.
+ * @throws {ConfigurationError} Listing every problem, also available as `problems`.
+ */
+export const parseConfig = (raw: unknown, env: Env): ParsedConfig => {
+    const problems: string[] = [];
+    const config = interpolateEnv(raw, "", env, problems);
+    if (!isObject(config)) {
+        throw new ConfigurationError(`Configuration must be an object, got ${describe(config)}`);
+    }
+
+    const parsed: ParsedConfig = { clients: {}, groups: [], routes: [], templates: {} };
+    const known = ["clients", "groups", "routes", "templates", "transport"];
+    Object.keys(config)
+        .filter((key) => !known.includes(key))
+        .forEach((key) => problems.push(`${key}: unknown option`));
+
+    const clients = record(config.clients, "clients", problems) as Record<string, unknown> | undefined;
+    Object.entries(clients ?? {}).forEach(([name, definition]) => {
+        const at = child("clients", name);
+        if (!isObject(definition)) return expected(problems, at, "an object", definition);
+
+        const { type, ...options } = definition;
+        const platform = typeof type === "string" ? getPlatform(type) : undefined;
+        if (!platform) return oneOf(...AVAILABLE_PLATFORMS)(type, child(at, "type"), problems);
+
+        // Without a schema, the factory is left to validate the options.
+        const found: string[] = [];
+        const clientConfig = platform.configSchema ? compile(platform.configSchema)(options, at, found) : options;
+        problems.push(...found);
+        // Also skip clients with unresolved variables, whose constructor errors would only repeat them.
+        if (problems.some((p) => p.startsWith(`${at}.`) || p.startsWith(`${at}:`))) return;
+
+        try {
+            parsed.clients[name] = createClient(platform.name, clientConfig as Record<string, unknown>);
+        } catch (err: any) {
+            problems.push(`${at}: ${err.message}`);
+        }
+    });
+
+    const groups = config.groups === undefined ? {} : record(config.groups, "groups", problems);
+    Object.entries(groups ?? {}).forEach(([name, definition]) => {
+        const at = child("groups", name);
+        const found: string[] = [];
+        const { clients: members = [], ...options } = (group(definition, at, found) ?? {}) as Record<string, any>;
+        problems.push(...found);
+
+        const aliases = new Set<string>();
+        const resolved: ParsedMember[] = [];
+        (members as Array<string | Record<string, any> | undefined>).forEach((m, i) => {
+            const { client, alias = client, ...clientOptions } = typeof m === "string" ? { client: m } : m ?? {};
+            if (typeof client !== "string") return;
+            const memberAt = child(child(at, "clients"), i);
+            if (!(client in (clients ?? {}))) problems.push(`${memberAt}: unknown client ${client}`);
+            if (aliases.has(alias)) problems.push(`${memberAt}: duplicate alias ${alias}`);
+            aliases.add(alias);
+            resolved.push({ client, alias, options: clientOptions });
+        });
+        if (found.length === 0) parsed.groups.push({ name, members: resolved, options });
+    });
+
+    // Routes and templates are checked by the same code that registers them.
+    const routes = config.routes === undefined ? [] : list(record)(config.routes, "routes", problems);
+    const router = new Router();
+    ((routes ?? []) as unknown[]).forEach((rule, i) => {
+        if (!isObject(rule)) return;
+        try {
+            router.addRule(rule as RoutingRule);
+            parsed.routes.push(rule as RoutingRule);
+        } catch (err: any) {
+            problems.push(`${child("routes", i)}: ${err.message}`);
+        }
+    });
+
+    const templates = config.templates === undefined ? {} : record(config.templates, "templates", problems);
+    const registry = new TemplateRegistry();
+    Object.entries(templates ?? {}).forEach(([name, definition]) => {
+        try {
+            registry.define(name, definition as TemplateDefinition);
+            parsed.templates[name] = definition as TemplateDefinition;
+        } catch (err: any) {
+            problems.push(`${child("templates", name)}: ${err.message}`);
+        }
+    });
+
+    if (config.transport !== undefined) {
+        const found: string[] = [];
+        const options = transport(config.transport, "transport", found);
+        problems.push(...found);
+        try {
+            if (found.length === 0) parsed.transport = new DefaultHttpTransport(options as HttpTransportOptions);
+        } catch (err: any) {
+            problems.push(`transport: ${err.message}`);
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new ConfigurationError(
+            `Invalid logifly configuration:\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+            problems
+        );
+    }
+    return parsed;
+};
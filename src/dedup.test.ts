@@ -0,0 +1,71 @@
+import { describe, expect, it } from "@jest/globals";
+import { BroadcastGroup } from "./broadcast";
+import { MemoryClient } from "./clients/Memory";
+import { TemplateRegistry } from "./templates";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A second platform, named "pager" after its class. */
+class PagerClient extends MemoryClient {}
+
+describe("duplicate suppression", () => {
+    it("delivers the first message, counts repeats and summarizes them when the window closes", async () => {
+        const client = new MemoryClient();
+        const group = new BroadcastGroup("alerts", [client], { dedup: { window: 40 } });
+
+        await group.broadcastEmbed({ title: "DB down", description: "db-1" });
+        const repeat = await group.broadcastEmbed({ title: "DB down", description: "db-1" });
+        await group.broadcastEmbed({ title: "DB down", description: "db-1" });
+        await group.broadcastEmbed({ title: "DB down", description: "db-2" });
+
+        expect(repeat.suppressed).toMatchObject({ count: 1 });
+        expect(repeat.results).toEqual({});
+        expect(client.sent).toHaveLength(2);
+
+        await sleep(80);
+
+        expect(client.sent).toHaveLength(3);
+        expect(client.sent[2]!.embed).toMatchObject({
+            title: "🔁 DB down",
+            fields: [{ name: "Repeated", value: "2 more times", inline: true }],
+        });
+    });
+
+    it("sends nothing more when a window closes without repeats", async () => {
+        const client = new MemoryClient();
+        const group = new BroadcastGroup("alerts", [client], { dedup: { window: 20 } });
+
+        await group.broadcast("once");
+        await sleep(50);
+
+        expect(client.sent).toHaveLength(1);
+    });
+
+    it("uses a custom fingerprint", async () => {
+        const client = new MemoryClient();
+        const group = new BroadcastGroup("alerts", [client], {
+            dedup: { fingerprint: (message) => (typeof message === "string" ? message.split(":")[0]! : "embed") },
+        });
+
+        await group.broadcast("timeout: 1203ms");
+        await group.broadcast("timeout: 1710ms");
+        await group.flush();
+
+        expect(client.sent.map((c) => c.message)).toEqual(["timeout: 1203ms", "🔁 timeout: 1203ms (repeated 1 more time)"]);
+    });
+
+    it("keeps the platform overrides of a template in the summary", async () => {
+        const templates = new TemplateRegistry();
+        templates.define("deploy", { title: "{{service}} deployed", platforms: { pager: { text: "{{service}} is live" } } });
+        const ops = new MemoryClient();
+        const pager = new PagerClient();
+        const group = new BroadcastGroup("deploys", [ops, pager], { templates, dedup: { window: 60000 } });
+
+        await group.broadcastTemplate("deploy", { service: "api" });
+        await group.broadcastTemplate("deploy", { service: "api" });
+        await group.flush();
+
+        expect(pager.sent.map((c) => c.message)).toEqual([{ text: "api is live" }, { text: "api is live" }]);
+        expect(ops.sent[1]!.embed?.title).toBe("🔁 api deployed");
+    });
+});
@@ -0,0 +1,99 @@
+import { BroadcastMessage, DedupOptions, EmbedOptions } from "./types/broadcast";
+
+/**
+ * @internal
+ * A suppression window for one fingerprint.
+ */
+interface DedupWindow {
+    /** Number of duplicates suppressed so far. */
+    count: number;
+    /** Sends the "repeated N times" summary for this window. */
+    summarize: (count: number) => Promise<unknown>;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Default fingerprint: title + description for embeds, the text for plain messages,
+ * and the JSON form for raw payloads.
+ */
+export const defaultFingerprint = (message: BroadcastMessage | EmbedOptions): string => {
+    if (typeof message === "string") return message;
+
+    const embed = message as Partial<EmbedOptions>;
+    if (typeof embed.title === "string" || typeof embed.description === "string") {
+        return `${embed.title ?? ""}\u0000${embed.description ?? ""}`;
+    }
+
+    return JSON.stringify(message);
+};
+
+/**
+ * `Deduplicator` tracks suppression windows per fingerprint.
+ *
+ * The first message with a given fingerprint opens a window and is delivered;
+ * repeats during the window are only counted. When the window closes, its
+ * `summarize` callback runs once if anything was suppressed.
+ */
+export class Deduplicator {
+    /** Window length in milliseconds */
+    readonly windowMs: number;
+
+    private fingerprint: (message: BroadcastMessage | EmbedOptions) => string;
+    private windows: Map<string, DedupWindow> = new Map();
+
+    /**
+     * @param options - Window length and fingerprint function.
+     */
+    constructor(options: DedupOptions = {}) {
+        this.windowMs = options.window ?? 60000;
+        this.fingerprint = options.fingerprint ?? defaultFingerprint;
+    }
+
+    /**
+     * Registers a message.
+     * @param message - The message or embed being broadcast.
+     * @param summarize - Sends the summary if the window it opens ends up suppressing duplicates.
+     * @returns `null` if the message should be delivered, otherwise its fingerprint and the
+     * number of duplicates suppressed so far in the current window.
+     */
+    admit(
+        message: BroadcastMessage | EmbedOptions,
+        summarize: (count: number) => Promise<unknown>
+    ): { fingerprint: string; count: number } | null {
+        const fingerprint = this.fingerprint(message);
+        const existing = this.windows.get(fingerprint);
+
+        if (existing) {
+            existing.count++;
+            return { fingerprint, count: existing.count };
+        }
+
+        const timer = setTimeout(() => {
+            const window = this.windows.get(fingerprint);
+            this.windows.delete(fingerprint);
+            if (window && window.count > 0) {
+                window.summarize(window.count).catch(() => undefined);
+            }
+        }, this.windowMs);
+        // Open windows should never keep the process alive; `drain()` covers shutdown.
+        timer.unref?.();
+
+        this.windows.set(fingerprint, { count: 0, summarize, timer });
+        return null;
+    }
+
+    /**
+     * Closes every open window immediately and sends the pending summaries.
+     */
+    async drain(): Promise<void> {
+        const pending = Array.from(this.windows.values());
+        this.windows.clear();
+
+        await Promise.allSettled(
+            pending.map((window) => {
+                clearTimeout(window.timer);
+                return window.count > 0 ? window.summarize(window.count) : undefined;
+            })
+        );
+    }
+}
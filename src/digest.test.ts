@@ -0,0 +1,79 @@
+import { describe, expect, it } from "@jest/globals";
+import { BroadcastGroup } from "./broadcast";
+import { MemoryClient } from "./clients/Memory";
+import { DigestEntry, renderDigest } from "./digest";
+
+const entry = (title: string, extra: Partial<DigestEntry> = {}): DigestEntry => ({
+    title,
+    description: "",
+    severity: "info",
+    timestamp: new Date("2026-01-01T12:00:00Z"),
+    ...extra,
+});
+
+describe("renderDigest", () => {
+    it("lists fields and tags after the description", () => {
+        const [part] = renderDigest(
+            [
+                entry("Job finished", {
+                    description: "nightly-report",
+                    fields: [{ name: "Rows", value: "1200" }],
+                    tags: { env: "prod" },
+                }),
+                entry("Cache warmed"),
+            ],
+            "telegram",
+            "logs"
+        );
+
+        expect(part).toEqual({
+            embed: expect.objectContaining({
+                title: "📋 Digest: 2 messages",
+                description: "[12:00:00] Job finished — nightly-report · Rows: 1200 · env=prod\n[12:00:00] Cache warmed",
+            }),
+        });
+    });
+
+    it("packs Discord embeds within the per-message limits", () => {
+        const entries = Array.from({ length: 40 }, (_, i) => entry(`Event ${i}`, { description: "x".repeat(400) }));
+
+        const parts = renderDigest(entries, "discord", "logs") as Array<{ message: { embeds: Array<{ title: string; description: string }> } }>;
+
+        parts.forEach(({ message }) => {
+            const size = message.embeds.reduce((sum, e) => sum + e.title.length + e.description.length, 0);
+            expect(message.embeds.length).toBeLessThanOrEqual(10);
+            expect(size).toBeLessThanOrEqual(6000);
+        });
+        expect(parts.flatMap(({ message }) => message.embeds).map((e) => e.description).join("\n").match(/Event \d+/g)).toHaveLength(40);
+    });
+});
+
+describe("group digest", () => {
+    it("buffers low-severity messages and sends them in one digest", async () => {
+        const client = new MemoryClient();
+        const group = new BroadcastGroup("logs", [client], { digest: { interval: 60000 } });
+
+        const queued = await group.broadcastInfo("Job finished", "nightly-report", { fields: [{ name: "Rows", value: "1200" }] });
+        await group.broadcastError("Job failed", "billing-sync");
+        expect(queued.digest).toEqual({ pending: 1 });
+        expect(client.sent).toHaveLength(1);
+
+        await group.close();
+
+        expect(client.sent).toHaveLength(2);
+        expect(client.sent[1]!.embed?.description).toContain("Job finished — nightly-report · Rows: 1200");
+    });
+
+    it("flushes early once maxSize messages are pending", async () => {
+        const client = new MemoryClient();
+        const group = new BroadcastGroup("logs", [client], { digest: { interval: 60000, maxSize: 2 } });
+
+        await group.broadcast("one");
+        await group.broadcast("two");
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(client.sent).toHaveLength(1);
+        expect(client.sent[0]!.embed?.title).toBe("📋 Digest: 2 messages");
+        await group.close();
+    });
+});
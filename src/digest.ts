@@ -0,0 +1,211 @@
+import { PLATFORM_LIMITS, SEVERITY_COLORS } from "./utils/constants";
+import { meetsSeverity } from "./utils/severity";
+import { DigestOptions, EmbedOptions, Severity } from "./types/broadcast";
+import { SlackAttachment } from "./types/slack";
+
+/**
+ * @internal
+ * A message waiting in a digest.
+ */
+export interface DigestEntry {
+    title: string;
+    description: string;
+    severity: Severity;
+    color?: number | undefined;
+    /** Embed fields, shown after the description as `name: value` pairs. */
+    fields?: Array<{ name: string; value: string }> | undefined;
+    /** Tags, shown after the fields as `key=value`. */
+    tags?: Record<string, string> | undefined;
+    timestamp: Date;
+}
+
+/**
+ * @internal
+ * One platform request produced when a digest is rendered:
+ * either a raw payload for `send()` or an embed for `sendEmbed()`.
+ */
+export type DigestPart = { message: string | object } | { embed: EmbedOptions };
+
+/**
+ * `DigestBuffer` collects low-severity messages until they are flushed,
+ * either on a fixed interval or once `maxSize` messages are pending.
+ */
+export class DigestBuffer {
+    /** Most severe level that is buffered */
+    readonly maxSeverity: Severity;
+
+    /** Pending count that triggers an early flush */
+    readonly maxSize: number;
+
+    private entries: DigestEntry[] = [];
+    private timer: ReturnType<typeof setInterval>;
+
+    /**
+     * @param options - Interval, size threshold and severity ceiling.
+     * @param onInterval - Called on every interval tick.
+     */
+    constructor(options: DigestOptions, onInterval: () => void) {
+        this.maxSeverity = options.maxSeverity ?? "info";
+        this.maxSize = Math.max(1, options.maxSize ?? 50);
+        this.timer = setInterval(onInterval, options.interval ?? 5 * 60 * 1000);
+        // The interval should never keep the process alive; `flush()` covers shutdown.
+        this.timer.unref?.();
+    }
+
+    /** Returns `true` if messages of this severity are buffered rather than sent. */
+    accepts(severity: Severity): boolean {
+        return meetsSeverity(this.maxSeverity, severity);
+    }
+
+    /**
+     * Buffers an entry.
+     * @returns The number of pending entries.
+     */
+    push(entry: DigestEntry): number {
+        this.entries.push(entry);
+        return this.entries.length;
+    }
+
+    /** Removes and returns all pending entries. */
+    take(): DigestEntry[] {
+        const entries = this.entries;
+        this.entries = [];
+        return entries;
+    }
+
+    /** Stops the flush interval. */
+    stop(): void {
+        clearInterval(this.timer);
+    }
+}
+
+/** Shortens text to `max` characters, marking the cut. */
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+/**
+ * Packs lines into chunks of at most `max` characters (joined by newlines),
+ * truncating any single line that is too long on its own.
+ */
+const chunkLines = (lines: string[], max: number): string[] => {
+    const chunks: string[] = [];
+    let current = "";
+
+    lines.forEach((raw) => {
+        const line = truncate(raw, max);
+        if (current && current.length + 1 + line.length > max) {
+            chunks.push(current);
+            current = "";
+        }
+        current = current ? `${current}\n${line}` : line;
+    });
+
+    if (current) chunks.push(current);
+    return chunks;
+};
+
+const mostSevere = (entries: DigestEntry[]): Severity =>
+    entries.reduce<Severity>((top, e) => (meetsSeverity(e.severity, top) ? e.severity : top), "debug");
+
+const formatTime = (date: Date) => date.toISOString().slice(11, 19);
+
+/** The description, fields and tags of an entry, as the text following its title. */
+const details = (entry: DigestEntry): string => {
+    const parts = [
+        entry.description,
+        ...(entry.fields ?? []).map((f) => `${f.name}: ${f.value}`),
+        ...Object.entries(entry.tags ?? {}).map(([key, value]) => `${key}=${value}`),
+    ].filter(Boolean);
+    return parts.length > 0 ? ` — ${parts.join(" · ")}` : "";
+};
+
+/**
+ * Renders a digest as the requests to send to one client, honouring the platform's limits:
+ * Discord embeds are packed at most 10 per message and 6000 characters per message, Slack
+ * attachments at most 20 per message, and other platforms receive one embed per chunk.
+ *
+ * @param entries - Entries to include, oldest first.
+ * @param platform - Platform identifier of the receiving client.
+ * @param groupName - Group name shown in the footer.
+ * @returns Requests to send, in order.
+ */
+export const renderDigest = (entries: DigestEntry[], platform: string, groupName: string): DigestPart[] => {
+    if (entries.length === 0) return [];
+
+    const severity = mostSevere(entries);
+    const color = SEVERITY_COLORS[severity];
+    const title = `📋 Digest: ${entries.length} message${entries.length === 1 ? "" : "s"}`;
+    const first = entries[0]!.timestamp;
+    const last = entries[entries.length - 1]!.timestamp;
+    const footer = `${groupName} • ${formatTime(first)}–${formatTime(last)} UTC`;
+
+    if (platform === "discord") {
+        const limits = PLATFORM_LIMITS.discord;
+        const lines = entries.map(
+            (e) => `\`${formatTime(e.timestamp)}\` **${e.title}**${details(e)}`
+        );
+        // Leave room for the title and footer within the per-message budget.
+        const chunks = chunkLines(lines, Math.min(limits.description, limits.charsPerMessage - title.length - footer.length));
+
+        const parts: DigestPart[] = [];
+        let embeds: object[] = [];
+        let size = 0;
+
+        chunks.forEach((description, index) => {
+            const embedTitle = index === 0 ? title : `${title} (cont. ${index + 1}/${chunks.length})`;
+            const embedSize = embedTitle.length + description.length + footer.length;
+
+            if (embeds.length === limits.embedsPerMessage || size + embedSize > limits.charsPerMessage) {
+                parts.push({ message: { embeds } });
+                embeds = [];
+                size = 0;
+            }
+
+            embeds.push({
+                title: embedTitle,
+                description,
+                color,
+                footer: { text: footer },
+                timestamp: last.toISOString(),
+            });
+            size += embedSize;
+        });
+
+        if (embeds.length > 0) parts.push({ message: { embeds } });
+        return parts;
+    }
+
+    if (platform === "slack") {
+        const limits = PLATFORM_LIMITS.slack;
+        const lines = entries.map(
+            (e) => `\`${formatTime(e.timestamp)}\` *${e.title}*${details(e)}`
+        );
+        const hex = `#${color.toString(16).padStart(6, "0")}`;
+        const attachments: SlackAttachment[] = chunkLines(lines, limits.attachmentText).map((text, index) => ({
+            color: hex,
+            ...(index === 0 ? { title } : {}),
+            text,
+            footer,
+            ts: Math.floor(last.getTime() / 1000),
+        }));
+
+        const parts: DigestPart[] = [];
+        for (let i = 0; i < attachments.length; i += limits.attachmentsPerMessage) {
+            parts.push({ message: { attachments: attachments.slice(i, i + limits.attachmentsPerMessage) } });
+        }
+        return parts;
+    }
+
+    const lines = entries.map(
+        (e) => `[${formatTime(e.timestamp)}] ${e.title}${details(e)}`
+    );
+    const chunks = chunkLines(lines, PLATFORM_LIMITS.discord.description);
+    return chunks.map((description, index) => ({
+        embed: {
+            title: index === 0 ? title : `${title} (cont. ${index + 1}/${chunks.length})`,
+            description,
+            color,
+            severity,
+            footer: { text: footer },
+        },
+    }));
+};
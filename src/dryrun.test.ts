@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { logifly } from "./logifly";
+import { renderPreview } from "./dryrun";
+import { HttpRequest, HttpResponse } from "./types/http";
+
+describe("renderPreview", () => {
+    it("shows the text of each platform's payload", () => {
+        const discord = renderPreview(
+            "discord",
+            "POST message",
+            { embeds: [{ title: "DB", description: "down", fields: [{ name: "Host", value: "db-1" }], footer: { text: "prod" } }] },
+            false
+        );
+        const teams = renderPreview(
+            "teams",
+            "POST message",
+            { attachments: [{ content: { body: [{ type: "TextBlock", text: "Title", weight: "Bolder" }, { type: "FactSet", facts: [{ title: "Env", value: "prod" }] }] } }] },
+            false
+        );
+
+        expect(discord).toContain("▌ DB\n▌ down\n▌ Host: db-1\n▌ prod");
+        expect(teams).toContain("▌ Title\n▌ Env: prod");
+    });
+
+    it("ignores malformed parts of a payload", () => {
+        const payload = { blocks: [null, 3, { type: "section", text: "not an object", fields: "nope" }], attachments: [{ color: "#ff0000", text: 42 }] };
+
+        expect(() => renderPreview("slack", "POST message", payload, true)).not.toThrow();
+        expect(renderPreview("discord", "POST message", "plain", false)).toBe("[dry run] discord POST message\nplain");
+    });
+});
+
+describe("setDryRun", () => {
+    afterEach(() => {
+        logifly.setDryRun(false);
+    });
+
+    const setup = (log: logifly, options: { dryRun?: boolean } = {}) => {
+        const requests: HttpRequest[] = [];
+        const transport = {
+            request: async (request: HttpRequest): Promise<HttpResponse> => {
+                requests.push(request);
+                return { status: 200, statusText: "OK", headers: {}, data: "ok" };
+            },
+        };
+        const client = log.newWebhookClient({ url: "https://example.com/hook", transport });
+        return { requests, group: log.createGroup("alerts", [client], options) };
+    };
+
+    it("applies to the groups of every instance", async () => {
+        const previews: string[] = [];
+        const first = new logifly();
+        const second = new logifly();
+        const { requests, group } = setup(second);
+
+        first.setDryRun({ output: (preview) => previews.push(preview), color: false });
+        const summary = await group.broadcast("deploy done");
+
+        expect(summary.dryRun).toBe(true);
+        expect(requests).toEqual([]);
+        expect(previews).toHaveLength(1);
+        expect(previews[0]).toContain("deploy done");
+    });
+
+    it("is overridden by a group's own dryRun option", async () => {
+        logifly.setDryRun({ output: () => undefined });
+        const { requests, group } = setup(new logifly(), { dryRun: false });
+
+        const summary = await group.broadcast("deploy done");
+
+        expect(summary.dryRun).toBeUndefined();
+        expect(requests).toHaveLength(1);
+    });
+});
@@ -0,0 +1,184 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { DryRunConfig, DryRunOptions } from "./types/dryrun";
+
+/** A card approximating how a platform would display a payload. */
+interface PreviewCard {
+    color?: number | undefined;
+    title?: string | undefined;
+    lines: string[];
+    footer?: string | undefined;
+}
+
+/** Dry-run setting of the group whose delivery is running, if it has one. */
+const groupScope = new AsyncLocalStorage<DryRunOptions | null>();
+
+/** Setting made with `setDryRun()`; `undefined` falls back to `LOGIFLY_DRY_RUN`. */
+let globalConfig: DryRunConfig | undefined;
+
+/** Colors of Adaptive Card container styles, the closest Teams has to embed colors. */
+const TEAMS_STYLE_COLORS: Record<string, number> = {
+    good: 0x00ff00,
+    attention: 0xff0000,
+    warning: 0xffff00,
+    accent: 0x3498db,
+};
+
+const toOptions = (config: DryRunConfig): DryRunOptions | null =>
+    config === false ? null : config === true ? {} : config;
+
+/** Sets the dry-run mode of every client and group that does not set its own. */
+export const setDryRun = (config: DryRunConfig): void => {
+    globalConfig = config;
+};
+
+/**
+ * Returns the dry-run options in effect, or `null` when messages are really sent: the running
+ * group's setting, else the global one, else `LOGIFLY_DRY_RUN=true`.
+ */
+export const activeDryRun = (): DryRunOptions | null => {
+    const scoped = groupScope.getStore();
+    if (scoped !== undefined) return scoped;
+    if (globalConfig !== undefined) return toOptions(globalConfig);
+    return process.env.LOGIFLY_DRY_RUN === "true" ? {} : null;
+};
+
+/** Runs `fn` with a group's dry-run setting, which applies to every client call it makes. */
+export const withDryRun = <T>(config: DryRunConfig | undefined, fn: () => Promise<T>): Promise<T> =>
+    config === undefined ? fn() : groupScope.run(toOptions(config), fn);
+
+const parseColor = (value: unknown): number | undefined => {
+    if (typeof value === "number") return value;
+    if (typeof value === "string" && /^#?[0-9a-f]{6}$/i.test(value)) return parseInt(value.replace("#", ""), 16);
+    return undefined;
+};
+
+/** Narrows a value to an object whose keys can be read. */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** The objects of a value that should be a list of them; anything else is ignored. */
+const records = (value: unknown): Record<string, unknown>[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+const text = (value: unknown): string | undefined => (typeof value === "string" ? value : undefined);
+
+const fieldLines = (fields: unknown, name: string, value: string): string[] =>
+    records(fields).map((f) => `${f[name]}: ${f[value]}`);
+
+/** Collects the text of an Adaptive Card: text blocks and facts, in order, and the first container style. */
+const walkCard = (node: unknown, card: PreviewCard): void => {
+    if (Array.isArray(node)) return node.forEach((child) => walkCard(child, card));
+    if (!isRecord(node)) return;
+
+    if (card.color === undefined && typeof node.style === "string") card.color = TEAMS_STYLE_COLORS[node.style];
+    if (node.type === "TextBlock" && typeof node.text === "string") {
+        if (card.title === undefined && node.weight === "Bolder") card.title = node.text;
+        else card.lines.push(node.text);
+    }
+    if (node.type === "FactSet") card.lines.push(...fieldLines(node.facts, "title", "value"));
+    Object.values(node).forEach((child) => {
+        if (typeof child === "object") walkCard(child, card);
+    });
+};
+
+/** Extracts what a platform would display from one of its payloads. */
+const cardsOf = (platform: string, payload: unknown): PreviewCard[] => {
+    if (!isRecord(payload)) return [];
+
+    switch (platform) {
+        case "discord":
+            return [
+                ...(payload.content ? [{ lines: [String(payload.content)] }] : []),
+                ...records(payload.embeds).map((e) => ({
+                    color: parseColor(e.color),
+                    title: text(e.title),
+                    lines: [text(e.description), ...fieldLines(e.fields, "name", "value")].filter((l): l is string => !!l),
+                    footer: isRecord(e.footer) ? text(e.footer.text) : undefined,
+                })),
+            ];
+        case "slack": {
+            const cards: PreviewCard[] = [];
+            const blocks: PreviewCard = { lines: [] };
+            records(payload.blocks).forEach((b) => {
+                const blockText = isRecord(b.text) ? text(b.text.text) : undefined;
+                if (b.type === "header" && blocks.title === undefined) blocks.title = blockText;
+                else if (b.type === "section") {
+                    if (blockText) blocks.lines.push(blockText);
+                    records(b.fields).forEach((f) => blocks.lines.push(String(f.text)));
+                } else if (b.type === "context") {
+                    blocks.footer = records(b.elements).map((e) => e.text).join(" • ");
+                }
+            });
+            if (blocks.title !== undefined || blocks.lines.length > 0) cards.push(blocks);
+            else if (payload.text) cards.push({ lines: [String(payload.text)] });
+            records(payload.attachments).forEach((a) =>
+                cards.push({
+                    color: parseColor(a.color),
+                    title: text(a.title),
+                    lines: [text(a.text), ...fieldLines(a.fields, "title", "value")].filter((l): l is string => !!l),
+                    footer: text(a.footer),
+                })
+            );
+            return cards;
+        }
+        case "teams": {
+            const card: PreviewCard = { lines: [] };
+            walkCard(payload.attachments, card);
+            return [card];
+        }
+        case "telegram":
+            return [{ lines: [String(payload.text ?? payload.caption ?? "")] }];
+        case "email":
+            return [{ title: text(payload.subject), lines: [String(payload.text ?? "")], footer: `To: ${payload.to}` }];
+        default:
+            return [];
+    }
+};
+
+/**
+ * Renders a payload for the terminal: a card per message part with a bar in the embed's color,
+ * then the payload itself as JSON.
+ * @param platform - Platform identifier, e.g. `"discord"`.
+ * @param action - What would have happened, e.g. `"POST message"`.
+ * @param payload - The exact payload that would have been sent.
+ * @param color - Whether to use ANSI colors.
+ */
+export const renderPreview = (platform: string, action: string, payload: unknown, color: boolean): string => {
+    const style = (code: string, text: string) => (color ? `\x1b[${code}m${text}\x1b[0m` : text);
+    const bar = (rgb?: number) =>
+        rgb === undefined || !color
+            ? style("2", "▌")
+            : style(`38;2;${(rgb >> 16) & 0xff};${(rgb >> 8) & 0xff};${rgb & 0xff}`, "▌");
+
+    const lines = [style("1;36", `[dry run] ${platform} ${action}`)];
+    cardsOf(platform, payload).forEach((card) => {
+        const prefix = `${bar(card.color)} `;
+        if (card.title) lines.push(prefix + style("1", card.title));
+        card.lines.forEach((text) => text.split("\n").forEach((line) => lines.push(prefix + line)));
+        if (card.footer) lines.push(prefix + style("2", card.footer));
+    });
+    lines.push(style("2", typeof payload === "string" ? payload : JSON.stringify(payload, null, 2)));
+    return lines.join("\n");
+};
+
+/**
+ * Prints what a client would have sent, instead of sending it.
+ * @param options - The dry-run options in effect.
+ * @param platform - Platform identifier, e.g. `"discord"`.
+ * @param action - What would have happened, e.g. `"POST message"`.
+ * @param payload - The exact payload that would have been sent; JSON strings are parsed for display.
+ */
+export const printPreview = (options: DryRunOptions, platform: string, action: string, payload: unknown): void => {
+    let parsed = payload;
+    if (typeof payload === "string") {
+        try {
+            parsed = JSON.parse(payload);
+        } catch {
+            // Not JSON: shown as is.
+        }
+    }
+
+    const color = options.color ?? (Boolean(process.stdout.isTTY) && !process.env.NO_COLOR);
+    const preview = renderPreview(platform, action, parsed, color);
+    if (options.output) options.output(preview);
+    else process.stdout.write(`${preview}\n`);
+};
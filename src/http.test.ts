@@ -0,0 +1,141 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "@jest/globals";
+import { logifly } from "./logifly";
+import { DefaultHttpTransport, getDefaultTransport } from "./http";
+import { HttpError } from "./utils/errors";
+import { HttpRequest, HttpResponse, HttpTransport } from "./types/http";
+
+const listen = (server: http.Server) =>
+    new Promise<number>((resolve) => server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port)));
+
+const recorder = (): HttpTransport & { urls: string[] } => {
+    const urls: string[] = [];
+    return {
+        urls,
+        request: async (request: HttpRequest): Promise<HttpResponse> => {
+            urls.push(request.url);
+            return { status: 200, statusText: "OK", headers: {}, data: "ok" };
+        },
+    };
+};
+
+describe("setTransport", () => {
+    const initial = getDefaultTransport();
+
+    afterEach(() => {
+        logifly.setTransport(initial);
+    });
+
+    it("is shared by the clients of every instance", async () => {
+        const transport = recorder();
+        const client = new logifly().newWebhookClient({ url: "https://example.com/a" });
+
+        new logifly().setTransport(transport);
+        await client.send("hi");
+
+        expect(transport.urls).toEqual(["https://example.com/a"]);
+    });
+
+    it("leaves clients with their own transport alone", async () => {
+        const shared = recorder();
+        const own = recorder();
+        const client = new logifly().newWebhookClient({ url: "https://example.com/b", transport: own });
+
+        logifly.setTransport(shared);
+        await client.send("hi");
+
+        expect(own.urls).toHaveLength(1);
+        expect(shared.urls).toEqual([]);
+    });
+});
+
+describe("DefaultHttpTransport", () => {
+    let port: number;
+    const seen: string[] = [];
+    const server = http.createServer((req, res) => {
+        seen.push(`${req.method} ${req.url}`);
+        if (req.url === "/slow") return void setTimeout(() => res.end("late"), 500);
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify({ ok: true }));
+    });
+    // Forwards plain requests, and refuses every CONNECT tunnel.
+    const proxy = http.createServer((req, res) => {
+        seen.push(`proxy ${req.method} ${req.url}`);
+        const upstream = http.request(req.url!, { method: req.method, headers: req.headers }, (response) => {
+            res.writeHead(response.statusCode!, response.headers);
+            response.pipe(res);
+        });
+        req.pipe(upstream);
+    });
+    proxy.on("connect", (req, socket) => {
+        seen.push(`proxy CONNECT ${req.url}`);
+        socket.end("HTTP/1.1 407 Proxy Authentication Required\r\n\r\n");
+    });
+    let proxyPort: number;
+
+    beforeAll(async () => {
+        port = await listen(server);
+        proxyPort = await listen(proxy);
+    });
+
+    afterEach(() => {
+        seen.length = 0;
+    });
+
+    afterAll(() => {
+        server.closeAllConnections();
+        proxy.closeAllConnections();
+        server.close();
+        proxy.close();
+    });
+
+    it("parses JSON and runs the hooks", async () => {
+        const hooks: string[] = [];
+        const transport = new DefaultHttpTransport({
+            onRequest: (request) => {
+                hooks.push(`request ${request.method}`);
+            },
+            onResponse: (response) => {
+                hooks.push(`response ${response.status}`);
+            },
+        });
+
+        const response = await transport.request({ method: "POST", url: `http://127.0.0.1:${port}/hook`, body: { a: 1 } });
+        transport.close();
+
+        expect(response.data).toEqual({ ok: true });
+        expect(hooks).toEqual(["request POST", "response 200"]);
+    });
+
+    it("fails with a timeout once the deadline passes", async () => {
+        const transport = new DefaultHttpTransport({ timeout: 100 });
+
+        const error = await transport.request({ method: "GET", url: `http://127.0.0.1:${port}/slow` }).catch((e) => e);
+        transport.close();
+
+        expect(error).toBeInstanceOf(HttpError);
+        expect(error.reason).toBe("timeout");
+    });
+
+    it("forwards plain HTTP through the proxy unless NO_PROXY matches", async () => {
+        const transport = new DefaultHttpTransport({ proxy: `http://127.0.0.1:${proxyPort}`, noProxy: "localhost" });
+
+        await transport.request({ method: "GET", url: `http://127.0.0.1:${port}/via` });
+        await transport.request({ method: "GET", url: `http://localhost:${port}/direct` });
+        transport.close();
+
+        expect(seen).toEqual([`proxy GET http://127.0.0.1:${port}/via`, "GET /via", "GET /direct"]);
+    });
+
+    it("tunnels HTTPS with CONNECT and reports a refused tunnel", async () => {
+        const transport = new DefaultHttpTransport({ proxy: `http://127.0.0.1:${proxyPort}` });
+
+        const error = await transport.request({ method: "GET", url: "https://internal.example:8443/x" }).catch((e) => e);
+        transport.close();
+
+        expect(seen).toEqual(["proxy CONNECT internal.example:8443"]);
+        expect(error.reason).toBe("network");
+        expect(error.message).toContain("Proxy refused the tunnel: 407");
+    });
+});
@@ -0,0 +1,305 @@
+import axios, { AxiosProxyConfig } from "axios";
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as tls from "tls";
+import { Duplex } from "stream";
+import { ConfigurationError, HttpError } from "./utils/errors";
+import { HttpRequest, HttpResponse, HttpTransport, HttpTransportOptions, TransportConfig } from "./types/http";
+
+const DEFAULT_TIMEOUT = 10000;
+
+/**
+ * Transport of clients without their own, shared by the whole process; created on first use
+ * unless `setDefaultTransport()` was called.
+ */
+let defaultTransport: HttpTransport | null = null;
+
+/** Reads the first of the variables that is set, in upper or lower case. */
+const envValue = (...names: string[]): string | undefined =>
+    names.map((name) => process.env[name] || process.env[name.toLowerCase()]).find(Boolean);
+
+/** Whether a host matches a `NO_PROXY` entry: `*`, a host, or a domain with or without its leading dot. */
+const bypassesProxy = (hostname: string, entries: string[]): boolean =>
+    entries.some((entry) => {
+        const domain = entry.replace(/^\*?\./, "").replace(/:\d+$/, "").toLowerCase();
+        return entry === "*" || hostname === domain || hostname.endsWith(`.${domain}`);
+    });
+
+const toHeaders = (headers: Record<string, unknown>): Record<string, string> =>
+    Object.fromEntries(
+        Object.entries(headers)
+            .filter(([, value]) => value !== undefined && value !== null)
+            .map(([name, value]) => [name.toLowerCase(), Array.isArray(value) ? value.join(", ") : String(value)])
+    );
+
+const parseProxy = (proxy: string): URL => {
+    try {
+        const url = new URL(proxy);
+        if (url.protocol === "http:" || url.protocol === "https:") return url;
+    } catch {
+        // Reported below.
+    }
+    throw new ConfigurationError("Invalid proxy: expected an http:// or https:// URL");
+};
+
+/**
+ * An HTTPS agent that reaches hosts through a proxy: each connection is a `CONNECT` tunnel
+ * with TLS on top, pooled like any other connection.
+ */
+class TunnelAgent extends https.Agent {
+    constructor(
+        private proxy: URL,
+        options: https.AgentOptions
+    ) {
+        super(options);
+    }
+
+    override createConnection(
+        options: tls.ConnectionOptions,
+        callback: (err: Error | null, socket?: Duplex) => void
+    ): undefined {
+        const target = `${options.host}:${options.port}`;
+        const headers: Record<string, string> = { host: target };
+        if (this.proxy.username) {
+            const credentials = `${decodeURIComponent(this.proxy.username)}:${decodeURIComponent(this.proxy.password)}`;
+            headers["proxy-authorization"] = `Basic ${Buffer.from(credentials).toString("base64")}`;
+        }
+
+        const secure = this.proxy.protocol === "https:";
+        const connect = (secure ? https : http).request({
+            host: this.proxy.hostname,
+            port: this.proxy.port || (secure ? 443 : 80),
+            method: "CONNECT",
+            path: target,
+            headers,
+            agent: false,
+            ...(secure && options.ca ? { ca: options.ca } : {}),
+        });
+        connect.once("connect", (response, socket) => {
+            if (response.statusCode !== 200) {
+                socket.destroy();
+                callback(new Error(`Proxy refused the tunnel: ${response.statusCode} ${response.statusMessage ?? ""}`.trim()));
+                return;
+            }
+            callback(null, tls.connect({ ...options, socket }));
+        });
+        connect.once("error", (error) => callback(error));
+        connect.end();
+        return undefined;
+    }
+}
+
+/**
+ * The transport built-in clients use unless given another: pooled keep-alive connections,
+ * an optional proxy (from the options or `HTTPS_PROXY` / `HTTP_PROXY` / `NO_PROXY`),
+ * custom CA bundles, a deadline per request, and request/response hooks.
+ *
+ * @example
+ * ```ts
+ * const transport = new DefaultHttpTransport({
+ *   proxy: 'http://proxy.corp:3128',
+ *   caFile: '/etc/ssl/corp-ca.pem',
+ *   onRequest: (req) => { console.debug(req.method, new URL(req.url).host); },
+ * });
+ * log.setTransport(transport);
+ * ```
+ */
+export class DefaultHttpTransport implements HttpTransport {
+    /** @private */
+    private readonly options: HttpTransportOptions;
+
+    /** @private */
+    private readonly agentOptions: https.AgentOptions;
+
+    /** @private */
+    private readonly httpAgent: http.Agent;
+
+    /** @private */
+    private readonly httpsAgent: https.Agent;
+
+    /**
+     * Tunnelling agents by proxy URL.
+     * @private
+     */
+    private readonly tunnels = new Map<string, TunnelAgent>();
+
+    /**
+     * Controllers of the requests in flight, aborted by `close()`.
+     * @private
+     */
+    private readonly inFlight = new Set<AbortController>();
+
+    /**
+     * Creates a new transport.
+     * @param {HttpTransportOptions} [options={}] - Proxy, agents, CA bundle, timeout and hooks.
+     * @throws {ConfigurationError} If the proxy is not a URL or the CA file cannot be read.
+     */
+    constructor(options: HttpTransportOptions = {}) {
+        this.options = options;
+        if (typeof options.proxy === "string") parseProxy(options.proxy);
+
+        const ca = [options.ca ?? [], options.caFile ? this._readCaFile(options.caFile) : []].flat();
+        this.agentOptions = {
+            keepAlive: options.keepAlive ?? true,
+            ...(options.maxSockets ? { maxSockets: options.maxSockets } : {}),
+            ...(ca.length > 0 ? { ca } : {}),
+        };
+        this.httpAgent = options.httpAgent ?? new http.Agent(this.agentOptions);
+        this.httpsAgent = options.httpsAgent ?? new https.Agent(this.agentOptions);
+    }
+
+    /**
+     * Sends a request. The deadline covers connecting (through the proxy, if any) and reading the body.
+     * @param {HttpRequest} request - The request.
+     * @returns {Promise<HttpResponse>} The response, whatever its status.
+     * @throws {HttpError} If the request timed out, was aborted, or got no response.
+     */
+    async request(request: HttpRequest): Promise<HttpResponse> {
+        const prepared = (await this.options.onRequest?.(request)) ?? request;
+        const timeout = prepared.timeout ?? this.options.timeout ?? DEFAULT_TIMEOUT;
+        const url = new URL(prepared.url);
+        const proxy = this._proxyFor(url);
+
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeout);
+        const abort = () => controller.abort();
+        if (prepared.signal?.aborted) abort();
+        prepared.signal?.addEventListener("abort", abort);
+        this.inFlight.add(controller);
+
+        let response: HttpResponse;
+        try {
+            const received = await axios.request({
+                method: prepared.method,
+                url: prepared.url,
+                ...(prepared.headers ? { headers: prepared.headers } : {}),
+                ...(prepared.params ? { params: prepared.params } : {}),
+                ...(prepared.body !== undefined ? { data: prepared.body } : {}),
+                signal: controller.signal,
+                validateStatus: () => true,
+                maxBodyLength: Infinity,
+                // Proxies from the environment are resolved here, not by axios.
+                proxy: proxy && url.protocol === "http:" ? this._axiosProxy(proxy) : false,
+                httpAgent: this.httpAgent,
+                httpsAgent: proxy && url.protocol === "https:" ? this._tunnel(proxy) : this.httpsAgent,
+            });
+            response = {
+                status: received.status,
+                statusText: received.statusText,
+                headers: toHeaders(received.headers),
+                data: received.data,
+            };
+        } catch (error) {
+            if (timedOut) throw new HttpError(`Request timed out after ${timeout} ms`, "timeout", undefined, error);
+            if (controller.signal.aborted) throw new HttpError("Request aborted", "aborted", undefined, error);
+            throw new HttpError(`Request failed: ${(error as Error)?.message}`, "network", undefined, error);
+        } finally {
+            clearTimeout(timer);
+            prepared.signal?.removeEventListener("abort", abort);
+            this.inFlight.delete(controller);
+        }
+
+        await this.options.onResponse?.(response, prepared);
+        return response;
+    }
+
+    /**
+     * Aborts the requests in flight and closes pooled connections. Agents passed in the options are left open.
+     */
+    close(): void {
+        this.inFlight.forEach((controller) => controller.abort());
+        if (!this.options.httpAgent) this.httpAgent.destroy();
+        if (!this.options.httpsAgent) this.httpsAgent.destroy();
+        this.tunnels.forEach((agent) => agent.destroy());
+        this.tunnels.clear();
+    }
+
+    /**
+     * Returns the proxy for a URL, if any. A custom HTTPS agent handles its own proxying.
+     * @private
+     */
+    private _proxyFor(url: URL): URL | null {
+        if (url.protocol === "https:" && this.options.httpsAgent) return null;
+
+        const proxy =
+            this.options.proxy === false
+                ? undefined
+                : this.options.proxy ??
+                  (url.protocol === "https:" ? envValue("HTTPS_PROXY", "HTTP_PROXY") : envValue("HTTP_PROXY"));
+        if (!proxy) return null;
+
+        const noProxy = this.options.noProxy ?? envValue("NO_PROXY") ?? [];
+        const entries = (Array.isArray(noProxy) ? noProxy : noProxy.split(",")).map((e) => e.trim()).filter(Boolean);
+        return bypassesProxy(url.hostname.toLowerCase(), entries) ? null : parseProxy(proxy);
+    }
+
+    /** @private */
+    private _tunnel(proxy: URL): TunnelAgent {
+        let agent = this.tunnels.get(proxy.href);
+        if (!agent) {
+            agent = new TunnelAgent(proxy, this.agentOptions);
+            this.tunnels.set(proxy.href, agent);
+        }
+        return agent;
+    }
+
+    /** @private */
+    private _axiosProxy(proxy: URL): AxiosProxyConfig {
+        return {
+            protocol: proxy.protocol.replace(":", ""),
+            host: proxy.hostname,
+            port: Number(proxy.port) || (proxy.protocol === "https:" ? 443 : 80),
+            ...(proxy.username
+                ? { auth: { username: decodeURIComponent(proxy.username), password: decodeURIComponent(proxy.password) } }
+                : {}),
+        };
+    }
+
+    /** @private */
+    private _readCaFile(file: string): Buffer {
+        try {
+            return fs.readFileSync(file);
+        } catch (err: any) {
+            throw new ConfigurationError(`Cannot read CA file ${file}: ${err.message}`);
+        }
+    }
+}
+
+/** Returns a transport as is, or creates a `DefaultHttpTransport` from options. */
+export const resolveTransport = (config: TransportConfig): HttpTransport =>
+    typeof (config as HttpTransport).request === "function"
+        ? (config as HttpTransport)
+        : new DefaultHttpTransport(config as HttpTransportOptions);
+
+/** Sets the transport of every client without its own, in every logifly instance. */
+export const setDefaultTransport = (config: TransportConfig): HttpTransport => {
+    defaultTransport = resolveTransport(config);
+    return defaultTransport;
+};
+
+/** Returns the transport of clients without their own. */
+export const getDefaultTransport = (): HttpTransport => (defaultTransport ??= new DefaultHttpTransport());
+
+/**
+ * Sends a request through a client's transport, or the default one.
+ * @throws {HttpError} If no response was received or its status is outside 2xx.
+ */
+export const sendHttp = async (transport: HttpTransport | null, request: HttpRequest): Promise<HttpResponse> => {
+    let response: HttpResponse;
+    try {
+        response = await (transport ?? getDefaultTransport()).request(request);
+    } catch (error) {
+        if (error instanceof HttpError) throw error;
+        throw new HttpError(`Request failed: ${(error as Error)?.message}`, "network", undefined, error);
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+        throw new HttpError(`HTTP ${response.status} ${response.statusText}`.trim(), "status", response);
+    }
+    return response;
+};
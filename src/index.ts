@@ -1,11 +1,123 @@
 import logifly from "./logifly";
 import { DiscordClient } from "./clients/Discord";
 import { SlackClient } from "./clients/Slack";
+import { TeamsClient } from "./clients/Teams";
+import { TelegramClient } from "./clients/Telegram";
+import { EmailClient } from "./clients/Email";
+import { WebhookClient } from "./clients/Webhook";
+import { MemoryClient } from "./clients/Memory";
+import { WinstonTransport } from "./transports/winston";
+import { PinoTransport } from "./transports/pino";
+import { Logger } from "./logger";
+import { expressErrorReporter } from "./middleware/express";
+import { fastifyErrorReporter } from "./middleware/fastify";
+import { koaErrorReporter } from "./middleware/koa";
+import { Redactor } from "./redaction";
+import { BroadcastExpectation, expectBroadcast } from "./testing";
+import { AVAILABLE_PLATFORMS } from "./registry";
+import { DefaultHttpTransport } from "./http";
 import * as errors from "./utils/errors";
 
 const lgfy = new logifly();
 
 export default lgfy;
-export { logifly, SlackClient, DiscordClient, errors as Errors };
-export type { DiscordClientConfig } from "./types/discord";
+export {
+    logifly,
+    SlackClient,
+    DiscordClient,
+    TeamsClient,
+    TelegramClient,
+    EmailClient,
+    WebhookClient,
+    MemoryClient,
+    WinstonTransport,
+    PinoTransport,
+    Logger,
+    expressErrorReporter,
+    fastifyErrorReporter,
+    koaErrorReporter,
+    Redactor,
+    expectBroadcast,
+    BroadcastExpectation,
+    AVAILABLE_PLATFORMS,
+    DefaultHttpTransport,
+    errors as Errors,
+};
+export type { DiscordClientConfig, DiscordSendResult } from "./types/discord";
 export type { SlackClientConfig } from "./types/slack";
+export type { TeamsClientConfig } from "./types/teams";
+export type { TelegramClientConfig } from "./types/telegram";
+export type { EmailClientConfig } from "./types/email";
+export type { WebhookClientConfig, WebhookTemplate, WebhookTemplateInput } from "./types/webhook";
+export type {
+    FailureOptions,
+    MemoryCall,
+    MemoryClientConfig,
+    MemoryMethod,
+    MemorySendResult,
+    MessageMatcher,
+} from "./types/memory";
+export type { RetryPolicy } from "./types/retry";
+export type {
+    BroadcastResult,
+    BroadcastSummary,
+    BroadcastMessage,
+    ClientOptions,
+    DedupOptions,
+    EmbedOptions,
+    GroupOptions,
+    MessageHandle,
+    OutboxOptions,
+    OutboxRecord,
+    OutboxReplayResult,
+    PlatformClient,
+    Severity,
+    SkippedClient,
+} from "./types/broadcast";
+export type {
+    RouteMatch,
+    RouteOptions,
+    RouteSummary,
+    RoutingRule,
+    TagMatcher,
+    Tags,
+} from "./types/routing";
+export type {
+    LogRecord,
+    LogTransportOptions,
+    PinoTransportOptions,
+    WinstonTransportOptions,
+} from "./types/transports";
+export type { LogContext, LoggerOptions } from "./types/logger";
+export type { CaptureOptions, ProcessErrorEvent } from "./types/capture";
+export type { HttpErrorReport, HttpReporterOptions } from "./types/middleware";
+export type { RedactionConfig, RedactionDetector, RedactionOptions, RedactionRule } from "./types/redaction";
+export type { TemplateDefinition, TemplateOverride, TemplateVariables } from "./types/template";
+export type { RichBlock, RichButton, RichField, RichMessage } from "./types/rich";
+export type { OverflowPolicy, UnsentPart } from "./types/overflow";
+export type { DryRunConfig, DryRunOptions } from "./types/dryrun";
+export type {
+    HttpMethod,
+    HttpRequest,
+    HttpResponse,
+    HttpTransport,
+    HttpTransportOptions,
+    TransportConfig,
+} from "./types/http";
+export type { BroadcastFileOptions, FileInput, FileOptions } from "./types/file";
+export type {
+    ClientDefinition,
+    ClientType,
+    ConfigLoadOptions,
+    GroupDefinition,
+    GroupMemberDefinition,
+    LoadedConfig,
+    LogiflyConfig,
+} from "./types/config";
+export type {
+    ConfigField,
+    ConfigSchema,
+    PlatformFactory,
+    PlatformOptions,
+    PlatformRegistration,
+} from "./types/platform";
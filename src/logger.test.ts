@@ -0,0 +1,78 @@
+import { describe, expect, it } from "@jest/globals";
+import { logifly } from "./logifly";
+import { MemoryClient } from "./clients/Memory";
+import { Severity } from "./types/broadcast";
+
+const setup = (options: { level?: Severity } = {}) => {
+    const client = new MemoryClient();
+    const lgfy = new logifly();
+    lgfy.createGroup("logs", [client]);
+    const log = lgfy.logger({ group: "logs", context: { service: "api", env: "dev" }, ...options });
+    return { client, log };
+};
+
+describe("Logger", () => {
+    it("sends each level with its severity and drops levels below the threshold", async () => {
+        const { client, log } = setup({ level: "warn" });
+
+        log.debug("cache miss");
+        log.info("started");
+        log.warn("slow query");
+        log.error("charge failed");
+        log.fatal("out of memory");
+        await log.flush();
+
+        expect(client.sent.map((call) => [call.embed?.severity, call.embed?.title, call.embed?.description])).toEqual([
+            ["warn", "⚠️ WARN", "slow query"],
+            ["error", "❌ ERROR", "charge failed"],
+            ["critical", "🚨 CRITICAL", "out of memory"],
+        ]);
+    });
+
+    it("merges child context over the parent's and adds metadata as fields", async () => {
+        const { client, log } = setup();
+        const request = log.child({ requestId: "abc123", env: "prod" });
+
+        request.info("Slow query", { ms: 1840 });
+        log.info("Parent line");
+        await log.flush();
+
+        expect(client.sent[0]!.embed?.fields).toEqual([
+            { name: "service", value: "api", inline: true },
+            { name: "env", value: "prod", inline: true },
+            { name: "requestId", value: "abc123", inline: true },
+            { name: "ms", value: "1840", inline: true },
+        ]);
+        expect(client.sent[1]!.embed?.fields?.map((f: { name: string }) => f.name)).toEqual(["service", "env"]);
+    });
+
+    it("adds the stack of an error given as the message, as meta or as meta.err", async () => {
+        const { client, log } = setup();
+        const boom = new Error("card declined");
+
+        log.error(boom);
+        log.error("Charge failed", boom);
+        log.error("Charge failed", { err: boom, orderId: 42 });
+        log.error("Not an error", { error: "just a string" });
+        await log.flush();
+
+        const [asMessage, asMeta, asField, asString] = client.sent.map((call) => call.embed!);
+        expect(asMessage!.description.startsWith(`card declined\n\`\`\`\nError: card declined\n`)).toBe(true);
+        expect(asMeta!.description.startsWith("Charge failed\n```\nError: card declined\n")).toBe(true);
+        expect(asField!.description).toBe(asMeta!.description);
+        expect(asField!.fields.map((f: { name: string }) => f.name)).toEqual(["service", "env", "orderId"]);
+        expect(asString!.description).toBe("Not an error");
+        expect(asString!.fields).toContainEqual({ name: "error", value: "just a string", inline: true });
+    });
+
+    it("never throws, even when delivery fails", async () => {
+        const { client, log } = setup();
+        client.fail();
+
+        expect(() => log.error("lost")).not.toThrow();
+        await log.flush();
+
+        expect(client.calls).toHaveLength(1);
+        expect(client.sent).toEqual([]);
+    });
+});
@@ -0,0 +1,109 @@
+import { LogForwarder } from "./transports/forwarder";
+import { Severity } from "./types/broadcast";
+import { LogContext } from "./types/logger";
+
+/** Fields that carry an error rather than context. */
+const ERROR_KEYS = ["err", "error"];
+
+/**
+ * `Logger` is a fire-and-forget logging facade over a broadcast group.
+ *
+ * Every call is turned into an embed (level in the title, message and stack in the description,
+ * context and metadata as fields) and broadcast in the background. Child loggers share the
+ * parent's delivery queue, so `flush()` on any of them waits for everything sent so far.
+ *
+ * @example
+ * ```ts
+ * const log = lgfy.logger({ group: 'alerts', context: { service: 'api' } });
+ * const req = log.child({ requestId: 'abc123' });
+ *
+ * req.warn('Slow query', { ms: 1840 });
+ * req.error('Charge failed', { err, orderId: 42 });
+ *
+ * await log.flush();
+ * ```
+ */
+export class Logger {
+    private forwarder: LogForwarder;
+    private context: LogContext;
+
+    /**
+     * @internal Use `lgfy.logger()` or `logger.child()` instead.
+     */
+    constructor(forwarder: LogForwarder, context: LogContext = {}) {
+        this.forwarder = forwarder;
+        this.context = context;
+    }
+
+    /** Logs a debug message. */
+    debug(message: string | Error, meta?: LogContext | Error): void {
+        this._log("debug", message, meta);
+    }
+
+    /** Logs an informational message. */
+    info(message: string | Error, meta?: LogContext | Error): void {
+        this._log("info", message, meta);
+    }
+
+    /** Logs a warning. */
+    warn(message: string | Error, meta?: LogContext | Error): void {
+        this._log("warn", message, meta);
+    }
+
+    /** Logs an error. An `Error` given as the message, as `meta`, or as `meta.err` adds its stack. */
+    error(message: string | Error, meta?: LogContext | Error): void {
+        this._log("error", message, meta);
+    }
+
+    /** Logs a fatal error, broadcast with `critical` severity. */
+    fatal(message: string | Error, meta?: LogContext | Error): void {
+        this._log("critical", message, meta);
+    }
+
+    /**
+     * Creates a logger that adds `context` to this logger's context.
+     * Keys in `context` override inherited keys.
+     * @param context - Fields to merge.
+     * @returns The child logger.
+     */
+    child(context: LogContext): Logger {
+        return new Logger(this.forwarder, { ...this.context, ...context });
+    }
+
+    /**
+     * Waits for every log line sent so far, by this logger, its parent or its children.
+     */
+    async flush(): Promise<void> {
+        await this.forwarder.flush();
+    }
+
+    /**
+     * @private
+     */
+    private _log(level: Severity, message: string | Error, meta: LogContext | Error = {}): void {
+        if (!this.forwarder.accepts(level)) return;
+
+        const fields: LogContext = { ...this.context };
+        let error = message instanceof Error ? message : undefined;
+
+        if (meta instanceof Error) {
+            error = error ?? meta;
+        } else {
+            Object.entries(meta).forEach(([key, value]) => {
+                if (ERROR_KEYS.includes(key) && value instanceof Error) {
+                    error = error ?? value;
+                } else {
+                    fields[key] = value;
+                }
+            });
+        }
+
+        this.forwarder.forward({
+            level,
+            message: message instanceof Error ? message.message : message,
+            fields,
+            error,
+            timestamp: new Date(),
+        });
+    }
+}
@@ -0,0 +1,77 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { logifly } from "./logifly";
+import { DefaultHttpTransport, getDefaultTransport } from "./http";
+import { ConfigurationError } from "./utils/errors";
+
+describe("fromConfig", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "logifly-config-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const config = (secondOutbox: string) => ({
+        clients: { ops: { type: "webhook", url: "https://example.com/hook" } },
+        groups: {
+            alerts: { clients: ["ops"], outbox: { path: path.join(dir, "alerts.jsonl"), retryInterval: 0 } },
+            audit: { clients: ["ops"], outbox: { path: path.join(dir, secondOutbox), retryInterval: 0 } },
+        },
+        templates: { deploy: { title: "{{service}} deployed" } },
+        routes: [{ severity: "error", groups: ["alerts"] }],
+        transport: { keepAlive: false },
+    });
+
+    it("reports every problem at once and changes nothing", async () => {
+        const log = new logifly();
+
+        const error = await log
+            .fromConfig({ clients: { ops: { type: "discord" }, pager: { type: "nope" } } } as any)
+            .catch((e) => e);
+
+        expect(error).toBeInstanceOf(ConfigurationError);
+        expect(error.problems).toHaveLength(2);
+        expect(log.listGroups()).toEqual([]);
+    });
+
+    it("applies nothing when a group fails to build, and releases the outboxes it opened", async () => {
+        const log = new logifly();
+        const transport = getDefaultTransport();
+
+        await expect(log.fromConfig(config("alerts.jsonl") as any)).rejects.toThrow("already in use");
+
+        expect(log.listGroups()).toEqual([]);
+        expect(log.listTemplates()).toEqual([]);
+        expect(log.listRoutes()).toEqual([]);
+        expect(getDefaultTransport()).toBe(transport);
+
+        const { groups } = await log.fromConfig(config("audit.jsonl") as any);
+        expect(log.listGroups()).toEqual(["alerts", "audit"]);
+        expect(log.listTemplates()).toEqual(["deploy"]);
+        expect(getDefaultTransport()).not.toBe(transport);
+        await Promise.all(Object.values(groups).map((group) => group.close()));
+    });
+
+    it("closes the groups and transport it replaces when the same configuration is loaded twice", async () => {
+        const log = new logifly();
+        const first = await log.fromConfig(config("audit.jsonl") as any);
+        const transport = getDefaultTransport();
+        const closes = Object.values(first.groups).map((group) => jest.spyOn(group, "close"));
+        const closeTransport = jest.spyOn(transport as DefaultHttpTransport, "close");
+
+        const second = await log.fromConfig(config("audit.jsonl") as any);
+
+        closes.forEach((close) => expect(close).toHaveBeenCalledTimes(1));
+        expect(closeTransport).toHaveBeenCalledTimes(1);
+        expect(getDefaultTransport()).not.toBe(transport);
+        expect(log.getGroup("alerts")).toBe(second.groups.alerts);
+        expect(log.listGroups()).toEqual(["alerts", "audit"]);
+        await Promise.all(Object.values(second.groups).map((group) => group.close()));
+    });
+});
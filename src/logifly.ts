@@ -1,9 +1,34 @@
 import { DiscordClient } from "./clients/Discord";
 import { DiscordClientConfig } from "./types/discord";
 import { BroadcastGroup } from "./broadcast";
-import { PlatformClient } from "./types/broadcast";
+import { GroupOptions, PlatformClient } from "./types/broadcast";
 import { SlackClientConfig } from "./types/slack";
 import { SlackClient } from "./clients/Slack";
+import { TeamsClientConfig } from "./types/teams";
+import { TeamsClient } from "./clients/Teams";
+import { TelegramClientConfig } from "./types/telegram";
+import { TelegramClient } from "./clients/Telegram";
+import { EmailClientConfig } from "./types/email";
+import { EmailClient } from "./clients/Email";
+import { WebhookClientConfig } from "./types/webhook";
+import { WebhookClient } from "./clients/Webhook";
+import { Router } from "./routing";
+import { RoutableMessage, RouteOptions, RouteSummary, RoutingRule } from "./types/routing";
+import { Logger } from "./logger";
+import { LoggerOptions } from "./types/logger";
+import { LogForwarder } from "./transports/forwarder";
+import { captureProcessErrors } from "./capture";
+import { CaptureOptions } from "./types/capture";
+import { TemplateRegistry } from "./templates";
+import { TemplateDefinition } from "./types/template";
+import { parseConfig, readConfig } from "./config";
+import { AVAILABLE_PLATFORMS, createClient, registerPlatform } from "./registry";
+import { PlatformFactory, PlatformOptions } from "./types/platform";
+import { setDryRun } from "./dryrun";
+import { DryRunConfig } from "./types/dryrun";
+import { getDefaultTransport, setDefaultTransport } from "./http";
+import { HttpTransport, TransportConfig } from "./types/http";
+import { ConfigLoadOptions, LoadedConfig, LogiflyConfig } from "./types/config";
 
 /**
  * Main logifly SDK class.
@@ -37,12 +62,20 @@ export class logifly {
     /** Internal store of all broadcast groups */
     private groups: Map<string, BroadcastGroup>;
 
+    /** Routing rules evaluated by `route()` */
+    private router: Router;
+
+    /** Message templates shared by every group */
+    private templates: TemplateRegistry;
+
     /**
      * Initializes a new logifly instance.
      */
     constructor() {
         this.version = "0.1.2";
         this.groups = new Map();
+        this.router = new Router();
+        this.templates = new TemplateRegistry();
     }
 
     /**
@@ -81,6 +114,197 @@ export class logifly {
         return new SlackClient(config);
     }
 
+    /**
+     * Creates a new Microsoft Teams client instance.
+     *
+     * @param {TeamsClientConfig} config - Configuration options for the Teams client.
+     * @returns {TeamsClient} A configured Teams client ready to send messages.
+     *
+     * @example
+     * ```ts
+     * const teams = log.newTeamsClient({
+     *   webhookUrl: 'https://contoso.webhook.office.com/webhookb2/XXXX'
+     * });
+     * ```
+     */
+    newTeamsClient(config: TeamsClientConfig): TeamsClient {
+        return new TeamsClient(config);
+    }
+
+    /**
+     * Creates a new Telegram Bot API client instance.
+     *
+     * @param {TelegramClientConfig} config - Configuration options for the Telegram client.
+     * @returns {TelegramClient} A configured Telegram client ready to send messages.
+     *
+     * @example
+     * ```ts
+     * const telegram = log.newTelegramClient({
+     *   botToken: '123456:ABC-DEF',
+     *   chatId: [-1001234567890, 987654321]
+     * });
+     * ```
+     */
+    newTelegramClient(config: TelegramClientConfig): TelegramClient {
+        return new TelegramClient(config);
+    }
+
+    /**
+     * Creates a new SMTP email client instance.
+     *
+     * @param {EmailClientConfig} config - Configuration options for the email client.
+     * @returns {EmailClient} A configured email client ready to send messages.
+     *
+     * @example
+     * ```ts
+     * const email = log.newEmailClient({
+     *   host: 'smtp.example.com',
+     *   auth: { user: 'alerts@example.com', pass: 'secret' },
+     *   from: 'Alerts <alerts@example.com>',
+     *   to: ['oncall@example.com']
+     * });
+     * ```
+     */
+    newEmailClient(config: EmailClientConfig): EmailClient {
+        return new EmailClient(config);
+    }
+
+    /**
+     * Creates a new generic outgoing-webhook client instance.
+     *
+     * @param {WebhookClientConfig} config - Configuration options for the webhook client.
+     * @returns {WebhookClient} A configured webhook client ready to send messages.
+     *
+     * @example
+     * ```ts
+     * const rocket = log.newWebhookClient({
+     *   url: 'https://chat.example.com/hooks/XXXX',
+     *   template: '{"text": "{{text}}"}'
+     * });
+     * ```
+     */
+    newWebhookClient(config: WebhookClientConfig): WebhookClient {
+        return new WebhookClient(config);
+    }
+
+    /**
+     * Registers a platform so its clients can be created with `createClient()` and declared in `fromConfig()`.
+     * Registering an existing name replaces it. The registry is process-wide: a platform registered
+     * here is available to every logifly instance.
+     *
+     * @param {string} name - Platform name, e.g. `"mattermost"`: lowercase letters, digits, dashes and underscores.
+     * @param {PlatformFactory} factory - Builds a client from its configuration.
+     * @param {PlatformOptions} [options={}] - URL pattern for `webhookUrl`/`url`, and the options `fromConfig()` accepts.
+     * @returns {this} The same instance for chaining.
+     * @throws {ConfigurationError} If the name or factory is invalid.
+     *
+     * @example
+     * ```ts
+     * log.registerPlatform('mattermost', (config) => new MattermostClient(config), {
+     *   urlPattern: /^https:\/\/[\w.-]+\/hooks\/\w+$/,
+     *   configSchema: { fields: { webhookUrl: 'string', channel: 'string' }, required: ['webhookUrl'] }
+     * });
+     * ```
+     */
+    registerPlatform(name: string, factory: PlatformFactory, options: PlatformOptions = {}): this {
+        registerPlatform(name, factory, options);
+        return this;
+    }
+
+    /**
+     * Creates a client of any registered platform.
+     *
+     * @param {string} platform - A registered platform name, e.g. `"discord"`.
+     * @param {Record<string, any>} config - The platform's client configuration.
+     * @returns {PlatformClient} The client.
+     * @throws {ConfigurationError} If the platform is unknown or the configuration is invalid.
+     *
+     * @example
+     * ```ts
+     * const discord = log.createClient('discord', { webhookUrl: 'https://discord.com/api/webhooks/XXXX' });
+     * ```
+     */
+    createClient(platform: string, config: Record<string, any>): PlatformClient {
+        return createClient(platform, config);
+    }
+
+    /**
+     * Lists the registered platform names.
+     *
+     * @returns {string[]} Platform names, built-in ones first.
+     */
+    listPlatforms(): string[] {
+        return [...AVAILABLE_PLATFORMS];
+    }
+
+    /**
+     * Builds clients, groups, routes and templates from a declarative configuration.
+     *
+     * The source is an object or a path to a JSON (or, with the `yaml` package installed, YAML) file.
+     * Without a source, the file named by `LOGIFLY_CONFIG` is read; failing that, a `default` group
+     * is built from `LOGIFLY_*` variables such as `LOGIFLY_DISCORD_WEBHOOK_URL`.
+     * Strings may reference environment variables as `${NAME}` or `${NAME:-default}`.
+     * Nothing is registered, and the default transport is left as is, unless the whole
+     * configuration is valid and every group could be built. Groups named like existing ones
+     * replace them, and a configured transport replaces the default one: the replaced groups are
+     * closed before the new ones are built, so their outbox files can be reopened, and the
+     * replaced transport once the new one is set. Loading the same configuration twice is safe.
+     *
+     * @param {LogiflyConfig | string} [source] - The configuration, or the path of a configuration file.
+     * @param {ConfigLoadOptions} [options={}] - Variables to use instead of `process.env`.
+     * @returns {Promise<LoadedConfig>} The clients and groups that were created.
+     * @throws {ConfigurationError} Listing every problem with its path, e.g. `clients.ops.webhookUrl: required`.
+     *
+     * @example
+     * ```ts
+     * const { groups } = await log.fromConfig({
+     *   clients: {
+     *     ops: { type: 'discord', webhookUrl: '${DISCORD_WEBHOOK_URL}' },
+     *     pager: { type: 'telegram', botToken: '${TELEGRAM_TOKEN}', chatId: '-1001234567890' }
+     *   },
+     *   groups: {
+     *     alerts: { clients: ['ops', { client: 'pager', minLevel: 'critical' }], dedup: { window: 60000 } }
+     *   }
+     * });
+     * await groups.alerts.broadcast('Server is down!');
+     * ```
+     */
+    async fromConfig(source?: LogiflyConfig | string, options: ConfigLoadOptions = {}): Promise<LoadedConfig> {
+        const env = options.env ?? process.env;
+        const config = parseConfig(await readConfig(source, env), env);
+
+        // Replaced groups hold their outbox files and timers until closed, so they are
+        // released first; a replaced group stays unregistered if a new one fails to build.
+        const replaced = config.groups.map(({ name }) => this.groups.get(name)).filter((g): g is BroadcastGroup => !!g);
+        config.groups.forEach(({ name }) => this.groups.delete(name));
+        await Promise.allSettled(replaced.map((group) => group.close()));
+
+        // Groups can still fail to build (e.g. an outbox file already in use), so they are
+        // built before anything else is changed, and closed again if one fails.
+        const groups: Record<string, BroadcastGroup> = {};
+        try {
+            config.groups.forEach(({ name, members, options: groupOptions }) => {
+                const group = new BroadcastGroup(name, [], { templates: this.templates, ...groupOptions });
+                groups[name] = group;
+                members.forEach((m) => group.addClient(config.clients[m.client]!, m.alias, m.options));
+            });
+        } catch (err) {
+            await Promise.allSettled(Object.values(groups).map((group) => group.close()));
+            config.transport?.close?.();
+            throw err;
+        }
+
+        if (config.transport) {
+            const previous = getDefaultTransport();
+            if (setDefaultTransport(config.transport) !== previous) previous.close?.();
+        }
+        Object.entries(config.templates).forEach(([name, definition]) => this.templates.define(name, definition));
+        Object.entries(groups).forEach(([name, group]) => this.groups.set(name, group));
+        config.routes.forEach((rule) => this.router.addRule(rule));
+
+        return { clients: config.clients, groups };
+    }
+
     /**
      * Creates a new broadcast group of platform clients.
      * 
@@ -89,15 +313,17 @@ export class logifly {
      *
      * @param {string} name - A unique name for the broadcast group.
      * @param {PlatformClient[]} [clients=[]] - Optional array of clients to include in the group.
+     * @param {GroupOptions} [options={}] - Optional group behaviour such as duplicate suppression.
      * @returns {BroadcastGroup} The newly created broadcast group.
      *
      * @example
      * ```ts
      * const group = log.createGroup('notifications', [discordClient]);
+     * const alerts = log.createGroup('alerts', [discordClient], { dedup: { window: 60_000 } });
      * ```
      */
-    createGroup(name: string, clients: PlatformClient[] = []): BroadcastGroup {
-        const group = new BroadcastGroup(name, clients);
+    createGroup(name: string, clients: PlatformClient[] = [], options: GroupOptions = {}): BroadcastGroup {
+        const group = new BroadcastGroup(name, clients, { templates: this.templates, ...options });
         this.groups.set(name, group);
         return group;
     }
@@ -170,6 +396,238 @@ export class logifly {
         return this.groups.delete(name);
     }
 
+    /**
+     * Appends a routing rule. Rules are evaluated in the order they were added.
+     *
+     * @param {RoutingRule} rule - The rule to add.
+     * @returns {this} The same instance for chaining.
+     * @throws {ConfigurationError} If the rule is invalid.
+     *
+     * @example
+     * ```ts
+     * log.addRoute({
+     *   name: 'payments',
+     *   match: { tags: { service: 'payments', env: 'prod' } },
+     *   groups: ['payments-team'],
+     *   continue: true
+     * });
+     * log.addRoute({ match: { minSeverity: 'critical' }, clients: ['ops:pager'] });
+     * ```
+     */
+    addRoute(rule: RoutingRule): this {
+        this.router.addRule(rule);
+        return this;
+    }
+
+    /**
+     * Lists all routing rules in evaluation order.
+     *
+     * @returns {RoutingRule[]} The registered rules.
+     */
+    listRoutes(): RoutingRule[] {
+        return this.router.list();
+    }
+
+    /**
+     * Removes all routing rules.
+     */
+    clearRoutes(): void {
+        this.router.clear();
+    }
+
+    /**
+     * Routes a message through the routing rules and broadcasts it to every selected
+     * group (or selected clients within a group). Each group receives the message once,
+     * even if several rules select it.
+     *
+     * @param {RoutableMessage} message - Plain text or an embed.
+     * @param {RouteOptions} [options={}] - Tags and severity; embed tags and severity are used as defaults.
+     * @returns {Promise<RouteSummary>} The matched rules and one broadcast summary per group.
+     * @throws {Error} If a rule targets a group that does not exist.
+     *
+     * @example
+     * ```ts
+     * await log.route(
+     *   { title: 'Charge failed', description: 'card_declined', severity: 'error' },
+     *   { tags: { service: 'payments', env: 'prod' } }
+     * );
+     * ```
+     */
+    async route(message: RoutableMessage, options: RouteOptions = {}): Promise<RouteSummary> {
+        const embed = typeof message === "string" ? undefined : message;
+        const tags = { ...embed?.tags, ...options.tags };
+        const severity = options.severity ?? embed?.severity ?? "info";
+
+        const { matchedRules, targets } = this.router.evaluate(message, tags, severity);
+
+        const groups = Array.from(targets.entries()).map(([name, aliases]) => {
+            const group = this.getGroup(name);
+            return aliases ? group.select(Array.from(aliases)) : group;
+        });
+
+        const summaries = await Promise.all(
+            groups.map((group) =>
+                embed
+                    ? group.broadcastEmbed({ ...embed, tags, severity })
+                    : group.broadcast(message, { severity })
+            )
+        );
+
+        return { severity, tags, matchedRules, summaries };
+    }
+
+    /**
+     * Registers a message template that every group can send with `broadcastTemplate()`.
+     * Strings may contain `{{variable}}` placeholders (dotted paths allowed). Defining a
+     * template with an existing name replaces it.
+     *
+     * @param {string} name - Template name.
+     * @param {TemplateDefinition} definition - Title, description, fields, color and optional per-platform payloads.
+     * @returns {this} The same instance for chaining.
+     * @throws {ConfigurationError} If the definition is invalid.
+     *
+     * @example
+     * ```ts
+     * log.defineTemplate('deploy-finished', {
+     *   title: '🚀 {{service}} deployed',
+     *   description: 'Version {{version}} is live in {{env}}.',
+     *   fields: [{ name: 'Commit', value: '{{commit}}', inline: true }],
+     *   color: 0x2ecc71,
+     *   platforms: {
+     *     slack: { blocks: [{ type: 'section', text: { type: 'mrkdwn', text: '*{{service}}* {{version}} is live' } }] }
+     *   }
+     * });
+     *
+     * await log.getGroup('deploys').broadcastTemplate('deploy-finished', {
+     *   service: 'api', version: '1.4.2', env: 'prod', commit: 'a1b2c3d'
+     * });
+     * ```
+     */
+    defineTemplate(name: string, definition: TemplateDefinition): this {
+        this.templates.define(name, definition);
+        return this;
+    }
+
+    /**
+     * Lists the names of all registered templates.
+     *
+     * @returns {string[]} Template names.
+     */
+    listTemplates(): string[] {
+        return this.templates.list();
+    }
+
+    /**
+     * Creates a fire-and-forget logger that broadcasts to a group.
+     * Each call becomes an embed with the logger's context and the call's metadata as fields.
+     *
+     * @param {LoggerOptions} options - Target group, context, level threshold and formatting options.
+     * @returns {Logger} The logger.
+     * @throws {Error} If the group does not exist.
+     *
+     * @example
+     * ```ts
+     * const log = lgfy.logger({ group: 'alerts', context: { service: 'api' }, level: 'warn' });
+     * log.error('Payment failed', { orderId: 42 });
+     * await log.flush();
+     * ```
+     */
+    logger(options: LoggerOptions): Logger {
+        const { group, context, level, ...rest } = options;
+        const forwarder = new LogForwarder(this.getGroup(group), { ...rest, level: level ?? "info" });
+        return new Logger(forwarder, context);
+    }
+
+    /**
+     * Reports uncaught exceptions, unhandled promise rejections and (optionally) `SIGTERM` to a group,
+     * waiting for delivery before the process exits. Stack traces are truncated to fit the group's
+     * platforms; host name, PID, Node version and uptime are added as fields.
+     *
+     * @param {string} groupName - The group that receives the reports.
+     * @param {CaptureOptions} [options={}] - Signal handling, exit behaviour and delivery timeout.
+     * @returns {() => void} A function that removes the installed handlers.
+     * @throws {Error} If the group does not exist.
+     *
+     * @example
+     * ```ts
+     * log.captureProcessErrors('alerts', { sigterm: true, timeout: 3000 });
+     * ```
+     */
+    captureProcessErrors(groupName: string, options: CaptureOptions = {}): () => void {
+        return captureProcessErrors(this.getGroup(groupName), options);
+    }
+
+    /**
+     * Turns dry-run mode on or off for every client and every group without its own `dryRun` option.
+     * In dry-run mode nothing is sent: each client prints the exact payload it would have sent,
+     * with a colored preview of the embed, and broadcast summaries have `dryRun: true`.
+     * Clients that cannot preview are skipped. Defaults to `LOGIFLY_DRY_RUN=true`.
+     *
+     * The setting is process-wide, shared by every logifly instance; a group that needs its
+     * own mode sets the `dryRun` group option.
+     *
+     * @param {DryRunConfig} [config=true] - `true`, `false`, or options for the previews.
+     *
+     * @example
+     * ```ts
+     * logifly.setDryRun(process.env.NODE_ENV !== 'production');
+     * await log.getGroup('alerts').broadcastError('DB', 'db down'); // printed, not sent
+     * ```
+     */
+    static setDryRun(config: DryRunConfig = true): void {
+        setDryRun(config);
+    }
+
+    /**
+     * Same as the static `logifly.setDryRun()`, returning the instance for chaining.
+     * The setting is still process-wide, not specific to this instance.
+     *
+     * @param {DryRunConfig} [config=true] - `true`, `false`, or options for the previews.
+     * @returns {this} The same instance for chaining.
+     */
+    setDryRun(config: DryRunConfig = true): this {
+        logifly.setDryRun(config);
+        return this;
+    }
+
+    /**
+     * Sets the transport every client without its own `transport` option sends its requests with.
+     * By default clients share a `DefaultHttpTransport`, which pools keep-alive connections and
+     * honours `HTTPS_PROXY`, `HTTP_PROXY` and `NO_PROXY`. Email clients speak SMTP and do not use it.
+     *
+     * The default transport is process-wide, shared by the clients of every logifly instance;
+     * a client that needs another one takes it as its `transport` option.
+     *
+     * @param {TransportConfig} config - A transport, or options for a `DefaultHttpTransport`.
+     * @returns {HttpTransport} The transport now in use.
+     * @throws {ConfigurationError} If the proxy is not a URL or the CA file cannot be read.
+     *
+     * @example
+     * ```ts
+     * logifly.setTransport({
+     *   proxy: 'http://proxy.corp:3128',
+     *   caFile: '/etc/ssl/corp-ca.pem',
+     *   onResponse: (res, req) => metrics.observe(req.method, res.status),
+     * });
+     * ```
+     */
+    static setTransport(config: TransportConfig): HttpTransport {
+        return setDefaultTransport(config);
+    }
+
+    /**
+     * Same as the static `logifly.setTransport()`, returning the instance for chaining.
+     * The transport is still process-wide, not specific to this instance.
+     *
+     * @param {TransportConfig} config - A transport, or options for a `DefaultHttpTransport`.
+     * @returns {this} The same instance for chaining.
+     * @throws {ConfigurationError} If the proxy is not a URL or the CA file cannot be read.
+     */
+    setTransport(config: TransportConfig): this {
+        logifly.setTransport(config);
+        return this;
+    }
+
     /**
      * Returns the SDK version currently in use.
      *
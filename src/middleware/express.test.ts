@@ -0,0 +1,54 @@
+import { EventEmitter } from "events";
+import { describe, expect, it } from "@jest/globals";
+import { expressErrorReporter } from "./express";
+import { BroadcastGroup } from "../broadcast";
+import { MemoryClient } from "../clients/Memory";
+
+class FakeResponse extends EventEmitter {
+    [key: symbol]: unknown;
+    constructor(public statusCode: number) {
+        super();
+    }
+}
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+/** Runs a request through the middleware and finishes the response with `status`. */
+const run = async (reporter: ReturnType<typeof expressErrorReporter>, status: number, error?: Error) => {
+    const req = { method: "GET", originalUrl: "/orders/7?expand=1", url: "/7", headers: { "x-request-id": "req-1" } };
+    const res = new FakeResponse(status);
+    const forwarded: unknown[] = [];
+
+    reporter.requestHandler(req, res, () => undefined);
+    if (error) reporter.errorHandler(error, req, res, (e) => forwarded.push(e));
+    res.emit("finish");
+    await settle();
+    return forwarded;
+};
+
+describe("expressErrorReporter", () => {
+    it("reports 5xx responses with the handler's error and forwards it", async () => {
+        const client = new MemoryClient();
+        const reporter = expressErrorReporter(new BroadcastGroup("alerts", []).addClient(client, "ops"));
+        const error = new Error("db down");
+
+        expect(await run(reporter, 500, error)).toEqual([error]);
+        await run(reporter, 404);
+
+        expect(client.sent).toHaveLength(1);
+        expect(client.sent[0]!.embed).toMatchObject({ title: "❌ 500 GET /orders/7", description: expect.stringContaining("db down") });
+        expect(client.sent[0]!.embed!.fields).toContainEqual({ name: "Request ID", value: "req-1", inline: true });
+    });
+
+    it("skips ignored paths on every request", async () => {
+        const client = new MemoryClient();
+        const reporter = expressErrorReporter(new BroadcastGroup("alerts", []).addClient(client, "ops"), {
+            ignorePaths: [/^\/orders\//g],
+        });
+
+        await run(reporter, 500);
+        await run(reporter, 500);
+
+        expect(client.calls).toEqual([]);
+    });
+});
@@ -0,0 +1,85 @@
+import { BroadcastGroup } from "../broadcast";
+import { HttpErrorReporter } from "./reporter";
+import { HttpReporterOptions } from "../types/middleware";
+
+/** The parts of an Express request the reporter reads. */
+interface ExpressRequest {
+    method: string;
+    originalUrl?: string;
+    url: string;
+    headers: Record<string, unknown>;
+    body?: unknown;
+    id?: unknown;
+}
+
+/** The parts of an Express response the reporter reads. */
+interface ExpressResponse {
+    statusCode: number;
+    once(event: "finish", listener: () => void): unknown;
+    [key: symbol]: unknown;
+}
+
+type Next = (error?: unknown) => void;
+
+const TRACKED = Symbol("logifly.tracked");
+const ERROR = Symbol("logifly.error");
+
+/**
+ * Creates Express middleware that reports 5xx responses and handler errors to a broadcast group.
+ *
+ * Mount `requestHandler` before your routes (it measures latency and watches the final status)
+ * and `errorHandler` after them, before your own error handlers (it attaches the thrown error
+ * to the report and passes it on unchanged).
+ *
+ * @param {BroadcastGroup} group - Group that receives the reports.
+ * @param {HttpReporterOptions} [options={}] - Sampling, ignore-lists and redaction.
+ * @returns The request and error middleware.
+ *
+ * @example
+ * ```ts
+ * const reporter = expressErrorReporter(alerts, { ignorePaths: ["/health"], sampleRate: 0.5 });
+ * app.use(reporter.requestHandler);
+ * app.use(routes);
+ * app.use(reporter.errorHandler);
+ * ```
+ */
+export const expressErrorReporter = (group: BroadcastGroup, options: HttpReporterOptions = {}) => {
+    const reporter = new HttpErrorReporter(group, options);
+
+    const track = (req: ExpressRequest, res: ExpressResponse, start?: number) => {
+        if (res[TRACKED]) return;
+        res[TRACKED] = true;
+
+        res.once("finish", () => {
+            const path = (req.originalUrl ?? req.url).split("?")[0] ?? "/";
+            if (!reporter.shouldReport(path, res.statusCode)) return;
+
+            const requestId = req.headers[reporter.requestIdHeader] ?? req.id;
+            reporter.report({
+                method: req.method,
+                path,
+                status: res.statusCode,
+                requestId: requestId === undefined ? undefined : String(requestId),
+                latency: start === undefined ? undefined : Date.now() - start,
+                headers: reporter.pickHeaders(req.headers),
+                body: req.body,
+                error: res[ERROR],
+            });
+        });
+    };
+
+    return {
+        /** Watches every response; mount before the routes. */
+        requestHandler(req: ExpressRequest, res: ExpressResponse, next: Next): void {
+            track(req, res, Date.now());
+            next();
+        },
+
+        /** Records the error for the report and forwards it; mount after the routes. */
+        errorHandler(error: unknown, req: ExpressRequest, res: ExpressResponse, next: Next): void {
+            res[ERROR] = error;
+            track(req, res);
+            next(error);
+        },
+    };
+};
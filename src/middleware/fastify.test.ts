@@ -0,0 +1,31 @@
+import { describe, expect, it } from "@jest/globals";
+import { fastifyErrorReporter } from "./fastify";
+import { BroadcastGroup } from "../broadcast";
+import { MemoryClient } from "../clients/Memory";
+
+type Hook = (...args: any[]) => Promise<void>;
+
+describe("fastifyErrorReporter", () => {
+    it("registers hooks that report failed responses without throwing", async () => {
+        const client = new MemoryClient();
+        const plugin = fastifyErrorReporter(new BroadcastGroup("alerts", []).addClient(client, "ops"));
+        const hooks: Record<string, Hook> = {};
+        await plugin({ addHook: (name: string, hook: Hook) => (hooks[name] = hook) } as any);
+
+        const req = { id: "req-9", method: "POST", url: "/pay?x=1", headers: {}, body: { card: "4242", amount: 10n } };
+        const reply = { statusCode: 502, elapsedTime: 12.4 };
+        await hooks["onError"]!(req, reply, new Error("gateway down"));
+        await expect(hooks["onResponse"]!(req, reply)).resolves.toBeUndefined();
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(client.sent).toHaveLength(1);
+        expect(client.sent[0]!.embed!.title).toBe("❌ 502 POST /pay");
+        expect(client.sent[0]!.embed!.fields).toEqual(
+            expect.arrayContaining([
+                { name: "Request ID", value: "req-9", inline: true },
+                { name: "Latency", value: "12 ms", inline: true },
+            ])
+        );
+        expect((plugin as any)[Symbol.for("skip-override")]).toBe(true);
+    });
+});
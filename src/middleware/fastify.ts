@@ -0,0 +1,73 @@
+import { BroadcastGroup } from "../broadcast";
+import { HttpErrorReporter } from "./reporter";
+import { HttpReporterOptions } from "../types/middleware";
+
+/** The parts of a Fastify request the reporter reads. */
+interface FastifyRequest {
+    id: unknown;
+    method: string;
+    url: string;
+    headers: Record<string, unknown>;
+    body?: unknown;
+    [key: symbol]: unknown;
+}
+
+/** The parts of a Fastify reply the reporter reads. */
+interface FastifyReply {
+    statusCode: number;
+    elapsedTime?: number;
+    getResponseTime?(): number;
+}
+
+/** The parts of a Fastify instance the plugin uses. */
+interface FastifyInstance {
+    addHook(name: "onError", hook: (req: FastifyRequest, reply: FastifyReply, error: unknown) => Promise<void>): unknown;
+    addHook(name: "onResponse", hook: (req: FastifyRequest, reply: FastifyReply) => Promise<void>): unknown;
+}
+
+const ERROR = Symbol("logifly.error");
+
+/**
+ * Creates a Fastify plugin that reports 5xx responses and handler errors to a broadcast group.
+ * The plugin's hooks apply to the whole instance (it is not encapsulated), so register it
+ * before your routes.
+ *
+ * @param {BroadcastGroup} group - Group that receives the reports.
+ * @param {HttpReporterOptions} [options={}] - Sampling, ignore-lists and redaction.
+ * @returns The Fastify plugin.
+ *
+ * @example
+ * ```ts
+ * await app.register(fastifyErrorReporter(alerts, { sampleRate: 0.25 }));
+ * ```
+ */
+export const fastifyErrorReporter = (group: BroadcastGroup, options: HttpReporterOptions = {}) => {
+    const reporter = new HttpErrorReporter(group, options);
+
+    const plugin = async (fastify: FastifyInstance): Promise<void> => {
+        fastify.addHook("onError", async (req, _reply, error) => {
+            req[ERROR] = error;
+        });
+
+        fastify.addHook("onResponse", async (req, reply) => {
+            const path = req.url.split("?")[0] ?? "/";
+            if (!reporter.shouldReport(path, reply.statusCode)) return;
+
+            const requestId = req.headers[reporter.requestIdHeader] ?? req.id;
+            reporter.report({
+                method: req.method,
+                path,
+                status: reply.statusCode,
+                requestId: requestId === undefined ? undefined : String(requestId),
+                latency: reply.elapsedTime ?? reply.getResponseTime?.(),
+                headers: reporter.pickHeaders(req.headers),
+                body: req.body,
+                error: req[ERROR],
+            });
+        });
+    };
+
+    // Equivalent of wrapping with `fastify-plugin`: share the hooks with the parent instance.
+    Object.assign(plugin, { [Symbol.for("skip-override")]: true });
+    return plugin;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "@jest/globals";
+import { koaErrorReporter } from "./koa";
+import { BroadcastGroup } from "../broadcast";
+import { MemoryClient } from "../clients/Memory";
+
+const context = (status = 200) => ({ method: "GET", path: "/reports", status, headers: {}, request: {}, state: { requestId: "r-3" } });
+
+describe("koaErrorReporter", () => {
+    it("reports thrown errors with their status and rethrows them", async () => {
+        const client = new MemoryClient();
+        const middleware = koaErrorReporter(new BroadcastGroup("alerts", []).addClient(client, "ops"));
+        const error = Object.assign(new Error("upstream timeout"), { status: 504 });
+
+        await expect(middleware(context(), async () => Promise.reject(error))).rejects.toBe(error);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(client.sent[0]!.embed!.title).toBe("❌ 504 GET /reports");
+        expect(client.sent[0]!.embed!.fields).toContainEqual({ name: "Request ID", value: "r-3", inline: true });
+    });
+
+    it("reports 5xx statuses set without throwing, unless ignored", async () => {
+        const client = new MemoryClient();
+        const middleware = koaErrorReporter(new BroadcastGroup("alerts", []).addClient(client, "ops"), { ignoreStatus: [503] });
+
+        await middleware(context(500), async () => undefined);
+        await middleware(context(503), async () => undefined);
+        await middleware(context(200), async () => undefined);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(client.sent.map((call) => call.embed!.title)).toEqual(["❌ 500 GET /reports"]);
+    });
+});
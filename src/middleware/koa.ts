@@ -0,0 +1,62 @@
+import { BroadcastGroup } from "../broadcast";
+import { HttpErrorReporter } from "./reporter";
+import { HttpReporterOptions } from "../types/middleware";
+
+/** The parts of a Koa context the reporter reads. */
+interface KoaContext {
+    method: string;
+    path: string;
+    status: number;
+    headers: Record<string, unknown>;
+    request: { body?: unknown };
+    state?: Record<string, unknown>;
+}
+
+/**
+ * Creates Koa middleware that reports 5xx responses and thrown errors to a broadcast group.
+ * Mount it first so it sees errors from every later middleware. Thrown errors are rethrown
+ * unchanged for Koa's own error handling.
+ *
+ * @param {BroadcastGroup} group - Group that receives the reports.
+ * @param {HttpReporterOptions} [options={}] - Sampling, ignore-lists and redaction.
+ * @returns The Koa middleware.
+ *
+ * @example
+ * ```ts
+ * app.use(koaErrorReporter(alerts, { ignoreStatus: [503] }));
+ * ```
+ */
+export const koaErrorReporter = (group: BroadcastGroup, options: HttpReporterOptions = {}) => {
+    const reporter = new HttpErrorReporter(group, options);
+
+    const report = (ctx: KoaContext, status: number, start: number, error?: unknown) => {
+        if (!reporter.shouldReport(ctx.path, status)) return;
+
+        const requestId = ctx.headers[reporter.requestIdHeader] ?? ctx.state?.["requestId"];
+        reporter.report({
+            method: ctx.method,
+            path: ctx.path,
+            status,
+            requestId: requestId === undefined ? undefined : String(requestId),
+            latency: Date.now() - start,
+            headers: reporter.pickHeaders(ctx.headers),
+            body: ctx.request.body,
+            error,
+        });
+    };
+
+    return async (ctx: KoaContext, next: () => Promise<unknown>): Promise<void> => {
+        const start = Date.now();
+
+        try {
+            await next();
+        } catch (error: any) {
+            // Koa responds with the error's status, or 500 when it has none.
+            const status = Number(error?.status ?? error?.statusCode) || 500;
+            report(ctx, status, start, error);
+            throw error;
+        }
+
+        report(ctx, ctx.status, start);
+    };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "@jest/globals";
+import { HttpErrorReporter } from "./reporter";
+import { BroadcastGroup } from "../broadcast";
+import { MemoryClient } from "../clients/Memory";
+
+const setup = (options: ConstructorParameters<typeof HttpErrorReporter>[1] = {}) => {
+    const client = new MemoryClient();
+    const group = new BroadcastGroup("alerts", []).addClient(client, "ops");
+    return { client, reporter: new HttpErrorReporter(group, options) };
+};
+
+const report = { method: "POST", path: "/orders", status: 500, headers: {} };
+
+describe("HttpErrorReporter", () => {
+    it("matches global and sticky ignore patterns on every request", () => {
+        const { reporter } = setup({ ignorePaths: [/^\/internal\//g, /health/y] });
+
+        for (let i = 0; i < 3; i++) {
+            expect(reporter.shouldReport("/internal/jobs", 500)).toBe(false);
+            expect(reporter.shouldReport("health", 500)).toBe(false);
+        }
+        expect(reporter.shouldReport("/orders", 500)).toBe(true);
+        expect(reporter.shouldReport("/orders", 404)).toBe(false);
+    });
+
+    it("redacts sensitive keys and truncates objects past the depth limit", () => {
+        const { reporter } = setup();
+        let deep: Record<string, unknown> = { password: "hunter2" };
+        for (let i = 0; i < 10; i++) deep = { next: deep };
+
+        const embed = reporter.toEmbed({ ...report, body: { token: "abc", user: "ann", deep } });
+        const body = embed.fields.find((f) => f.name === "Body")!.value;
+
+        expect(body).toContain('"token": "[REDACTED]"');
+        expect(body).toContain('"user": "ann"');
+        expect(body).toContain("[TRUNCATED]");
+        expect(body).not.toContain("hunter2");
+    });
+
+    it("reports a body that cannot be serialized instead of throwing", async () => {
+        const { client, reporter } = setup();
+        const circular: Record<string, unknown> = { amount: 10n };
+        circular["self"] = circular;
+
+        expect(() => reporter.report({ ...report, body: { amount: 10n } })).not.toThrow();
+        expect(() => reporter.report({ ...report, body: circular })).not.toThrow();
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(client.sent).toHaveLength(2);
+        expect(client.sent[0]!.embed!.fields!.find((f: { name: string }) => f.name === "Body")).toMatchObject({
+            value: expect.stringContaining("Unserializable"),
+        });
+    });
+});
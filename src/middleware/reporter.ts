@@ -0,0 +1,175 @@
+import { BroadcastGroup } from "../broadcast";
+import { PLATFORM_LIMITS } from "../utils/constants";
+import { HttpErrorReport, HttpReporterOptions } from "../types/middleware";
+
+const DEFAULT_HEADERS = ["user-agent", "content-type", "referer", "x-forwarded-for"];
+
+const DEFAULT_REDACT_KEYS = [
+    "authorization",
+    "cookie",
+    "set-cookie",
+    "x-api-key",
+    "password",
+    "passwd",
+    "secret",
+    "token",
+    "access_token",
+    "refresh_token",
+    "api_key",
+    "apikey",
+    "card",
+    "cvv",
+];
+
+const REDACTED = "[REDACTED]";
+
+/** Nesting depth past which body values are replaced with `[TRUNCATED]`. */
+const MAX_DEPTH = 8;
+const TRUNCATED = "[TRUNCATED]";
+
+/** Shortens text to `max` characters, marking the cut. */
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+/** Body parsers leave `{}` or `""` on requests without a body. */
+const isEmpty = (body: unknown) =>
+    body === undefined || body === null || body === "" || (typeof body === "object" && Object.keys(body).length === 0);
+
+/** Renders a value as a JSON code block that fits in one embed field. */
+const codeBlock = (value: unknown) => {
+    const fence = "```json\n\n```";
+    let json: string;
+    try {
+        json = JSON.stringify(value, null, 2) ?? String(value);
+    } catch (err) {
+        json = `[Unserializable: ${err instanceof Error ? err.message : String(err)}]`;
+    }
+    return `\`\`\`json\n${truncate(json, PLATFORM_LIMITS.discord.fieldValue - fence.length)}\n\`\`\``;
+};
+
+/**
+ * @internal
+ * `HttpErrorReporter` decides which failed requests to report and turns them into embeds.
+ * The framework adapters only translate their request and response objects into an `HttpErrorReport`.
+ */
+export class HttpErrorReporter {
+    private group: BroadcastGroup;
+    private options: HttpReporterOptions;
+    private headers: string[];
+    private redactKeys: Set<string>;
+    private ignorePaths: Array<string | RegExp>;
+
+    /** Header that carries the request ID */
+    readonly requestIdHeader: string;
+
+    constructor(group: BroadcastGroup, options: HttpReporterOptions = {}) {
+        this.group = group;
+        this.options = options;
+        this.headers = (options.headers ?? DEFAULT_HEADERS).map((h) => h.toLowerCase());
+        this.redactKeys = new Set([...DEFAULT_REDACT_KEYS, ...(options.redactKeys ?? [])].map((k) => k.toLowerCase()));
+        this.requestIdHeader = (options.requestIdHeader ?? "x-request-id").toLowerCase();
+        // `test()` on a global or sticky pattern resumes from `lastIndex`; drop those flags so every request matches alike.
+        this.ignorePaths = (options.ignorePaths ?? []).map((pattern) =>
+            typeof pattern === "string" ? pattern : new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ""))
+        );
+    }
+
+    /**
+     * Returns `true` if a response with this path and status should be reported:
+     * a 5xx status that is not ignored, sampled according to `sampleRate`.
+     */
+    shouldReport(path: string, status: number): boolean {
+        if (status < 500) return false;
+        if (this.options.ignoreStatus?.includes(status)) return false;
+
+        const ignored = this.ignorePaths.some((pattern) =>
+            typeof pattern === "string" ? pattern === path : pattern.test(path)
+        );
+        if (ignored) return false;
+
+        return Math.random() < (this.options.sampleRate ?? 1);
+    }
+
+    /**
+     * Picks the configured headers from a request, redacting sensitive values.
+     */
+    pickHeaders(headers: Record<string, unknown>): Record<string, unknown> {
+        const picked: Record<string, unknown> = {};
+        Object.entries(headers).forEach(([key, value]) => {
+            const name = key.toLowerCase();
+            if (this.headers.includes(name)) {
+                picked[name] = this.redactKeys.has(name) ? REDACTED : value;
+            }
+        });
+        return picked;
+    }
+
+    /**
+     * Broadcasts a report in the background. Failures to build or deliver it are swallowed so
+     * reporting never affects the response, nor throws inside the framework's hooks.
+     */
+    report(report: HttpErrorReport): void {
+        Promise.resolve()
+            .then(() => this.group.broadcastEmbed(this.toEmbed(report)))
+            .catch(() => undefined);
+    }
+
+    /**
+     * Builds the error embed for a report.
+     */
+    toEmbed(report: HttpErrorReport) {
+        const limits = PLATFORM_LIMITS.discord;
+        const error = report.error;
+
+        let description = `Request failed with status ${report.status}.`;
+        if (error instanceof Error) {
+            description = `**${error.name}:** ${error.message}`;
+            const stack = error.stack?.split("\n").slice(1).join("\n").trimEnd();
+            if (stack) description += `\n\`\`\`\n${stack}\n\`\`\``;
+        } else if (error !== undefined) {
+            description = String(error);
+        }
+
+        const fields = [
+            { name: "Method", value: report.method, inline: true },
+            { name: "Path", value: truncate(report.path, limits.fieldValue), inline: true },
+            { name: "Status", value: String(report.status), inline: true },
+        ];
+        if (report.requestId) fields.push({ name: "Request ID", value: report.requestId, inline: true });
+        if (report.latency !== undefined) {
+            fields.push({ name: "Latency", value: `${Math.round(report.latency)} ms`, inline: true });
+        }
+        if (Object.keys(report.headers).length > 0) {
+            fields.push({ name: "Headers", value: codeBlock(report.headers), inline: false });
+        }
+        if ((this.options.includeBody ?? true) && !isEmpty(report.body)) {
+            fields.push({ name: "Body", value: codeBlock(this._redact(report.body)), inline: false });
+        }
+
+        return {
+            title: truncate(`❌ ${report.status} ${report.method} ${report.path}`, limits.title),
+            description: truncate(description, limits.description),
+            color: 0xff0000,
+            severity: "error" as const,
+            fields,
+            ...(this.options.name ? { footer: { text: this.options.name } } : {}),
+        };
+    }
+
+    /**
+     * Replaces values of sensitive keys with `[REDACTED]`, and objects nested deeper than
+     * `MAX_DEPTH` with `[TRUNCATED]` so nothing past the limit is sent unredacted.
+     * @private
+     */
+    private _redact(value: unknown, depth = 0): unknown {
+        if (value === null || typeof value !== "object") return value;
+        if (depth > MAX_DEPTH) return TRUNCATED;
+        if (Array.isArray(value)) return value.map((item) => this._redact(item, depth + 1));
+
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [
+                key,
+                this.redactKeys.has(key.toLowerCase()) ? REDACTED : this._redact(item, depth + 1),
+            ])
+        );
+    }
+}
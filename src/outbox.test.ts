@@ -0,0 +1,139 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { Outbox } from "./outbox";
+import { BroadcastGroup } from "./broadcast";
+import { DiscordClient } from "./clients/Discord";
+import { MemoryClient } from "./clients/Memory";
+import { HttpRequest } from "./types/http";
+
+const message = (text: string) => ({ kind: "message" as const, message: text, options: {} });
+const lines = (file: string) => fs.readFileSync(file, "utf8").split("\n").filter(Boolean);
+
+describe("Outbox", () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "logifly-outbox-"));
+        file = path.join(dir, "alerts.jsonl");
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("keeps unacknowledged records across a restart and skips a torn last line", async () => {
+        const outbox = new Outbox({ path: file });
+        const kept = await outbox.add("alerts", "ops", "error", message("db down"));
+        const done = await outbox.add("alerts", "ops", "info", message("recovered"));
+        await outbox.ack(done.id);
+        await outbox.fail(kept.id, "HTTP 503");
+        await outbox.close();
+        fs.appendFileSync(file, '{"op":"ack","id":');
+
+        const reopened = new Outbox({ path: file });
+        const pending = reopened.pending();
+        await reopened.close();
+
+        expect(pending).toHaveLength(1);
+        expect(pending[0]).toMatchObject({ id: kept.id, attempts: 1, lastError: "HTTP 503", payload: message("db down") });
+        expect(lines(file)).toHaveLength(1);
+    });
+
+    it("compacts the log once enough lines are stale", async () => {
+        const outbox = new Outbox({ path: file, compactAfter: 4 });
+        const live = await outbox.add("alerts", "ops", "error", message("live"));
+        for (const text of ["a", "b"]) {
+            const record = await outbox.add("alerts", "ops", "info", message(text));
+            await outbox.ack(record.id);
+        }
+        await outbox.close();
+
+        expect(lines(file).map((line) => JSON.parse(line).record.id)).toEqual([live.id]);
+        expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+    });
+
+    it("dead-letters after maxAttempts and requeues with the remaining payload", async () => {
+        const outbox = new Outbox({ path: file, maxAttempts: 2 });
+        const record = await outbox.add("alerts", "ops", "error", message("split"));
+        const rest = { kind: "parts" as const, parts: [{ message: { content: "part 2" }, options: {} }] };
+
+        expect(await outbox.fail(record.id, "first")).toBe(false);
+        expect(await outbox.fail(record.id, "second", rest)).toBe(true);
+        await outbox.close();
+
+        const reopened = new Outbox({ path: file, maxAttempts: 2 });
+        expect(reopened.deadLetters()[0]).toMatchObject({ status: "dead", payload: rest });
+        expect(await reopened.requeue()).toBe(1);
+        expect(reopened.pending()[0]).toMatchObject({ attempts: 0, payload: rest });
+        await reopened.close();
+    });
+
+    it("refuses a file already open in this process", async () => {
+        const outbox = new Outbox({ path: file });
+        expect(() => new Outbox({ path: file })).toThrow("already in use");
+        await outbox.close();
+    });
+});
+
+describe("group outbox", () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "logifly-outbox-"));
+        file = path.join(dir, "alerts.jsonl");
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("resends only the parts of a split message that were not posted", async () => {
+        const posted: string[] = [];
+        let failNext = false;
+        const transport = {
+            request: async (request: HttpRequest) => {
+                const content = String((request.body as { content?: string }).content).slice(0, 8);
+                if (failNext) {
+                    failNext = false;
+                    return { status: 400, statusText: "Bad Request", headers: {}, data: { message: "nope" } };
+                }
+                posted.push(content);
+                failNext = posted.length === 1;
+                return { status: 200, statusText: "OK", headers: {}, data: { id: String(posted.length) } };
+            },
+        };
+        const discord = new DiscordClient({ webhookUrl: "https://discord.com/api/webhooks/1/abc", transport });
+        const group = new BroadcastGroup("alerts", [], { outbox: { path: file, retryInterval: 0 } }).addClient(
+            discord,
+            "discord"
+        );
+        const text = ["A", "B", "C"].map((c) => c.repeat(1990)).join(" ");
+
+        const summary = await group.broadcast(text);
+        expect(summary.results.discord!.success).toBe(false);
+        expect(group["outbox"]!.pending()[0]!.payload).toMatchObject({ kind: "parts" });
+
+        expect(await group.replayOutbox()).toEqual({ delivered: 1, failed: 0, dead: 0 });
+        expect(posted.map((content) => content[0])).toEqual(["A", "B", "C"]);
+        await group.close();
+    });
+
+    it("bypasses the outbox during a dry run", async () => {
+        const client = new MemoryClient();
+        client.fail();
+        const group = new BroadcastGroup("alerts", [], { outbox: { path: file, retryInterval: 0 }, dryRun: true }).addClient(
+            client,
+            "ops"
+        );
+
+        await group.broadcast("preview only");
+        await group.close();
+
+        expect(client.calls).toHaveLength(1);
+        expect(lines(file)).toEqual([]);
+    });
+});
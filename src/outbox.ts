@@ -0,0 +1,254 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { ConfigurationError } from "./utils/errors";
+import { OutboxOptions, OutboxPayload, OutboxRecord, Severity } from "./types/broadcast";
+
+/**
+ * @internal
+ * One line of the outbox log.
+ */
+type OutboxEvent =
+    | { op: "add"; record: OutboxRecord }
+    | { op: "ack"; id: string }
+    | { op: "fail"; id: string; error: string; dead: boolean; payload?: OutboxPayload }
+    | { op: "requeue"; id: string };
+
+/** Outbox files opened by this process, to prevent two outboxes sharing one log. */
+const openPaths = new Set<string>();
+
+/**
+ * `Outbox` is a durable, file-backed store of deliveries that have not been acknowledged.
+ *
+ * Every change is appended to a JSONL log before the caller continues, so a crash at any
+ * point leaves either the pending record or its acknowledgement on disk. The log is
+ * compacted to the live records whenever it is opened, and again once `compactAfter`
+ * lines describe records that were acknowledged or have changed since.
+ *
+ * @example
+ * ```ts
+ * const outbox = new Outbox({ path: "./.logifly/alerts.jsonl" });
+ * const record = await outbox.add("alerts", "discord", "error", { kind: "message", message: "hi", options: {} });
+ * await outbox.ack(record.id);
+ * ```
+ */
+export class Outbox {
+    /** Attempts before a record is dead-lettered */
+    readonly maxAttempts: number;
+
+    private file: string;
+    private compactAfter: number;
+    /** Lines of the log that compaction would drop. */
+    private stale = 0;
+    private records: Map<string, OutboxRecord> = new Map();
+    private inFlight: Set<string> = new Set();
+    private writing: Promise<void> = Promise.resolve();
+
+    /**
+     * Opens (or creates) the outbox log and loads its live records.
+     * @param options - Outbox location, attempt limit and compaction threshold.
+     * @throws {ConfigurationError} If the path is missing or already open in this process.
+     */
+    constructor(options: OutboxOptions) {
+        if (!options.path) {
+            throw new ConfigurationError("Outbox configuration missing required fields: path");
+        }
+
+        this.file = path.resolve(options.path);
+        this.maxAttempts = Math.max(1, options.maxAttempts ?? 5);
+        this.compactAfter = Math.max(1, options.compactAfter ?? 1000);
+
+        if (openPaths.has(this.file)) {
+            throw new ConfigurationError(`Outbox file '${this.file}' is already in use by another group`);
+        }
+        openPaths.add(this.file);
+
+        this._load();
+    }
+
+    /**
+     * Persists a new pending delivery and marks it as in flight.
+     * @returns The stored record.
+     */
+    async add(group: string, alias: string, severity: Severity, payload: OutboxPayload): Promise<OutboxRecord> {
+        const record: OutboxRecord = {
+            id: randomUUID(),
+            group,
+            alias,
+            severity,
+            payload,
+            status: "pending",
+            attempts: 0,
+            createdAt: new Date().toISOString(),
+        };
+
+        this.records.set(record.id, record);
+        this.inFlight.add(record.id);
+        await this._append({ op: "add", record });
+        return record;
+    }
+
+    /**
+     * Marks a pending record as in flight so the replay worker leaves it alone.
+     * @returns `false` if the record is unknown, dead, or already in flight.
+     */
+    claim(id: string): boolean {
+        const record = this.records.get(id);
+        if (!record || record.status !== "pending" || this.inFlight.has(id)) return false;
+
+        this.inFlight.add(id);
+        return true;
+    }
+
+    /**
+     * Acknowledges a successful delivery and forgets the record.
+     */
+    async ack(id: string): Promise<void> {
+        this.inFlight.delete(id);
+        if (!this.records.delete(id)) return;
+        await this._append({ op: "ack", id });
+    }
+
+    /**
+     * Records a failed attempt. Once `maxAttempts` is reached the record is dead-lettered.
+     * @param payload - What is left to deliver, when the attempt delivered part of the record.
+     * @returns `true` if the record was moved to the dead-letter list.
+     */
+    async fail(id: string, error: string, payload?: OutboxPayload): Promise<boolean> {
+        this.inFlight.delete(id);
+        const record = this.records.get(id);
+        if (!record) return false;
+
+        record.attempts++;
+        record.lastError = error;
+        if (payload) record.payload = payload;
+        const dead = record.attempts >= this.maxAttempts;
+        if (dead) record.status = "dead";
+
+        await this._append({ op: "fail", id, error, dead, ...(payload ? { payload } : {}) });
+        return dead;
+    }
+
+    /**
+     * Moves dead letters back to the pending queue with a fresh attempt count.
+     * @param ids - Records to requeue; all dead letters when omitted.
+     * @returns The number of records requeued.
+     */
+    async requeue(ids?: string[]): Promise<number> {
+        const targets = this.deadLetters().filter((r) => !ids || ids.includes(r.id));
+
+        for (const record of targets) {
+            record.status = "pending";
+            record.attempts = 0;
+            await this._append({ op: "requeue", id: record.id });
+        }
+
+        return targets.length;
+    }
+
+    /**
+     * Pending records that are not currently being delivered, oldest first.
+     */
+    pending(): OutboxRecord[] {
+        return Array.from(this.records.values()).filter(
+            (r) => r.status === "pending" && !this.inFlight.has(r.id)
+        );
+    }
+
+    /**
+     * Records that exhausted their attempts, oldest first.
+     */
+    deadLetters(): OutboxRecord[] {
+        return Array.from(this.records.values()).filter((r) => r.status === "dead");
+    }
+
+    /**
+     * Waits for pending writes and releases the file for reuse in this process.
+     */
+    async close(): Promise<void> {
+        await this.writing;
+        openPaths.delete(this.file);
+    }
+
+    /**
+     * Appends an event to the log; writes are serialized so the log stays ordered.
+     * Once enough lines are stale, the log is rewritten with the live records instead,
+     * as they stand after this event.
+     * @private
+     */
+    private _append(event: OutboxEvent): Promise<void> {
+        // An ack makes its own line and the record's add line stale.
+        if (event.op !== "add") this.stale += event.op === "ack" ? 2 : 1;
+
+        let write: Promise<void>;
+        if (this.stale >= this.compactAfter) {
+            this.stale = 0;
+            const snapshot = this._snapshot();
+            const temp = `${this.file}.tmp`;
+            write = this.writing
+                .then(() => fs.promises.writeFile(temp, snapshot, "utf8"))
+                .then(() => fs.promises.rename(temp, this.file));
+        } else {
+            const line = `${JSON.stringify(event)}\n`;
+            write = this.writing.then(() => fs.promises.appendFile(this.file, line, "utf8"));
+        }
+
+        this.writing = write.catch(() => undefined);
+        return write;
+    }
+
+    /**
+     * The live records as log lines.
+     * @private
+     */
+    private _snapshot(): string {
+        return Array.from(this.records.values())
+            .map((record) => `${JSON.stringify({ op: "add", record })}\n`)
+            .join("");
+    }
+
+    /**
+     * Replays the log into memory, then rewrites it with only the live records.
+     * Unparseable lines (e.g. a torn final write) are skipped.
+     * @private
+     */
+    private _load(): void {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+
+        const content = fs.existsSync(this.file) ? fs.readFileSync(this.file, "utf8") : "";
+        content.split("\n").forEach((line) => {
+            if (!line.trim()) return;
+
+            let event: OutboxEvent;
+            try {
+                event = JSON.parse(line);
+            } catch {
+                return;
+            }
+
+            if (event.op === "add") {
+                this.records.set(event.record.id, event.record);
+                return;
+            }
+
+            const record = this.records.get(event.id);
+            if (!record) return;
+
+            if (event.op === "ack") {
+                this.records.delete(event.id);
+            } else if (event.op === "fail") {
+                record.attempts++;
+                record.lastError = event.error;
+                if (event.payload) record.payload = event.payload;
+                if (event.dead) record.status = "dead";
+            } else if (event.op === "requeue") {
+                record.status = "pending";
+                record.attempts = 0;
+            }
+        });
+
+        const temp = `${this.file}.tmp`;
+        fs.writeFileSync(temp, this._snapshot(), "utf8");
+        fs.renameSync(temp, this.file);
+    }
+}
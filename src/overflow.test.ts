@@ -0,0 +1,229 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+    fitDiscordPayload,
+    fitSlackPayload,
+    fitTeamsPayload,
+    fitTelegramPayload,
+    splitText,
+    TRUNCATION_MARKER,
+    truncateText,
+} from "./overflow";
+import { TeamsClient } from "./clients/Teams";
+import { OverflowError } from "./utils/errors";
+import { DiscordEmbed } from "./types/discord";
+import { SlackBlock } from "./types/slack";
+import { HttpRequest, HttpResponse } from "./types/http";
+
+const bytes = (value: unknown) => Buffer.byteLength(JSON.stringify(value), "utf8");
+
+describe("splitText", () => {
+    it("keeps short text and cuts at paragraph breaks first", () => {
+        const text = `${"a".repeat(60)}\n\n${"b".repeat(30)} ${"c".repeat(30)}`;
+
+        expect(splitText("short", 100)).toEqual(["short"]);
+        expect(splitText(text, 100)).toEqual(["a".repeat(60), `${"b".repeat(30)} ${"c".repeat(30)}`]);
+    });
+
+    it("closes a code block at the cut and reopens it with its language", () => {
+        const text = `\`\`\`js\n${"x".repeat(50)}\n${"y".repeat(50)}\n\`\`\``;
+
+        const pieces = splitText(text, 80);
+
+        expect(pieces).toEqual([`\`\`\`js\n${"x".repeat(50)}\n\`\`\``, `\`\`\`js\n${"y".repeat(50)}\n\`\`\``]);
+        pieces.forEach((piece) => expect(piece.length).toBeLessThanOrEqual(80));
+    });
+
+    it("never cuts a surrogate pair in half", () => {
+        const text = "😀".repeat(60);
+
+        const pieces = splitText(text, 51);
+
+        expect(pieces.join("")).toBe(text);
+        pieces.forEach((piece) => expect(piece.length % 2).toBe(0));
+    });
+});
+
+describe("truncateText", () => {
+    it("cuts at a word boundary and appends the marker", () => {
+        const cut = truncateText("word ".repeat(100), 50);
+
+        expect(truncateText("short", 50)).toBe("short");
+        expect(cut.length).toBeLessThanOrEqual(50);
+        expect(cut).toMatch(/^(word )*word… \(truncated\)$/);
+    });
+
+    it("closes a code block left open by the cut", () => {
+        const cut = truncateText(`\`\`\`\n${"z".repeat(100)}`, 40);
+
+        expect(cut).toBe(`\`\`\`\n${"z".repeat(18)}\n\`\`\`\n${TRUNCATION_MARKER}`);
+        expect(cut.length).toBe(40);
+    });
+});
+
+describe("fitDiscordPayload", () => {
+    const fields = (count: number) => Array.from({ length: count }, (_, i) => ({ name: `F${i + 1}`, value: "v" }));
+
+    it("returns a payload that fits as is and throws under the error policy", () => {
+        const payload = { content: "hi" };
+
+        expect(fitDiscordPayload(payload, "split")[0]).toBe(payload);
+        expect(() => fitDiscordPayload({ content: "x".repeat(2001) }, "error")).toThrow(OverflowError);
+    });
+
+    it("splits long content, keeping send options on every message and components on the last", () => {
+        const messages = fitDiscordPayload({ content: "a ".repeat(2250), username: "bot", components: [{ type: 1 }] }, "split");
+
+        expect(messages).toHaveLength(3);
+        messages.forEach((message) => {
+            expect(message.username).toBe("bot");
+            expect(String(message.content).length).toBeLessThanOrEqual(2000);
+        });
+        expect(messages.map((message) => "components" in message)).toEqual([false, false, true]);
+    });
+
+    it("paginates fields into follow-up embeds that keep the color", () => {
+        const embed: DiscordEmbed = { title: "Hosts", color: 0xff0000, fields: fields(30), footer: { text: "prod" } };
+
+        const [message, ...rest] = fitDiscordPayload({ embeds: [embed] }, "split");
+        const embeds = message!.embeds as DiscordEmbed[];
+
+        expect(rest).toEqual([]);
+        expect(embeds.map((e) => e.fields?.length)).toEqual([25, 5]);
+        expect(embeds[0]).toMatchObject({ title: "Hosts", color: 0xff0000 });
+        expect(embeds[0]!.footer).toBeUndefined();
+        expect(embeds[1]).toMatchObject({ color: 0xff0000, footer: { text: "prod" } });
+    });
+
+    it("counts the fields it drops when truncating", () => {
+        const [message] = fitDiscordPayload({ embeds: [{ title: "Hosts", fields: fields(30) }] }, "truncate");
+        const embed = (message!.embeds as DiscordEmbed[])[0]!;
+
+        expect(embed.fields).toHaveLength(25);
+        expect(embed.fields![24]).toEqual({ name: "…", value: "6 more field(s) truncated" });
+    });
+});
+
+describe("fitSlackPayload", () => {
+    const sections = (count: number): SlackBlock[] =>
+        Array.from({ length: count }, (_, i) => ({ type: "section", text: { type: "mrkdwn", text: `#${i + 1}` } }));
+
+    it("continues long section text in follow-up sections", () => {
+        const block: SlackBlock = { type: "section", block_id: "log", text: { type: "mrkdwn", text: "line\n".repeat(1400) } };
+
+        const [message] = fitSlackPayload({ blocks: [block] }, "split");
+        const blocks = message!.blocks as Array<Extract<SlackBlock, { type: "section" }>>;
+
+        expect(blocks).toHaveLength(3);
+        expect(blocks.map((b) => b.block_id)).toEqual(["log", undefined, undefined]);
+        blocks.forEach((b) => expect(b.text!.text.length).toBeLessThanOrEqual(3000));
+    });
+
+    it("sends 50 blocks per message, with the notification text on the first", () => {
+        const messages = fitSlackPayload({ text: "Deploy report", channel: "#ops", blocks: sections(60) }, "split");
+
+        expect(messages.map((m) => (m.blocks as SlackBlock[]).length)).toEqual([50, 10]);
+        expect(messages.map((m) => m.text)).toEqual(["Deploy report", undefined]);
+        expect(messages.map((m) => m.channel)).toEqual(["#ops", "#ops"]);
+    });
+
+    it("keeps a single message when truncating and splits plain text when splitting", () => {
+        expect(fitSlackPayload({ blocks: sections(60) }, "truncate").map((m) => (m.blocks as SlackBlock[]).length)).toEqual([50]);
+        expect(fitSlackPayload({ text: "word ".repeat(9000) }, "split")).toHaveLength(2);
+    });
+});
+
+describe("fitTelegramPayload", () => {
+    it("splits the text and keeps the reply markup on the last message", () => {
+        const markup = { inline_keyboard: [] };
+
+        const messages = fitTelegramPayload({ chat_id: 1, text: "line\n".repeat(1800), reply_markup: markup }, "split");
+
+        expect(messages).toHaveLength(3);
+        expect(messages.map((m) => m.chat_id)).toEqual([1, 1, 1]);
+        expect(messages.map((m) => m.reply_markup)).toEqual([undefined, undefined, markup]);
+    });
+
+    it("escapes the truncation marker for MarkdownV2", () => {
+        const [message] = fitTelegramPayload({ text: "x".repeat(5000), parse_mode: "MarkdownV2" }, "truncate");
+
+        expect(String(message!.text)).toMatch(/… \\\(truncated\\\)$/);
+        expect(() => fitTelegramPayload({ text: "x".repeat(5000) }, "error")).toThrow("exceeds the limit of 4096");
+    });
+});
+
+describe("fitTeamsPayload", () => {
+    const message = (items: Array<Record<string, unknown>>) => ({
+        type: "message",
+        attachments: [
+            {
+                contentType: "application/vnd.microsoft.card.adaptive",
+                contentUrl: null,
+                content: {
+                    type: "AdaptiveCard",
+                    version: "1.4",
+                    body: [{ type: "Container", style: "attention", items }],
+                    actions: [{ type: "Action.OpenUrl", title: "Open", url: "https://example.com" }],
+                },
+            },
+        ],
+    });
+    const cardOf = (payload: Record<string, unknown>) =>
+        (payload.attachments as Array<{ content: { body: Array<{ style: string; items: any[] }>; actions?: unknown[] } }>)[0]!.content;
+    const description = "All good here. ".repeat(3000);
+    const oversized = message([
+        { type: "TextBlock", text: "Nightly report", weight: "Bolder" },
+        { type: "TextBlock", text: description, wrap: true },
+        { type: "FactSet", facts: Array.from({ length: 30 }, (_, i) => ({ title: `Host ${i}`, value: "ok" })) },
+    ]);
+
+    it("spreads the card over several cards within 28 KB, actions on the last", () => {
+        const messages = fitTeamsPayload(oversized, "split");
+        const cards = messages.map(cardOf);
+
+        expect(messages.length).toBeGreaterThan(1);
+        messages.forEach((m) => expect(bytes(m)).toBeLessThanOrEqual(28000));
+        cards.forEach((card) => expect(card.body[0]!.style).toBe("attention"));
+        expect(cards.map((card) => card.actions !== undefined)).toEqual(cards.map((_, i) => i === cards.length - 1));
+
+        const items = cards.flatMap((card) => card.body[0]!.items);
+        const texts = items.filter((item) => item.type === "TextBlock").map((item) => item.text);
+        expect(texts[0]).toBe("Nightly report");
+        expect(texts.slice(1).join(" ") === description).toBe(true);
+        expect(items.filter((item) => item.type === "FactSet").flatMap((item) => item.facts)).toHaveLength(30);
+    });
+
+    it("cuts the first element that does not fit when truncating", () => {
+        const [truncated] = fitTeamsPayload(oversized, "truncate");
+        const items = cardOf(truncated!).body[0]!.items;
+
+        expect(bytes(truncated)).toBeLessThanOrEqual(28000);
+        expect(items).toHaveLength(2);
+        expect(items[1].text.endsWith(TRUNCATION_MARKER)).toBe(true);
+        expect(cardOf(truncated!).actions).toHaveLength(1);
+    });
+
+    it("throws under the error policy and for payloads that are not a card", () => {
+        expect(fitTeamsPayload(message([]), "error")).toHaveLength(1);
+        expect(() => fitTeamsPayload(oversized, "error")).toThrow(OverflowError);
+        expect(() => fitTeamsPayload({ text: "x".repeat(30000) }, "split")).toThrow("only a single Adaptive Card");
+    });
+});
+
+describe("TeamsClient overflow", () => {
+    it("posts an oversized message as several cards", async () => {
+        const posted: unknown[] = [];
+        const transport = {
+            request: async (request: HttpRequest): Promise<HttpResponse> => {
+                posted.push(request.body);
+                return { status: 200, statusText: "OK", headers: {}, data: "1" };
+            },
+        };
+        const teams = new TeamsClient({ webhookUrl: "https://contoso.webhook.office.com/webhookb2/x", transport });
+
+        const result = await teams.send("log line\n".repeat(5000));
+
+        expect(result.parts).toBe(posted.length);
+        expect(posted.length).toBeGreaterThan(1);
+        posted.forEach((body) => expect(bytes(body)).toBeLessThanOrEqual(28000));
+    });
+});
@@ -0,0 +1,595 @@
+import { PLATFORM_LIMITS } from "./utils/constants";
+import { OverflowError } from "./utils/errors";
+import { DiscordEmbed, DiscordEmbedField } from "./types/discord";
+import { OverflowPolicy } from "./types/overflow";
+import { SlackAttachment, SlackBlock } from "./types/slack";
+import { AdaptiveCard, AdaptiveCardElement } from "./types/teams";
+
+/** Appended to text cut by the `"truncate"` policy. */
+export const TRUNCATION_MARKER = "… (truncated)";
+
+/** Opening or closing code fence, with an optional language. */
+const FENCE = /```([^\s`]{0,20})/g;
+
+/** Characters reserved at every cut to close a code block. */
+const FENCE_CLOSE = "\n```";
+
+/** Returns the opening fence of a code block left open at the end of `text`, or `null`. */
+const openFence = (text: string): string | null => {
+    let open: string | null = null;
+    for (const match of text.matchAll(FENCE)) open = open === null ? match[0] : null;
+    return open;
+};
+
+/**
+ * Finds where to cut `text` so that the first piece has at most `max` characters,
+ * preferring paragraph breaks, then line breaks, then spaces.
+ * @returns The end of the first piece and the start of the rest.
+ */
+const findCut = (text: string, max: number): [number, number] => {
+    for (const separator of ["\n\n", "\n", " "]) {
+        const at = text.lastIndexOf(separator, max);
+        if (at > max / 2) return [at, at + separator.length];
+    }
+    // Never cut a surrogate pair in half.
+    const code = text.charCodeAt(max - 1);
+    const at = code >= 0xd800 && code <= 0xdbff ? max - 1 : max;
+    return [at, at];
+};
+
+/** Splits an array into chunks of at most `size` items. */
+const chunk = <T>(items: T[], size: number): T[][] => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks;
+};
+
+/** Describes a limit that `size` exceeds, or returns `null`. */
+const exceeds = (what: string, size: number, limit: number): string | null =>
+    size > limit ? `${what} (${size}) exceeds the limit of ${limit}` : null;
+
+/**
+ * Splits text into pieces of at most `max` characters, preferring paragraph and line breaks.
+ * A code block open at a cut is closed and reopened (with its language) in the next piece.
+ */
+export const splitText = (text: string, max: number): string[] => {
+    const pieces: string[] = [];
+    let rest = text;
+    while (rest.length > max) {
+        const [end, next] = findCut(rest, max - FENCE_CLOSE.length);
+        let piece = rest.slice(0, end);
+        rest = rest.slice(next);
+
+        const fence = openFence(piece);
+        if (fence) {
+            piece += FENCE_CLOSE;
+            rest = `${fence}\n${rest}`;
+        }
+        pieces.push(piece);
+    }
+    if (rest) pieces.push(rest);
+    return pieces;
+};
+
+/**
+ * Shortens text to at most `max` characters, ending it with `marker`.
+ * A code block left open by the cut is closed first.
+ */
+export const truncateText = (text: string, max: number, marker: string = TRUNCATION_MARKER): string => {
+    if (text.length <= max) return text;
+    let kept = text.slice(0, findCut(text, max - marker.length - FENCE_CLOSE.length - 1)[0]).trimEnd();
+    if (openFence(kept)) kept += `${FENCE_CLOSE}\n`;
+    return `${kept}${marker}`;
+};
+
+/** Splits or truncates text according to the policy. */
+const fitText = (text: string, max: number, policy: OverflowPolicy, marker?: string): string[] =>
+    policy === "split" ? splitText(text, max) : [truncateText(text, max, marker)];
+
+/** Chunks items according to the policy: every chunk when splitting, only the first otherwise. */
+const fitItems = <T>(items: T[], size: number, policy: OverflowPolicy): T[][] =>
+    policy === "split" ? chunk(items, size) : chunk(items, size).slice(0, 1);
+
+// --- Discord ---
+
+/** Characters Discord counts towards the combined size of the embeds in a message. */
+const embedSize = (embed: DiscordEmbed): number =>
+    (embed.title?.length ?? 0) +
+    (embed.description?.length ?? 0) +
+    (embed.footer?.text.length ?? 0) +
+    (embed.author?.name.length ?? 0) +
+    (embed.fields ?? []).reduce((n, f) => n + f.name.length + f.value.length, 0);
+
+/** Describes the first Discord limit the embed exceeds, or returns `null`. */
+const discordEmbedOverflow = (embed: DiscordEmbed): string | null => {
+    const limits = PLATFORM_LIMITS.discord;
+    const fields = embed.fields ?? [];
+    return (
+        exceeds("title", embed.title?.length ?? 0, limits.title) ??
+        exceeds("description", embed.description?.length ?? 0, limits.description) ??
+        exceeds("author name", embed.author?.name.length ?? 0, limits.authorName) ??
+        exceeds("footer", embed.footer?.text.length ?? 0, limits.footer) ??
+        exceeds("fields", fields.length, limits.fieldsPerEmbed) ??
+        fields
+            .map(
+                (f, i) =>
+                    exceeds(`field ${i + 1} name`, f.name.length, limits.fieldName) ??
+                    exceeds(`field ${i + 1} value`, f.value.length, limits.fieldValue)
+            )
+            .find((problem) => problem !== null) ??
+        null
+    );
+};
+
+/** Describes the first Discord limit the payload exceeds, or returns `null` if it fits. */
+const discordOverflow = (payload: Record<string, unknown>): string | null => {
+    const limits = PLATFORM_LIMITS.discord;
+    const content = typeof payload.content === "string" ? payload.content : "";
+    const embeds = Array.isArray(payload.embeds) ? (payload.embeds as DiscordEmbed[]) : [];
+    return (
+        exceeds("content", content.length, limits.content) ??
+        exceeds("embeds", embeds.length, limits.embedsPerMessage) ??
+        embeds
+            .map((embed, i) => {
+                const problem = discordEmbedOverflow(embed);
+                return problem && `embed ${i + 1} ${problem}`;
+            })
+            .find((problem) => problem !== null) ??
+        exceeds(
+            "combined embed text",
+            embeds.reduce((n, e) => n + embedSize(e), 0),
+            limits.charsPerMessage
+        )
+    );
+};
+
+/** Truncates a field's name and value, which cannot be split. */
+const fitEmbedField = (field: DiscordEmbedField): DiscordEmbedField => ({
+    ...field,
+    name: truncateText(field.name, PLATFORM_LIMITS.discord.fieldName),
+    value: truncateText(field.value, PLATFORM_LIMITS.discord.fieldValue),
+});
+
+/** Truncates the title, author name and footer of an embed, which cannot be split. */
+const fitEmbedHead = (embed: DiscordEmbed): DiscordEmbed => {
+    const limits = PLATFORM_LIMITS.discord;
+    const fitted: DiscordEmbed = { ...embed };
+    if (embed.title) fitted.title = truncateText(embed.title, limits.title);
+    if (embed.author) fitted.author = { ...embed.author, name: truncateText(embed.author.name, limits.authorName) };
+    if (embed.footer) fitted.footer = { ...embed.footer, text: truncateText(embed.footer.text, limits.footer) };
+    return fitted;
+};
+
+/**
+ * Splits an embed into a sequence of embeds within Discord's limits: the description continues in
+ * follow-up embeds and fields are paginated. Title and author stay on the first embed; footer,
+ * timestamp and image move to the last one. Continuations keep the accent color.
+ */
+const splitEmbed = (embed: DiscordEmbed): DiscordEmbed[] => {
+    const limits = PLATFORM_LIMITS.discord;
+    const { description, fields, footer, timestamp, image, ...head } = fitEmbedHead(embed);
+    const continuation = (): DiscordEmbed => (embed.color === undefined ? {} : { color: embed.color });
+
+    const first: DiscordEmbed = head;
+    const pages: DiscordEmbed[] = [first];
+    splitText(description ?? "", limits.description).forEach((part, i) => {
+        if (i === 0) first.description = part;
+        else pages.push({ ...continuation(), description: part });
+    });
+
+    // Leave room for the footer, which is added to whichever embed ends up last.
+    const budget = limits.charsPerMessage - (footer?.text.length ?? 0);
+    let page = pages[pages.length - 1] as DiscordEmbed;
+    for (const field of (fields ?? []).map(fitEmbedField)) {
+        const full = (page.fields?.length ?? 0) >= limits.fieldsPerEmbed;
+        if (full || embedSize(page) + field.name.length + field.value.length > budget) {
+            page = continuation();
+            pages.push(page);
+        }
+        page.fields = [...(page.fields ?? []), field];
+    }
+
+    if (footer) page.footer = footer;
+    if (timestamp) page.timestamp = timestamp;
+    if (image) page.image = image;
+    return pages;
+};
+
+/**
+ * Truncates an embed to fit a message on its own: texts are cut with the truncation marker and
+ * fields that do not fit are replaced by a final field counting them.
+ */
+const truncateEmbed = (embed: DiscordEmbed): DiscordEmbed => {
+    const limits = PLATFORM_LIMITS.discord;
+    const { fields, ...rest } = fitEmbedHead(embed);
+    const fitted: DiscordEmbed = rest;
+    if (rest.description) fitted.description = truncateText(rest.description, limits.description);
+
+    let kept = (fields ?? []).map(fitEmbedField);
+    let dropped = 0;
+    const withMarker = (): DiscordEmbedField[] =>
+        dropped > 0 ? [...kept, { name: "…", value: `${dropped} more field(s) truncated` }] : kept;
+    while (
+        kept.length > 0 &&
+        (withMarker().length > limits.fieldsPerEmbed ||
+            embedSize({ ...fitted, fields: withMarker() }) > limits.charsPerMessage)
+    ) {
+        kept = kept.slice(0, -1);
+        dropped++;
+    }
+    if (fields) fitted.fields = withMarker();
+
+    const excess = embedSize(fitted) - limits.charsPerMessage;
+    if (excess > 0 && fitted.description) {
+        fitted.description = truncateText(fitted.description, Math.max(0, fitted.description.length - excess));
+    }
+    return fitted;
+};
+
+/**
+ * Fits a Discord webhook payload to Discord's limits.
+ *
+ * With `"split"`, long content becomes several messages, long descriptions continue in follow-up
+ * embeds, fields are paginated 25 per embed and embeds are packed into messages of at most 10
+ * embeds and 6000 characters. Components stay on the last message. With `"truncate"`, a single
+ * message is returned and embeds that do not fit are dropped.
+ *
+ * @param {Record<string, unknown>} payload - The webhook payload.
+ * @param {OverflowPolicy} policy - What to do when the payload exceeds a limit.
+ * @returns {Record<string, unknown>[]} The payloads to post, in order. A payload that fits is returned unchanged.
+ * @throws {OverflowError} If the payload exceeds a limit and the policy is `"error"`.
+ */
+export const fitDiscordPayload = (
+    payload: Record<string, unknown>,
+    policy: OverflowPolicy
+): Record<string, unknown>[] => {
+    const problem = discordOverflow(payload);
+    if (!problem) return [payload];
+    if (policy === "error") throw new OverflowError("Discord", problem);
+
+    const limits = PLATFORM_LIMITS.discord;
+    const { content, embeds, components, ...base } = payload;
+    const text = typeof content === "string" ? content : "";
+    const source = Array.isArray(embeds) ? (embeds as DiscordEmbed[]) : [];
+
+    if (policy === "truncate") {
+        const message: Record<string, unknown> = { ...base };
+        if (text) message.content = truncateText(text, limits.content);
+
+        const kept: DiscordEmbed[] = [];
+        let size = 0;
+        for (const embed of source.slice(0, limits.embedsPerMessage).map(truncateEmbed)) {
+            size += embedSize(embed);
+            if (size > limits.charsPerMessage) break;
+            kept.push(embed);
+        }
+        if (kept.length > 0) message.embeds = kept;
+        if (components !== undefined) message.components = components;
+        return [message];
+    }
+
+    const messages: Record<string, unknown>[] = splitText(text, limits.content).map((part) => ({
+        ...base,
+        content: part,
+    }));
+
+    // Embeds follow the last piece of content, then fill further messages.
+    let current = messages[messages.length - 1];
+    let count = 0;
+    let size = 0;
+    for (const embed of source.flatMap(splitEmbed)) {
+        const embedChars = embedSize(embed);
+        if (!current || count >= limits.embedsPerMessage || size + embedChars > limits.charsPerMessage) {
+            current = { ...base };
+            messages.push(current);
+            count = 0;
+            size = 0;
+        }
+        current.embeds = [...((current.embeds as DiscordEmbed[] | undefined) ?? []), embed];
+        count++;
+        size += embedChars;
+    }
+
+    if (messages.length === 0) messages.push({ ...base });
+    if (components !== undefined) (messages[messages.length - 1] as Record<string, unknown>).components = components;
+    return messages;
+};
+
+// --- Slack ---
+
+type SlackSection = Extract<SlackBlock, { type: "section" }>;
+
+/** Describes the first Slack limit the block exceeds, or returns `null`. */
+const slackBlockOverflow = (block: SlackBlock): string | null => {
+    const limits = PLATFORM_LIMITS.slack;
+    switch (block.type) {
+        case "header":
+            return exceeds("header text", block.text.text.length, limits.headerText);
+        case "section":
+            return (
+                exceeds("section text", block.text?.text.length ?? 0, limits.sectionText) ??
+                exceeds("section fields", block.fields?.length ?? 0, limits.fieldsPerSection) ??
+                (block.fields ?? [])
+                    .map((f) => exceeds("field text", f.text.length, limits.fieldText))
+                    .find((problem) => problem !== null) ??
+                null
+            );
+        case "context":
+            return exceeds("context elements", block.elements.length, limits.contextElements);
+        case "actions":
+            return exceeds("buttons", block.elements.length, limits.buttonsPerBlock);
+        default:
+            return null;
+    }
+};
+
+/** Describes the first Slack limit the payload exceeds, or returns `null` if it fits. */
+const slackOverflow = (payload: Record<string, unknown>): string | null => {
+    const limits = PLATFORM_LIMITS.slack;
+    const text = typeof payload.text === "string" ? payload.text : "";
+    const blocks = Array.isArray(payload.blocks) ? (payload.blocks as SlackBlock[]) : [];
+    const attachments = Array.isArray(payload.attachments) ? (payload.attachments as SlackAttachment[]) : [];
+    return (
+        exceeds("text", text.length, limits.text) ??
+        exceeds("blocks", blocks.length, limits.blocksPerMessage) ??
+        blocks
+            .map((block, i) => {
+                const problem = slackBlockOverflow(block);
+                return problem && `block ${i + 1} ${problem}`;
+            })
+            .find((problem) => problem !== null) ??
+        exceeds("attachments", attachments.length, limits.attachmentsPerMessage) ??
+        attachments
+            .map((a, i) => exceeds(`attachment ${i + 1} text`, a.text?.length ?? 0, limits.attachmentText))
+            .find((problem) => problem !== null) ??
+        null
+    );
+};
+
+/**
+ * Fits a block to Slack's limits. Long section text continues in follow-up sections and fields,
+ * context elements and buttons are spread over several blocks; only the first keeps the `block_id`.
+ */
+const fitSlackBlock = (block: SlackBlock, policy: OverflowPolicy): SlackBlock[] => {
+    const limits = PLATFORM_LIMITS.slack;
+    switch (block.type) {
+        case "header":
+            return [{ ...block, text: { ...block.text, text: truncateText(block.text.text, limits.headerText) } }];
+        case "section": {
+            const { text, fields, ...rest } = block;
+            const sections: SlackSection[] = text
+                ? fitText(text.text, limits.sectionText, policy).map((part) => ({
+                      type: "section",
+                      text: { ...text, text: part },
+                  }))
+                : [];
+            const groups = fitItems(
+                (fields ?? []).map((f) => ({ ...f, text: truncateText(f.text, limits.fieldText) })),
+                limits.fieldsPerSection,
+                policy
+            );
+            groups.forEach((group, i) => {
+                const last = sections[sections.length - 1];
+                if (i === 0 && last) last.fields = group;
+                else sections.push({ type: "section", fields: group });
+            });
+            if (sections[0]) Object.assign(sections[0], rest);
+            return sections;
+        }
+        case "context":
+            return fitItems(block.elements, limits.contextElements, policy).map((elements, i) =>
+                i === 0 ? { ...block, elements } : { type: "context", elements }
+            );
+        case "actions":
+            return fitItems(block.elements, limits.buttonsPerBlock, policy).map((elements, i) =>
+                i === 0 ? { ...block, elements } : { type: "actions", elements }
+            );
+        default:
+            return [block];
+    }
+};
+
+/** Fits an attachment's text to Slack's limit; continuations keep the color. */
+const fitSlackAttachment = (attachment: SlackAttachment, policy: OverflowPolicy): SlackAttachment[] => {
+    if (!attachment.text) return [attachment];
+    return fitText(attachment.text, PLATFORM_LIMITS.slack.attachmentText, policy).map((text, i) =>
+        i === 0 ? { ...attachment, text } : { color: attachment.color, text }
+    );
+};
+
+/**
+ * Fits a Slack webhook payload to Slack's limits.
+ *
+ * With `"split"`, long section texts continue in follow-up sections, blocks are sent 50 per message
+ * and attachments 20 per message, after the blocks. Without blocks, long `text` is split into
+ * several messages; alongside blocks it is only the notification text and is truncated.
+ * With `"truncate"`, a single message is returned and blocks and attachments beyond the limits are dropped.
+ *
+ * @param payload - The webhook payload.
+ * @param policy - What to do when the payload exceeds a limit.
+ * @returns The payloads to post, in order. A payload that fits is returned unchanged.
+ * @throws {OverflowError} If the payload exceeds a limit and the policy is `"error"`.
+ */
+export const fitSlackPayload = (payload: Record<string, unknown>, policy: OverflowPolicy): Record<string, unknown>[] => {
+    const problem = slackOverflow(payload);
+    if (!problem) return [payload];
+    if (policy === "error") throw new OverflowError("Slack", problem);
+
+    const limits = PLATFORM_LIMITS.slack;
+    const { text, blocks, attachments, ...base } = payload;
+    const notification = typeof text === "string" ? text : "";
+    const fittedBlocks = Array.isArray(blocks)
+        ? (blocks as SlackBlock[]).flatMap((block) => fitSlackBlock(block, policy))
+        : [];
+    const fittedAttachments = Array.isArray(attachments)
+        ? (attachments as SlackAttachment[]).flatMap((attachment) => fitSlackAttachment(attachment, policy))
+        : [];
+
+    const messages: Record<string, unknown>[] = [];
+    if (fittedBlocks.length > 0) {
+        fitItems(fittedBlocks, limits.blocksPerMessage, policy).forEach((group, i) =>
+            messages.push(
+                i === 0 && notification
+                    ? { ...base, text: truncateText(notification, limits.text), blocks: group }
+                    : { ...base, blocks: group }
+            )
+        );
+    } else if (notification) {
+        fitText(notification, limits.text, policy).forEach((part) => messages.push({ ...base, text: part }));
+    }
+
+    fitItems(fittedAttachments, limits.attachmentsPerMessage, policy).forEach((group, i) => {
+        const last = messages[messages.length - 1];
+        if (i === 0 && last) last.attachments = group;
+        else messages.push({ ...base, attachments: group });
+    });
+
+    return messages;
+};
+
+// --- Telegram ---
+
+/**
+ * Fits a Telegram `sendMessage` body to Telegram's text limit. With `"split"`, the text is sent as
+ * several messages, cut at line breaks where possible so formatting tags stay intact, and the reply
+ * markup stays on the last one. The limit is applied to the text before entity parsing.
+ *
+ * @param {Record<string, unknown>} payload - The `sendMessage` body.
+ * @param {OverflowPolicy} policy - What to do when the text exceeds the limit.
+ * @returns {Record<string, unknown>[]} The bodies to post, in order.
+ * @throws {OverflowError} If the text exceeds the limit and the policy is `"error"`.
+ */
+export const fitTelegramPayload = (
+    payload: Record<string, unknown>,
+    policy: OverflowPolicy
+): Record<string, unknown>[] => {
+    const limit = PLATFORM_LIMITS.telegram.text;
+    const text = typeof payload.text === "string" ? payload.text : "";
+    const problem = exceeds("text", text.length, limit);
+    if (!problem) return [payload];
+    if (policy === "error") throw new OverflowError("Telegram", problem);
+
+    const { reply_markup, ...base } = payload;
+    // Parentheses are reserved characters in MarkdownV2.
+    const marker = payload.parse_mode === "MarkdownV2" ? TRUNCATION_MARKER.replace(/[()]/g, "\\$&") : undefined;
+    const parts = fitText(text, limit, policy, marker);
+    return parts.map((part, i) =>
+        i === parts.length - 1 && reply_markup !== undefined ? { ...base, text: part, reply_markup } : { ...base, text: part }
+    );
+};
+
+// --- Teams ---
+
+/** Characters per TextBlock when splitting: at most 4 bytes each in UTF-8, so a piece fits in a card. */
+const TEAMS_TEXT_CHUNK = 4000;
+
+/** Facts per FactSet when splitting. */
+const TEAMS_FACTS_CHUNK = 10;
+
+/** Bytes of a payload once serialized, which is what Teams limits. */
+const byteSize = (value: unknown): number => Buffer.byteLength(JSON.stringify(value), "utf8");
+
+const isCard = (value: unknown): value is AdaptiveCard =>
+    typeof value === "object" &&
+    value !== null &&
+    (value as { type?: unknown }).type === "AdaptiveCard" &&
+    Array.isArray((value as { body?: unknown }).body);
+
+/** Splits a TextBlock's text and a FactSet's facts into several elements of the same kind. */
+const splitCardElement = (element: AdaptiveCardElement): AdaptiveCardElement[] => {
+    if (element.type === "TextBlock" && typeof element.text === "string" && element.text.length > TEAMS_TEXT_CHUNK) {
+        return splitText(element.text, TEAMS_TEXT_CHUNK).map((text) => ({ ...element, text }));
+    }
+    if (element.type === "FactSet" && Array.isArray(element.facts) && element.facts.length > TEAMS_FACTS_CHUNK) {
+        return chunk(element.facts, TEAMS_FACTS_CHUNK).map((facts) => ({ ...element, facts }));
+    }
+    return [element];
+};
+
+/**
+ * Fits a Teams message to Teams' payload size limit (28 KB).
+ *
+ * Only a message wrapping a single Adaptive Card can be fitted; the elements of its body, or of
+ * the container that holds the whole body, are what is split or cut. With `"split"`, long texts
+ * and fact sets are broken up and the elements are spread over several cards in order; each card
+ * keeps the container's style and the actions stay on the last one. With `"truncate"`, a single
+ * card is returned: the first element that does not fit is cut with the truncation marker, and
+ * the ones after it are dropped.
+ *
+ * @param {Record<string, unknown>} payload - The Teams message payload.
+ * @param {OverflowPolicy} policy - What to do when the payload exceeds the limit.
+ * @returns {Record<string, unknown>[]} The payloads to post, in order. A payload that fits is returned unchanged.
+ * @throws {OverflowError} If the payload exceeds the limit and the policy is `"error"`, the payload
+ * is not a card, or a single element does not fit in a card of its own.
+ */
+export const fitTeamsPayload = (payload: Record<string, unknown>, policy: OverflowPolicy): Record<string, unknown>[] => {
+    const limit = PLATFORM_LIMITS.teams.payload;
+    const problem = exceeds("payload bytes", byteSize(payload), limit);
+    if (!problem) return [payload];
+    if (policy === "error") throw new OverflowError("Teams", problem);
+
+    const attachments = Array.isArray(payload.attachments) ? (payload.attachments as Array<Record<string, unknown>>) : [];
+    const attachment = attachments[0];
+    const card = attachment?.content;
+    if (attachments.length !== 1 || !attachment || !isCard(card)) {
+        throw new OverflowError("Teams", `${problem}, and only a single Adaptive Card can be split or truncated`);
+    }
+
+    const { actions, ...rest } = card;
+    const first = card.body[0];
+    const container = card.body.length === 1 && first?.type === "Container" && Array.isArray(first.items) ? first : null;
+    const elements = (container ? container.items : card.body) as AdaptiveCardElement[];
+
+    /** Wraps body elements in a copy of the message; only the last card keeps the actions. */
+    const build = (items: AdaptiveCardElement[], last: boolean): Record<string, unknown> => {
+        const content: AdaptiveCard = { ...rest, body: container ? [{ ...container, items }] : items };
+        if (last && actions) content.actions = actions;
+        return { ...payload, attachments: [{ ...attachment, content }] };
+    };
+    const fits = (items: AdaptiveCardElement[], last: boolean) => byteSize(build(items, last)) <= limit;
+
+    if (policy === "truncate") {
+        const kept: AdaptiveCardElement[] = [];
+        for (const element of elements) {
+            if (fits([...kept, element], true)) {
+                kept.push(element);
+                continue;
+            }
+            if (element.type === "TextBlock" && typeof element.text === "string") {
+                // Start from the bytes left, one per character at best, and shorten until it fits.
+                let max = Math.min(element.text.length, limit - byteSize(build([...kept, { ...element, text: "" }], true)));
+                let text: string | null = null;
+                for (; max > TRUNCATION_MARKER.length + FENCE_CLOSE.length + 1; max = Math.floor(max * 0.9)) {
+                    const candidate = truncateText(element.text, max);
+                    if (fits([...kept, { ...element, text: candidate }], true)) {
+                        text = candidate;
+                        break;
+                    }
+                }
+                if (text !== null) kept.push({ ...element, text });
+            } else {
+                const marker = { type: "TextBlock", text: TRUNCATION_MARKER, isSubtle: true, wrap: true };
+                if (fits([...kept, marker], true)) kept.push(marker);
+            }
+            break;
+        }
+        return [build(kept, true)];
+    }
+
+    const pages: AdaptiveCardElement[][] = [[]];
+    for (const element of elements.flatMap(splitCardElement)) {
+        const page = pages[pages.length - 1] as AdaptiveCardElement[];
+        if (page.length > 0 && !fits([...page, element], false)) pages.push([element]);
+        else page.push(element);
+    }
+    // Make room for the actions on the last card.
+    const last = pages[pages.length - 1] as AdaptiveCardElement[];
+    if (!fits(last, true) && last.length > 1) pages.push([last.pop() as AdaptiveCardElement]);
+
+    const messages = pages.map((items, i) => build(items, i === pages.length - 1));
+    const oversized = messages.find((message) => byteSize(message) > limit);
+    if (oversized) {
+        throw new OverflowError("Teams", `${problem}, and an element does not fit in a card of its own`);
+    }
+    return messages;
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "@jest/globals";
+import { BroadcastGroup } from "./broadcast";
+import { MemoryClient } from "./clients/Memory";
+import { DiscordClient } from "./clients/Discord";
+import { SlackClient } from "./clients/Slack";
+import { createRedactor } from "./redaction";
+import { HttpRequest, HttpResponse } from "./types/http";
+
+/** A transport that records the parsed body of every request. */
+const recorder = () => {
+    const bodies: Array<Record<string, unknown>> = [];
+    const transport = {
+        request: async (request: HttpRequest): Promise<HttpResponse> => {
+            bodies.push(typeof request.body === "string" ? JSON.parse(request.body) : (request.body as Record<string, unknown>));
+            return { status: 200, statusText: "OK", headers: {}, data: { id: "1" } };
+        },
+    };
+    return { bodies, transport };
+};
+
+describe("createRedactor", () => {
+    it("redacts every string of a value and counts the matches", () => {
+        const redactor = createRedactor(true)!;
+        const { value, count } = redactor.redact({
+            title: "Login failed for alice@example.com",
+            fields: [{ name: "Auth", value: "Authorization: Bearer abc.def.ghi" }],
+        });
+
+        expect(value.title).toBe("Login failed for [REDACTED]");
+        expect(value.fields[0]!.value).not.toContain("abc.def.ghi");
+        expect(count).toBe(2);
+    });
+
+    it("is off for false and undefined", () => {
+        expect(createRedactor(false)).toBeNull();
+        expect(createRedactor(undefined)).toBeUndefined();
+    });
+});
+
+describe("group redaction", () => {
+    it("redacts the message but leaves send options untouched", async () => {
+        const client = new MemoryClient();
+        const group = new BroadcastGroup("alerts", [], { redact: true }).addClient(client, "mail");
+        const options = { to: ["oncall@example.com"], avatarUrl: "https://example.com/a.png?token=secret123" };
+
+        const summary = await group.broadcast("Reset link sent to bob@example.com", options);
+
+        expect(client.sent[0]!.message).toBe("Reset link sent to [REDACTED]");
+        expect(client.sent[0]!.options).toEqual(options);
+        expect(summary.results.mail!.redactions).toBe(1);
+    });
+
+    it("redacts embeds and rich messages", async () => {
+        const client = new MemoryClient();
+        const group = new BroadcastGroup("alerts", [], { redact: true }).addClient(client, "ops");
+
+        await group.broadcastEmbed({ title: "Leak", description: "contact carol@example.com" });
+        await group.broadcastRich({ blocks: [{ type: "section", text: "dave@example.com" }] });
+
+        expect(client.sent[0]!.embed?.description).toBe("contact [REDACTED]");
+        expect(JSON.stringify(client.sent[1]!.rich)).not.toContain("dave@example.com");
+    });
+
+    it("lets a client opt out of the group's redaction", async () => {
+        const client = new MemoryClient();
+        const group = new BroadcastGroup("alerts", [], { redact: true }).addClient(client, "audit", { redact: false });
+
+        await group.broadcast("erin@example.com");
+
+        expect(client.sent[0]!.message).toBe("erin@example.com");
+    });
+});
+
+describe("client redaction", () => {
+    const avatar = "https://example.com/a.png?token=secret123";
+
+    it("redacts a Discord payload's content but not its send options", async () => {
+        const { bodies, transport } = recorder();
+        const discord = new DiscordClient({
+            webhookUrl: "https://discord.com/api/webhooks/1/abc",
+            avatarUrl: avatar,
+            redact: true,
+            transport,
+        });
+
+        const result = await discord.send({ embeds: [{ title: "Leak", description: "token=secret123" }] });
+
+        expect(bodies[0]!.avatar_url).toBe(avatar);
+        expect(JSON.stringify(bodies[0]!.embeds)).not.toContain("secret123");
+        expect(result.redactions).toBe(1);
+    });
+
+    it("redacts a Slack payload's content but not its send options", async () => {
+        const { bodies, transport } = recorder();
+        const slack = new SlackClient({
+            webhookUrl: "https://hooks.slack.com/services/T0/B0/x",
+            iconUrl: avatar,
+            channel: "#password=hunter2",
+            redact: true,
+            transport,
+        });
+
+        await slack.send("Reset link sent to bob@example.com");
+
+        expect(bodies[0]).toMatchObject({ icon_url: avatar, channel: "#password=hunter2", text: "Reset link sent to [REDACTED]" });
+    });
+});
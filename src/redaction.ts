@@ -0,0 +1,211 @@
+import { ConfigurationError } from "./utils/errors";
+import { RedactionConfig, RedactionDetector, RedactionOptions, RedactionRule } from "./types/redaction";
+
+/**
+ * @internal
+ * A detector replaces what it finds in a text and reports how many replacements it made.
+ */
+type Detector = (text: string, replacement: string) => { text: string; count: number };
+
+/** Replaces every match of `pattern`; `keep` selects a leading group to preserve (e.g. `Bearer `). */
+const byPattern = (pattern: RegExp, keep?: (match: RegExpExecArray) => string): Detector => (text, replacement) => {
+    let count = 0;
+    const global = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`);
+    const result = text.replace(global, (...args) => {
+        const match = args.slice(0, -2) as unknown as RegExpExecArray;
+        const redacted = `${keep ? keep(match) : ""}${replacement}`;
+        // Text that was already redacted (e.g. by the group, then by the client) is not counted again.
+        if (match[0] === redacted) return redacted;
+        count++;
+        return redacted;
+    });
+    return { text: result, count };
+};
+
+/** Luhn checksum, so long numbers such as order IDs are not mistaken for card numbers. */
+const luhn = (digits: string): boolean => {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+};
+
+const DETECTORS: Record<RedactionDetector, Detector[]> = {
+    jwts: [byPattern(/\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/)],
+    tokens: [
+        // Authorization header values
+        byPattern(/\b(Bearer|Basic|Token)\s+[\w\-.~+/]+=*/i, (m) => `${m[1]} `),
+        // key=value and "key": "value" pairs with sensitive key names
+        byPattern(
+            /\b((?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|refresh[_-]?token|auth[_-]?token|client[_-]?secret|token)["']?\s*[:=]\s*["']?)[^\s"',;&]+/i,
+            (m) => m[1] ?? ""
+        ),
+        // Well-known credential formats: Slack, GitHub, AWS, Stripe, Google, OpenAI-style keys
+        byPattern(/\bxox[abposr]-[\w-]{10,}/),
+        byPattern(/\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})/),
+        byPattern(/\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/),
+        byPattern(/\b[rsp]k_(?:live|test)_[0-9a-zA-Z]{16,}/),
+        byPattern(/\bAIza[\w-]{35}/),
+        byPattern(/\bsk-[\w-]{20,}/),
+        // Webhook URLs embed their secret in the path
+        byPattern(/(https:\/\/hooks\.slack\.com\/services\/)[\w/]+/, (m) => m[1] ?? ""),
+        byPattern(/(https:\/\/(?:\w+\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/)[\w-]+/, (m) => m[1] ?? ""),
+    ],
+    emails: [byPattern(/\b[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/)],
+    creditCards: [
+        (text, replacement) => {
+            let count = 0;
+            const result = text.replace(/\b\d(?:[ -]?\d){12,18}\b/g, (match) => {
+                if (!luhn(match.replace(/\D/g, ""))) return match;
+                count++;
+                return replacement;
+            });
+            return { text: result, count };
+        },
+    ],
+};
+
+/** Order in which built-in detectors run: JWTs before generic tokens so they are counted once. */
+const DETECTOR_ORDER: RedactionDetector[] = ["jwts", "tokens", "emails", "creditCards"];
+
+/**
+ * `Redactor` scrubs secrets and personal data from outgoing payloads.
+ * Every string in a payload — however deeply nested — passes through the built-in detectors
+ * and custom rules; the number of replacements is reported for auditing.
+ *
+ * @example
+ * ```ts
+ * const redactor = new Redactor({ detectors: ["tokens", "jwts"], rules: [/\bACCT-\d+\b/] });
+ * redactor.redact({ text: "Authorization: Bearer abc.def" });
+ * // { value: { text: "Authorization: Bearer [REDACTED]" }, count: 1 }
+ * ```
+ */
+export class Redactor {
+    private detectors: Detector[];
+    private replacement: string;
+
+    /**
+     * @param options - Detectors, custom rules and replacement text.
+     * @throws {ConfigurationError} If a detector name or rule is invalid.
+     */
+    constructor(options: RedactionOptions = {}) {
+        this.replacement = options.replacement ?? "[REDACTED]";
+
+        const enabled = options.detectors ?? DETECTOR_ORDER;
+        enabled.forEach((name) => {
+            if (!DETECTORS[name]) {
+                throw new ConfigurationError(
+                    `Unknown redaction detector '${name}'. Expected one of: ${DETECTOR_ORDER.join(", ")}`
+                );
+            }
+        });
+
+        this.detectors = [
+            ...DETECTOR_ORDER.filter((name) => enabled.includes(name)).flatMap((name) => DETECTORS[name]),
+            ...(options.rules ?? []).map((rule) => this._toDetector(rule)),
+        ];
+    }
+
+    /**
+     * Redacts a single string.
+     * @returns The redacted text and the number of replacements.
+     */
+    redactText(text: string): { text: string; count: number } {
+        return this.detectors.reduce(
+            (acc, detect) => {
+                const next = detect(acc.text, this.replacement);
+                return { text: next.text, count: acc.count + next.count };
+            },
+            { text, count: 0 }
+        );
+    }
+
+    /**
+     * Returns a redacted copy of a payload. Strings inside plain objects and arrays are
+     * redacted; other values (numbers, buffers, class instances) are kept as they are.
+     * @returns The redacted copy and the number of replacements.
+     */
+    redact<T>(value: T): { value: T; count: number } {
+        let count = 0;
+
+        const walk = (node: unknown): unknown => {
+            if (typeof node === "string") {
+                const result = this.redactText(node);
+                count += result.count;
+                return result.text;
+            }
+            if (Array.isArray(node)) return node.map(walk);
+            if (node && typeof node === "object" && Object.getPrototypeOf(node) === Object.prototype) {
+                return Object.fromEntries(Object.entries(node).map(([key, item]) => [key, walk(item)]));
+            }
+            return node;
+        };
+
+        return { value: walk(value) as T, count };
+    }
+
+    /**
+     * @private
+     * @throws {ConfigurationError} If the rule is neither a RegExp nor a function.
+     */
+    private _toDetector(rule: RedactionRule): Detector {
+        if (rule instanceof RegExp) return byPattern(rule);
+
+        if (typeof rule === "function") {
+            return (text) => {
+                const result = rule(text);
+                return { text: result, count: result === text ? 0 : 1 };
+            };
+        }
+
+        throw new ConfigurationError("Redaction rules must be regular expressions or functions");
+    }
+}
+
+/**
+ * Builds a redactor from a `redact` setting.
+ * @returns `null` when redaction is disabled, `undefined` when the setting is absent.
+ */
+export const createRedactor = (config: RedactionConfig | undefined): Redactor | null | undefined => {
+    if (config === undefined) return undefined;
+    if (config === false) return null;
+    return new Redactor(config === true ? {} : config);
+};
+
+/**
+ * Redacts a value with an optional redactor.
+ * @returns The value unchanged and a zero count when there is no redactor.
+ */
+export const applyRedaction = <T>(redactor: Redactor | null | undefined, value: T): { value: T; count: number } =>
+    redactor ? redactor.redact(value) : { value, count: 0 };
+
+/** Keys of a Discord or Slack payload that carry what the message says; the others are send options. */
+export const CONTENT_KEYS = ["content", "embeds", "text", "blocks", "attachments", "components"] as const;
+
+/**
+ * Redacts the content keys of a webhook payload and keeps its send options (`username`,
+ * `avatar_url`, `icon_url`, `channel`…) as they are.
+ * @returns The redacted copy and the number of replacements.
+ */
+export const redactContent = <T extends Record<string, unknown>>(
+    redactor: Redactor | null | undefined,
+    payload: T
+): { value: T; count: number } => {
+    if (!redactor) return { value: payload, count: 0 };
+
+    let count = 0;
+    const value: Record<string, unknown> = { ...payload };
+    for (const key of CONTENT_KEYS) {
+        if (!(key in value)) continue;
+        const result = redactor.redact(value[key]);
+        value[key] = result.value;
+        count += result.count;
+    }
+    return { value: value as T, count };
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "@jest/globals";
+import { logifly } from "./logifly";
+import { AVAILABLE_PLATFORMS } from "./index";
+import { MemoryClient } from "./clients/Memory";
+import { ConfigurationError } from "./utils/errors";
+
+describe("platform registry", () => {
+    it("exposes the registered names as a read-only list that stays current", () => {
+        const before = AVAILABLE_PLATFORMS;
+
+        new logifly().registerPlatform("pager-a", () => new MemoryClient());
+
+        expect(Object.isFrozen(before)).toBe(true);
+        expect(() => (before as string[]).push("nope")).toThrow(TypeError);
+        expect(before).not.toContain("pager-a");
+        expect(AVAILABLE_PLATFORMS).toContain("pager-a");
+        expect(AVAILABLE_PLATFORMS.slice(0, 2)).toEqual(["discord", "slack"]);
+    });
+
+    it("is shared by every instance", () => {
+        new logifly().registerPlatform("pager-b", () => new MemoryClient());
+
+        const other = new logifly();
+        expect(other.listPlatforms()).toContain("pager-b");
+        expect(other.createClient("pager-b", {})).toBeInstanceOf(MemoryClient);
+    });
+
+    it("returns a copy from listPlatforms()", () => {
+        const log = new logifly();
+        log.listPlatforms().push("nope");
+
+        expect(log.listPlatforms()).not.toContain("nope");
+    });
+
+    it("rejects invalid names and factories", () => {
+        const log = new logifly();
+
+        expect(() => log.registerPlatform("Pager Duty", () => new MemoryClient())).toThrow(ConfigurationError);
+        expect(() => log.registerPlatform("pager", "nope" as any)).toThrow("factory must be a function");
+        expect(() => log.createClient("unknown", {})).toThrow("Unknown platform 'unknown'");
+    });
+});
@@ -0,0 +1,198 @@
+import { DiscordClient } from "./clients/Discord";
+import { SlackClient } from "./clients/Slack";
+import { TeamsClient } from "./clients/Teams";
+import { TelegramClient } from "./clients/Telegram";
+import { EmailClient } from "./clients/Email";
+import { WebhookClient } from "./clients/Webhook";
+import { MemoryClient } from "./clients/Memory";
+import { ConfigurationError } from "./utils/errors";
+import { WEBHOOK_PATTERNS } from "./utils/constants";
+import { PlatformClient } from "./types/broadcast";
+import { PlatformFactory, PlatformOptions, PlatformRegistration } from "./types/platform";
+
+const PLATFORM_NAME = /^[a-z][a-z0-9_-]*$/;
+
+const platforms = new Map<string, PlatformRegistration>();
+
+/**
+ * Names of the registered platforms, in registration order. A frozen snapshot that `registerPlatform()`
+ * replaces, so importers always read the current list but cannot change it.
+ */
+export let AVAILABLE_PLATFORMS: readonly string[] = Object.freeze([]);
+
+/**
+ * Registers a platform, or replaces the registration of the same name. The registry is shared
+ * by every logifly instance, so packages can register their clients when they are imported.
+ * @throws {ConfigurationError} If the name or factory is invalid.
+ */
+export const registerPlatform = (name: string, factory: PlatformFactory, options: PlatformOptions = {}): void => {
+    if (typeof name !== "string" || !PLATFORM_NAME.test(name)) {
+        throw new ConfigurationError(
+            `Invalid platform name '${name}': use lowercase letters, digits, dashes and underscores`
+        );
+    }
+    if (typeof factory !== "function") {
+        throw new ConfigurationError(`Platform '${name}' factory must be a function`);
+    }
+
+    if (!platforms.has(name)) AVAILABLE_PLATFORMS = Object.freeze([...AVAILABLE_PLATFORMS, name]);
+    platforms.set(name, { ...options, name, factory });
+};
+
+/** Returns the registration of a platform, if any. */
+export const getPlatform = (name: string): PlatformRegistration | undefined => platforms.get(name);
+
+/**
+ * Creates a client of a registered platform.
+ * @throws {ConfigurationError} If the platform is unknown, the URL does not match its pattern,
+ * or the factory does not return a client.
+ */
+export const createClient = (platform: string, config: Record<string, any>): PlatformClient => {
+    const registration = platforms.get(platform);
+    if (!registration) {
+        throw new ConfigurationError(
+            `Unknown platform '${platform}'. Available platforms: ${AVAILABLE_PLATFORMS.join(", ")}`
+        );
+    }
+
+    const url = config?.webhookUrl ?? config?.url;
+    if (registration.urlPattern && typeof url === "string" && !registration.urlPattern.test(url)) {
+        throw new ConfigurationError(`Invalid ${platform} webhook URL: expected a URL matching ${registration.urlPattern}`);
+    }
+
+    const client = registration.factory(config);
+    if (!client || typeof client.send !== "function") {
+        throw new ConfigurationError(`Platform '${platform}' factory must return a client that implements send()`);
+    }
+    return client;
+};
+
+registerPlatform("discord", (config) => new DiscordClient(config), {
+    urlPattern: WEBHOOK_PATTERNS.discord,
+    configSchema: {
+        fields: {
+            webhookUrl: "string",
+            username: "string",
+            avatarUrl: "string",
+            defaultColor: "number",
+            timeout: "number",
+            transport: "transport",
+            retry: "retry",
+            redact: "redact",
+            overflow: "overflow",
+            maxFileSize: "number",
+        },
+        required: ["webhookUrl"],
+    },
+});
+
+registerPlatform("slack", (config) => new SlackClient(config), {
+    urlPattern: WEBHOOK_PATTERNS.slack,
+    configSchema: {
+        fields: {
+            webhookUrl: "string",
+            username: "string",
+            iconEmoji: "string",
+            iconUrl: "string",
+            channel: "string",
+            defaultColor: "string",
+            timeout: "number",
+            transport: "transport",
+            retry: "retry",
+            embedStyle: { oneOf: ["attachments", "blocks"] },
+            redact: "redact",
+            overflow: "overflow",
+        },
+        required: ["webhookUrl"],
+    },
+});
+
+registerPlatform("teams", (config) => new TeamsClient(config), {
+    urlPattern: WEBHOOK_PATTERNS.teams,
+    configSchema: {
+        fields: {
+            webhookUrl: "string",
+            defaultColor: "number",
+            timeout: "number",
+            transport: "transport",
+            retry: "retry",
+            overflow: "overflow",
+        },
+        required: ["webhookUrl"],
+    },
+});
+
+registerPlatform("telegram", (config) => new TelegramClient(config), {
+    configSchema: {
+        fields: {
+            botToken: "string",
+            chatId: { oneOrMany: "scalar" },
+            parseMode: { oneOf: ["HTML", "MarkdownV2"] },
+            disableNotification: "boolean",
+            messageThreadId: "number",
+            disableWebPagePreview: "boolean",
+            apiBaseUrl: "string",
+            timeout: "number",
+            transport: "transport",
+            retry: "retry",
+            overflow: "overflow",
+        },
+        required: ["botToken", "chatId"],
+    },
+});
+
+registerPlatform("email", (config) => new EmailClient(config), {
+    configSchema: {
+        fields: {
+            host: "string",
+            port: "number",
+            secure: "boolean",
+            starttls: "boolean",
+            requireTLS: "boolean",
+            allowInsecureAuth: "boolean",
+            auth: {
+                fields: { user: "string", pass: "string", method: { oneOf: ["PLAIN", "LOGIN"] } },
+                required: ["user", "pass"],
+            },
+            tls: "object",
+            from: "string",
+            to: { oneOrMany: "string" },
+            cc: { oneOrMany: "string" },
+            bcc: { oneOrMany: "string" },
+            subjectPrefix: "string",
+            clientName: "string",
+            defaultColor: "number",
+            timeout: "number",
+            retry: "retry",
+        },
+        required: ["host", "from", "to"],
+    },
+});
+
+registerPlatform("webhook", (config) => new WebhookClient(config), {
+    configSchema: {
+        fields: {
+            url: "string",
+            method: { oneOf: ["POST", "PUT", "PATCH"] },
+            headers: "object",
+            template: "string",
+            signing: {
+                fields: {
+                    secret: "string",
+                    algorithm: { oneOf: ["sha1", "sha256", "sha512"] },
+                    header: "string",
+                    timestampHeader: "string",
+                },
+                required: ["secret"],
+            },
+            timeout: "number",
+            transport: "transport",
+            retry: "retry",
+        },
+        required: ["url"],
+    },
+});
+
+registerPlatform("memory", (config) => new MemoryClient(config), {
+    configSchema: { fields: { latency: "number" } },
+});
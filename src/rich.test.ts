@@ -0,0 +1,208 @@
+import { describe, expect, it } from "@jest/globals";
+import { embedToRich, richSummary, richToEmbed, richToText, toDiscordMessage, toMrkdwn, toSlackMessage } from "./rich";
+import { SlackClient } from "./clients/Slack";
+import { RichMessage } from "./types/rich";
+import { SlackBlock } from "./types/slack";
+import { HttpRequest, HttpResponse } from "./types/http";
+
+const release: RichMessage = {
+    blocks: [
+        { type: "header", text: "Release 2.4.0" },
+        { type: "section", text: "Shipped **3** fixes, see [notes](https://example.com/notes)" },
+        { type: "fields", fields: [{ name: "Env", value: "prod", inline: true }] },
+        { type: "divider" },
+        { type: "image", url: "https://example.com/chart.png", alt: "chart" },
+        { type: "buttons", buttons: [{ text: "Open", url: "https://example.com/run" }] },
+        { type: "context", elements: ["ci", "main"] },
+    ],
+    color: 0x2ecc71,
+};
+
+describe("toMrkdwn", () => {
+    it("converts links, bold and strikethrough", () => {
+        expect(toMrkdwn("**bold** ~~old~~ [docs](https://example.com)")).toBe("*bold* ~old~ <https://example.com|docs>");
+        expect(toMrkdwn("_italic_ `code`")).toBe("_italic_ `code`");
+    });
+});
+
+describe("richSummary", () => {
+    it("prefers the text and falls back to the first header or section", () => {
+        expect(richSummary({ ...release, text: "Deployed" })).toBe("Deployed");
+        expect(richSummary(release)).toBe("Release 2.4.0");
+        expect(richSummary({ blocks: [{ type: "divider" }] })).toBe("");
+    });
+});
+
+describe("embedToRich and richToEmbed", () => {
+    it("turns an embed into blocks and back", () => {
+        const embed = {
+            title: "Deploy",
+            description: "done",
+            color: 0xff0000,
+            fields: [{ name: "Host", value: "web-1" }],
+            footer: { text: "ci" },
+            severity: "warn" as const,
+        };
+
+        const rich = embedToRich(embed);
+
+        expect(rich.blocks).toEqual([
+            { type: "header", text: "Deploy" },
+            { type: "section", text: "done" },
+            { type: "fields", fields: [{ name: "Host", value: "web-1" }] },
+            { type: "context", elements: ["ci"] },
+        ]);
+        expect(rich).toMatchObject({ text: "Deploy", color: 0xff0000, severity: "warn" });
+        expect(richToEmbed(rich)).toEqual(embed);
+    });
+
+    it("links the title and puts the author first", () => {
+        const rich = embedToRich({
+            title: "PR #12",
+            description: "",
+            url: "https://example.com/pr/12",
+            author: { name: "ci", url: "https://example.com/ci" },
+        });
+
+        expect(rich.blocks).toEqual([
+            { type: "context", elements: ["[ci](https://example.com/ci)"] },
+            { type: "section", text: "**[PR #12](https://example.com/pr/12)**" },
+        ]);
+    });
+
+    it("flattens buttons into links and later headers into bold lines", () => {
+        const embed = richToEmbed({
+            blocks: [
+                { type: "header", text: "Summary" },
+                { type: "header", text: "Details" },
+                { type: "buttons", buttons: [{ text: "A", url: "https://a.example" }, { text: "B", url: "https://b.example" }] },
+            ],
+        });
+
+        expect(embed).toEqual({
+            title: "Summary",
+            description: "**Details**\n[A](https://a.example) · [B](https://b.example)",
+            severity: "info",
+        });
+    });
+});
+
+describe("richToText", () => {
+    it("renders every block as plain lines", () => {
+        expect(richToText(release).split("\n")).toEqual([
+            "**Release 2.4.0**",
+            "Shipped **3** fixes, see [notes](https://example.com/notes)",
+            "Env: prod",
+            "---",
+            "https://example.com/chart.png",
+            "Open: https://example.com/run",
+            "ci • main",
+        ]);
+    });
+});
+
+describe("toSlackMessage", () => {
+    it("renders Block Kit with mrkdwn and the summary as text", () => {
+        const { text, blocks } = toSlackMessage(release);
+
+        expect(text).toBe("Release 2.4.0");
+        expect(blocks.map((b) => b.type)).toEqual(["header", "section", "section", "divider", "image", "actions", "context"]);
+        expect(blocks[1]).toEqual({
+            type: "section",
+            text: { type: "mrkdwn", text: "Shipped *3* fixes, see <https://example.com/notes|notes>" },
+        });
+        expect(blocks[2]).toEqual({ type: "section", fields: [{ type: "mrkdwn", text: "*Env*\nprod" }] });
+    });
+
+    it("keeps within Slack's block limits", () => {
+        const { blocks } = toSlackMessage({
+            blocks: [
+                { type: "header", text: "h".repeat(200) },
+                { type: "section", text: "word ".repeat(1000) },
+                { type: "fields", fields: Array.from({ length: 12 }, (_, i) => ({ name: `F${i}`, value: "v" })) },
+                { type: "buttons", buttons: Array.from({ length: 30 }, (_, i) => ({ text: `B${i}`, url: "https://example.com" })) },
+            ],
+        });
+        const header = blocks[0] as Extract<SlackBlock, { type: "header" }>;
+
+        expect(header.text.text).toHaveLength(150);
+        expect(header.text.text.endsWith("…")).toBe(true);
+        expect(blocks.map((b) => b.type)).toEqual(["header", "section", "section", "section", "section", "actions", "actions"]);
+        expect((blocks[3] as Extract<SlackBlock, { type: "section" }>).fields).toHaveLength(10);
+        expect((blocks[5] as Extract<SlackBlock, { type: "actions" }>).elements).toHaveLength(25);
+    });
+});
+
+describe("toDiscordMessage", () => {
+    it("renders one embed with link buttons as components", () => {
+        const message = toDiscordMessage(release);
+
+        expect(message.embeds).toEqual([
+            {
+                title: "Release 2.4.0",
+                description: "Shipped **3** fixes, see [notes](https://example.com/notes)",
+                color: 0x2ecc71,
+                fields: [{ name: "Env", value: "prod", inline: true }],
+                image: { url: "https://example.com/chart.png" },
+                footer: { text: "ci • main" },
+            },
+        ]);
+        expect(message.components).toEqual([
+            { type: 1, components: [{ type: 2, style: 5, label: "Open", url: "https://example.com/run" }] },
+        ]);
+    });
+
+    it("gives additional images their own embeds and leaves out components without buttons", () => {
+        const message = toDiscordMessage({
+            blocks: [
+                { type: "image", url: "https://example.com/1.png" },
+                { type: "image", url: "https://example.com/2.png" },
+            ],
+        });
+
+        expect(message.embeds).toEqual([
+            { title: "", description: "", image: { url: "https://example.com/1.png" } },
+            { image: { url: "https://example.com/2.png" } },
+        ]);
+        expect("components" in message).toBe(false);
+    });
+});
+
+describe("SlackClient embeds", () => {
+    const recorder = () => {
+        const bodies: Array<Record<string, unknown>> = [];
+        const transport = {
+            request: async (request: HttpRequest): Promise<HttpResponse> => {
+                bodies.push(JSON.parse(String(request.body)));
+                return { status: 200, statusText: "OK", headers: {}, data: "ok" };
+            },
+        };
+        return { bodies, transport };
+    };
+    const embed = { title: "Deploy", description: "done", color: 0xff0000 };
+
+    it("sends a colored attachment by default", async () => {
+        const { bodies, transport } = recorder();
+        const slack = new SlackClient({ webhookUrl: "https://hooks.slack.com/services/T0/B0/x", transport });
+
+        await slack.sendEmbed(embed);
+
+        expect(bodies[0]!.blocks).toBeUndefined();
+        expect(bodies[0]!.attachments).toEqual([expect.objectContaining({ color: "#ff0000", title: "Deploy", text: "done" })]);
+    });
+
+    it("sends Block Kit blocks when embedStyle is 'blocks'", async () => {
+        const { bodies, transport } = recorder();
+        const slack = new SlackClient({ webhookUrl: "https://hooks.slack.com/services/T0/B0/x", embedStyle: "blocks", transport });
+
+        await slack.sendEmbed(embed);
+
+        expect(bodies[0]).toMatchObject({
+            text: "Deploy",
+            blocks: [
+                { type: "header", text: { type: "plain_text", text: "Deploy" } },
+                { type: "section", text: { type: "mrkdwn", text: "done" } },
+            ],
+        });
+    });
+});
@@ -0,0 +1,271 @@
+import { PLATFORM_LIMITS } from "./utils/constants";
+import { splitText } from "./overflow";
+import { EmbedOptions } from "./types/broadcast";
+import { RichBlock, RichField, RichMessage } from "./types/rich";
+import { SlackBlock } from "./types/slack";
+
+/** Shortens text to `max` characters, marking the cut. */
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+/** Splits an array into chunks of at most `size` items. */
+const chunk = <T>(items: T[], size: number): T[][] => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks;
+};
+
+/** Converts the Markdown subset used by rich messages to Slack mrkdwn. */
+export const toMrkdwn = (text: string): string =>
+    text
+        .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, "<$2|$1>")
+        .replace(/\*\*(.+?)\*\*/g, "*$1*")
+        .replace(/~~(.+?)~~/g, "~$1~");
+
+/** Returns the notification text of a message: its `text`, or its first header or section. */
+export const richSummary = (message: RichMessage): string => {
+    if (message.text) return message.text;
+    const first = message.blocks.find(
+        (b): b is Extract<RichBlock, { text: string }> => b.type === "header" || b.type === "section"
+    );
+    return first?.text ?? "";
+};
+
+/**
+ * Converts an embed into a rich message: the title becomes a header (a linked section when the
+ * embed has a `url`), the description a section, fields a fields block, the image an image block,
+ * and the author, footer and timestamp context lines.
+ */
+export const embedToRich = (embed: EmbedOptions): RichMessage => {
+    const blocks: RichBlock[] = [];
+
+    if (embed.author?.name) {
+        const author = embed.author.url ? `[${embed.author.name}](${embed.author.url})` : embed.author.name;
+        blocks.push({ type: "context", elements: [author] });
+    }
+    if (embed.title) {
+        blocks.push(
+            embed.url
+                ? { type: "section", text: `**[${embed.title}](${embed.url})**` }
+                : { type: "header", text: embed.title }
+        );
+    }
+    if (embed.description) blocks.push({ type: "section", text: embed.description });
+
+    const fields: RichField[] = Array.isArray(embed.fields) ? embed.fields : [];
+    if (fields.length > 0) blocks.push({ type: "fields", fields });
+
+    if (embed.image?.url) blocks.push({ type: "image", url: embed.image.url, alt: embed.title ?? "image" });
+
+    const context = [embed.footer?.text, embed.timestamp ? new Date(embed.timestamp).toUTCString() : undefined].filter(
+        (t): t is string => Boolean(t)
+    );
+    if (context.length > 0) blocks.push({ type: "context", elements: context });
+
+    const message: RichMessage = { blocks, text: embed.title || embed.description };
+    if (embed.color !== undefined) message.color = embed.color;
+    if (embed.severity) message.severity = embed.severity;
+    if (embed.tags) message.tags = embed.tags;
+    return message;
+};
+
+/**
+ * Flattens a rich message into a single embed, for clients that support embeds but not rich messages.
+ * Buttons become Markdown links and context lines become the footer.
+ */
+export const richToEmbed = (message: RichMessage): EmbedOptions => {
+    let title = "";
+    const lines: string[] = [];
+    const fields: RichField[] = [];
+    const footer: string[] = [];
+    let image: string | undefined;
+
+    message.blocks.forEach((block) => {
+        switch (block.type) {
+            case "header":
+                if (!title) title = block.text;
+                else lines.push(`**${block.text}**`);
+                break;
+            case "section":
+                lines.push(block.text);
+                break;
+            case "fields":
+                fields.push(...block.fields);
+                break;
+            case "context":
+                footer.push(...block.elements);
+                break;
+            case "divider":
+                lines.push("");
+                break;
+            case "image":
+                if (!image) image = block.url;
+                else lines.push(block.url);
+                break;
+            case "buttons":
+                lines.push(block.buttons.map((b) => `[${b.text}](${b.url})`).join(" · "));
+                break;
+        }
+    });
+
+    const embed: EmbedOptions = {
+        title: title || richSummary(message),
+        description: lines.join("\n").trim(),
+        severity: message.severity ?? "info",
+    };
+    if (message.color !== undefined) embed.color = message.color;
+    if (fields.length > 0) embed.fields = fields;
+    if (image) embed.image = { url: image };
+    if (footer.length > 0) embed.footer = { text: footer.join(" • ") };
+    if (message.tags) embed.tags = message.tags;
+    return embed;
+};
+
+/**
+ * Renders a rich message as plain text, for clients without embed or rich support.
+ */
+export const richToText = (message: RichMessage): string => {
+    const lines: string[] = [];
+
+    message.blocks.forEach((block) => {
+        switch (block.type) {
+            case "header":
+                lines.push(`**${block.text}**`);
+                break;
+            case "section":
+                lines.push(block.text);
+                break;
+            case "fields":
+                block.fields.forEach((f) => lines.push(`${f.name}: ${f.value}`));
+                break;
+            case "context":
+                lines.push(block.elements.join(" • "));
+                break;
+            case "divider":
+                lines.push("---");
+                break;
+            case "image":
+                lines.push(block.url);
+                break;
+            case "buttons":
+                block.buttons.forEach((b) => lines.push(`${b.text}: ${b.url}`));
+                break;
+        }
+    });
+
+    return lines.join("\n");
+};
+
+/**
+ * Renders a rich message as a Slack Block Kit payload, honouring Slack's block limits:
+ * long sections are split, fields are grouped ten per section, buttons 25 per actions block.
+ * @returns A payload with `blocks` and the notification `text`.
+ */
+export const toSlackMessage = (message: RichMessage): { text: string; blocks: SlackBlock[] } => {
+    const limits = PLATFORM_LIMITS.slack;
+    const blocks: SlackBlock[] = [];
+    const mrkdwn = (text: string) => ({ type: "mrkdwn" as const, text: toMrkdwn(text) });
+
+    message.blocks.forEach((block) => {
+        switch (block.type) {
+            case "header":
+                blocks.push({
+                    type: "header",
+                    text: { type: "plain_text", text: truncate(block.text, limits.headerText), emoji: true },
+                });
+                break;
+            case "section":
+                splitText(block.text, limits.sectionText).forEach((text) =>
+                    blocks.push({ type: "section", text: mrkdwn(text) })
+                );
+                break;
+            case "fields":
+                chunk(block.fields, limits.fieldsPerSection).forEach((fields) =>
+                    blocks.push({
+                        type: "section",
+                        fields: fields.map((f) => mrkdwn(truncate(`**${f.name}**\n${f.value}`, limits.fieldText))),
+                    })
+                );
+                break;
+            case "context":
+                blocks.push({
+                    type: "context",
+                    elements: block.elements.slice(0, limits.contextElements).map((e) => mrkdwn(e)),
+                });
+                break;
+            case "divider":
+                blocks.push({ type: "divider" });
+                break;
+            case "image":
+                blocks.push({ type: "image", image_url: block.url, alt_text: block.alt ?? "image" });
+                break;
+            case "buttons":
+                chunk(block.buttons, limits.buttonsPerBlock).forEach((buttons) =>
+                    blocks.push({
+                        type: "actions",
+                        elements: buttons.map((b) => ({
+                            type: "button",
+                            text: { type: "plain_text", text: truncate(b.text, limits.buttonText), emoji: true },
+                            url: b.url,
+                        })),
+                    })
+                );
+                break;
+        }
+    });
+
+    return {
+        text: truncate(toMrkdwn(richSummary(message)), limits.sectionText),
+        blocks: blocks.slice(0, limits.blocksPerMessage),
+    };
+};
+
+/**
+ * Renders a rich message as a Discord payload: one embed (plus one per additional image)
+ * and link buttons as message components, within Discord's embed and component limits.
+ * @returns A payload with `embeds` and, when there are buttons, `components`.
+ */
+export const toDiscordMessage = (message: RichMessage): { embeds: object[]; components?: object[] } => {
+    const limits = PLATFORM_LIMITS.discord;
+    let seenImage = false;
+    const embed = richToEmbed({
+        ...message,
+        // Buttons become components and additional images their own embeds, not description lines.
+        blocks: message.blocks.filter((b) => {
+            if (b.type === "buttons") return false;
+            if (b.type !== "image") return true;
+            if (seenImage) return false;
+            seenImage = true;
+            return true;
+        }),
+    });
+
+    const main: Record<string, unknown> = {
+        title: truncate(embed.title ?? "", limits.title),
+        description: truncate(embed.description, limits.description),
+    };
+    if (embed.color !== undefined) main.color = embed.color;
+    if (embed.fields) {
+        main.fields = (embed.fields as RichField[]).slice(0, limits.fieldsPerEmbed).map((f) => ({
+            name: truncate(f.name, limits.fieldName),
+            value: truncate(f.value, limits.fieldValue),
+            inline: f.inline ?? false,
+        }));
+    }
+    if (embed.image) main.image = embed.image;
+    if (embed.footer) main.footer = { text: truncate(embed.footer.text, limits.footer) };
+
+    const extraImages = message.blocks
+        .filter((b): b is Extract<RichBlock, { type: "image" }> => b.type === "image")
+        .slice(1, limits.embedsPerMessage)
+        .map((b) => ({ image: { url: b.url } }));
+
+    const buttons = message.blocks.flatMap((b) => (b.type === "buttons" ? b.buttons : []));
+    const rows = chunk(buttons, limits.buttonsPerRow)
+        .slice(0, limits.actionRows)
+        .map((row) => ({
+            type: 1,
+            components: row.map((b) => ({ type: 2, style: 5, label: truncate(b.text, limits.buttonLabel), url: b.url })),
+        }));
+
+    return rows.length > 0 ? { embeds: [main, ...extraImages], components: rows } : { embeds: [main, ...extraImages] };
+};
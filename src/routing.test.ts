@@ -0,0 +1,95 @@
+import { describe, expect, it } from "@jest/globals";
+import { Router } from "./routing";
+import { logifly } from "./logifly";
+import { MemoryClient } from "./clients/Memory";
+import { ConfigurationError } from "./utils/errors";
+
+describe("Router", () => {
+    it("stops at the first matching rule unless it continues", () => {
+        const router = new Router()
+            .addRule({ name: "payments", match: { tags: { service: "payments" } }, groups: ["payments"], continue: true })
+            .addRule({ name: "critical", match: { minSeverity: "critical" }, clients: ["ops:pager"] })
+            .addRule({ name: "fallback", groups: ["ops"] });
+
+        const critical = router.evaluate("Card processor down", { service: "payments" }, "critical");
+        const info = router.evaluate("Refund issued", { service: "payments" }, "info");
+
+        expect(critical.matchedRules).toEqual(["payments", "critical"]);
+        expect(critical.targets).toEqual(new Map([["payments", null], ["ops", new Set(["pager"])]]));
+        expect(info.matchedRules).toEqual(["payments", "fallback"]);
+        expect(info.targets).toEqual(new Map([["payments", null], ["ops", null]]));
+    });
+
+    it("matches tags by value, list or pattern, titles, and severity ranges", () => {
+        const router = new Router().addRule({
+            match: { tags: { env: ["prod", "staging"], region: /^eu-/g }, title: "^Disk", minSeverity: "warn", maxSeverity: "error" },
+            groups: ["storage"],
+        });
+        const matched = (title: string, tags: Record<string, string>, severity: "info" | "warn" | "critical" = "warn") =>
+            router.evaluate({ title, description: "" }, tags, severity).matchedRules.length === 1;
+
+        expect(matched("Disk full", { env: "prod", region: "eu-west-1" })).toBe(true);
+        // A global pattern matches again: its lastIndex is reset before every test.
+        expect(matched("Disk full", { env: "staging", region: "eu-west-1" })).toBe(true);
+        expect(matched("Disk full", { env: "dev", region: "eu-west-1" })).toBe(false);
+        expect(matched("Disk full", { env: "prod" })).toBe(false);
+        expect(matched("CPU high", { env: "prod", region: "eu-west-1" })).toBe(false);
+        expect(matched("Disk full", { env: "prod", region: "eu-west-1" }, "info")).toBe(false);
+        expect(matched("Disk full", { env: "prod", region: "eu-west-1" }, "critical")).toBe(false);
+    });
+
+    it("does not narrow a group that a rule already selected whole", () => {
+        const router = new Router()
+            .addRule({ groups: ["ops"], continue: true })
+            .addRule({ clients: ["ops:pager", "audit:mail"] });
+
+        expect(router.evaluate("x", {}, "info").targets).toEqual(new Map([["ops", null], ["audit", new Set(["mail"])]]));
+    });
+
+    it("rejects rules without targets, with malformed client targets or invalid conditions", () => {
+        const router = new Router();
+
+        expect(() => router.addRule({ name: "empty" })).toThrow("Routing rule 'empty' must target at least one group or client");
+        expect(() => router.addRule({ clients: ["pager"] })).toThrow("invalid client target 'pager'. Expected 'group:alias'");
+        expect(() => router.addRule({ groups: ["ops"], match: { minSeverity: "urgent" as any } })).toThrow(ConfigurationError);
+        expect(() => router.addRule({ groups: ["ops"], match: { title: "(" } })).toThrow("invalid title pattern");
+        expect(router.list()).toEqual([]);
+    });
+});
+
+describe("logifly.route", () => {
+    it("delivers once per group, to the selected clients, with the embed's tags and severity", async () => {
+        const log = new logifly();
+        const ops = new MemoryClient();
+        const pager = new MemoryClient();
+        const payments = new MemoryClient();
+        log.createGroup("ops").addClient(ops, "ops").addClient(pager, "pager");
+        log.createGroup("payments").addClient(payments, "team");
+        log.addRoute({ name: "payments", match: { tags: { service: "payments" } }, groups: ["payments"], continue: true })
+            .addRoute({ name: "payments-again", match: { tags: { service: "payments" } }, groups: ["payments"], continue: true })
+            .addRoute({ name: "errors", match: { minSeverity: "error" }, clients: ["ops:pager"] });
+
+        const summary = await log.route(
+            { title: "Charge failed", description: "card_declined", severity: "error", tags: { service: "payments" } },
+            { tags: { env: "prod" } }
+        );
+
+        expect(summary).toMatchObject({
+            severity: "error",
+            tags: { service: "payments", env: "prod" },
+            matchedRules: ["payments", "payments-again", "errors"],
+        });
+        expect(summary.summaries.map((s) => Object.keys(s.results))).toEqual([["team"], ["pager"]]);
+        expect(payments.sent).toHaveLength(1);
+        expect(pager.sent[0]!.embed).toMatchObject({ title: "Charge failed", tags: { service: "payments", env: "prod" } });
+        expect(ops.sent).toEqual([]);
+    });
+
+    it("sends nothing when no rule matches and throws for unknown groups", async () => {
+        const log = new logifly();
+        log.addRoute({ match: { minSeverity: "error" }, groups: ["missing"] });
+
+        expect(await log.route("all good")).toMatchObject({ matchedRules: [], summaries: [] });
+        await expect(log.route("boom", { severity: "critical" })).rejects.toThrow("Group 'missing' not found");
+    });
+});
@@ -0,0 +1,166 @@
+import { ConfigurationError } from "./utils/errors";
+import { isSeverity, meetsSeverity } from "./utils/severity";
+import { Severity } from "./types/broadcast";
+import { RoutableMessage, RoutingRule, TagMatcher, Tags } from "./types/routing";
+
+/**
+ * Groups (and optionally individual aliases within them) selected for a message.
+ * A `null` alias set means the whole group.
+ */
+export type RouteTargets = Map<string, Set<string> | null>;
+
+/**
+ * `Router` holds an ordered list of routing rules and decides which groups
+ * and clients a message should be delivered to.
+ *
+ * Rules are evaluated in order; the first matching rule stops evaluation unless
+ * it sets `continue: true`.
+ *
+ * @example
+ * ```ts
+ * const router = new Router();
+ * router.addRule({ match: { tags: { service: "payments" } }, groups: ["payments"], continue: true });
+ * router.addRule({ match: { minSeverity: "critical" }, clients: ["ops:pager"] });
+ * router.evaluate("Card processor down", { service: "payments" }, "critical");
+ * ```
+ */
+export class Router {
+    /** Registered rules, in evaluation order */
+    private rules: RoutingRule[] = [];
+
+    /**
+     * Appends a rule.
+     * @param rule - The rule to add.
+     * @returns The same instance for chaining.
+     * @throws {ConfigurationError} If the rule has no targets or invalid conditions.
+     */
+    addRule(rule: RoutingRule): this {
+        this._validateRule(rule);
+        this.rules.push(rule);
+        return this;
+    }
+
+    /**
+     * Removes every rule.
+     */
+    clear(): void {
+        this.rules = [];
+    }
+
+    /**
+     * Returns the registered rules in evaluation order.
+     */
+    list(): RoutingRule[] {
+        return [...this.rules];
+    }
+
+    /**
+     * Evaluates the rules against a message.
+     * @param message - Plain text or embed being routed.
+     * @param tags - Tags carried by the message.
+     * @param severity - Severity of the message.
+     * @returns The matched rule labels and the merged delivery targets.
+     */
+    evaluate(
+        message: RoutableMessage,
+        tags: Tags,
+        severity: Severity
+    ): { matchedRules: string[]; targets: RouteTargets } {
+        const matchedRules: string[] = [];
+        const targets: RouteTargets = new Map();
+        const title = typeof message === "string" ? message : message.title ?? "";
+
+        for (const [index, rule] of this.rules.entries()) {
+            if (!this._matches(rule, title, tags, severity)) continue;
+
+            matchedRules.push(rule.name ?? `#${index}`);
+
+            (rule.groups ?? []).forEach((group) => targets.set(group, null));
+            (rule.clients ?? []).forEach((target) => {
+                const [group, alias] = this._parseClientTarget(target);
+                const aliases = targets.get(group);
+                if (aliases === null) return;
+                targets.set(group, (aliases ?? new Set<string>()).add(alias));
+            });
+
+            if (!rule.continue) break;
+        }
+
+        return { matchedRules, targets };
+    }
+
+    /**
+     * @private
+     */
+    private _matches(rule: RoutingRule, title: string, tags: Tags, severity: Severity): boolean {
+        const match = rule.match ?? {};
+
+        if (match.minSeverity && !meetsSeverity(severity, match.minSeverity)) return false;
+        if (match.maxSeverity && !meetsSeverity(match.maxSeverity, severity)) return false;
+
+        if (match.title !== undefined) {
+            const pattern = typeof match.title === "string" ? new RegExp(match.title) : match.title;
+            pattern.lastIndex = 0;
+            if (!pattern.test(title)) return false;
+        }
+
+        return Object.entries(match.tags ?? {}).every(([key, matcher]) =>
+            this._matchTag(tags[key], matcher)
+        );
+    }
+
+    /**
+     * @private
+     */
+    private _matchTag(value: string | undefined, matcher: TagMatcher): boolean {
+        if (value === undefined) return false;
+        if (matcher instanceof RegExp) {
+            matcher.lastIndex = 0;
+            return matcher.test(value);
+        }
+        return Array.isArray(matcher) ? matcher.includes(value) : matcher === value;
+    }
+
+    /**
+     * Splits a `"group:alias"` client target.
+     * @private
+     */
+    private _parseClientTarget(target: string): [string, string] {
+        const index = target.lastIndexOf(":");
+        return [target.slice(0, index), target.slice(index + 1)];
+    }
+
+    /**
+     * @private
+     * @throws {ConfigurationError} If the rule is invalid.
+     */
+    private _validateRule(rule: RoutingRule): void {
+        const label = rule.name ? `Routing rule '${rule.name}'` : "Routing rule";
+
+        if ((rule.groups ?? []).length === 0 && (rule.clients ?? []).length === 0) {
+            throw new ConfigurationError(`${label} must target at least one group or client`);
+        }
+
+        (rule.clients ?? []).forEach((target) => {
+            const index = target.lastIndexOf(":");
+            if (index <= 0 || index === target.length - 1) {
+                throw new ConfigurationError(`${label} has invalid client target '${target}'. Expected 'group:alias'`);
+            }
+        });
+
+        const { minSeverity, maxSeverity, title } = rule.match ?? {};
+        [minSeverity, maxSeverity].forEach((level) => {
+            if (level !== undefined && !isSeverity(level)) {
+                throw new ConfigurationError(`${label} has invalid severity '${level}'`);
+            }
+        });
+
+        if (typeof title === "string") {
+            try {
+                new RegExp(title);
+            } catch (err: any) {
+                throw new ConfigurationError(`${label} has invalid title pattern: ${err.message}`);
+            }
+        }
+    }
+}
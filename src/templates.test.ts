@@ -0,0 +1,106 @@
+import { describe, expect, it } from "@jest/globals";
+import { TemplateRegistry } from "./templates";
+import { logifly } from "./logifly";
+import { MemoryClient } from "./clients/Memory";
+import { ConfigurationError } from "./utils/errors";
+
+describe("TemplateRegistry", () => {
+    const deploy = {
+        title: "{{service}} deployed",
+        description: "Version {{ version }} by {{user.name}}",
+        fields: [{ name: "Env", value: "{{env}}", inline: true }],
+        color: 0x2ecc71,
+        footer: "build {{build}}",
+        platforms: { slack: { text: "{{service}} {{version}} is live ({{channel}})" } },
+    };
+
+    it("fills placeholders, dotted paths included, in every part of the embed and the overrides", () => {
+        const templates = new TemplateRegistry();
+        templates.define("deploy", deploy);
+
+        const rendered = templates.render("deploy", {
+            service: "api",
+            version: "1.4.2",
+            user: { name: "ana" },
+            env: "prod",
+            build: 812,
+            channel: "#deploys",
+        });
+
+        expect(rendered).toEqual({
+            embed: {
+                title: "api deployed",
+                description: "Version 1.4.2 by ana",
+                severity: "info",
+                color: 0x2ecc71,
+                fields: [{ name: "Env", value: "prod", inline: true }],
+                footer: { text: "build 812" },
+            },
+            platforms: { slack: { text: "api 1.4.2 is live (#deploys)" } },
+        });
+    });
+
+    it("lists every variable and refuses to render without all of them", () => {
+        const templates = new TemplateRegistry();
+        templates.define("deploy", deploy);
+
+        expect(templates.variables("deploy").sort()).toEqual(["build", "channel", "env", "service", "user.name", "version"]);
+        expect(() => templates.render("deploy", { service: "api", version: "1.4.2", env: "prod", build: 0 })).toThrow(
+            "Template 'deploy' is missing variables: user.name, channel"
+        );
+    });
+
+    it("calls function overrides with the variables, without checking what they use", () => {
+        const templates = new TemplateRegistry();
+        templates.define("alert", {
+            title: "{{name}}",
+            severity: "critical",
+            platforms: { webhook: (vars) => ({ alert: vars.name, extra: vars.missing ?? "none" }) },
+        });
+
+        expect(templates.variables("alert")).toEqual(["name"]);
+        expect(templates.render("alert", { name: "db" })).toEqual({
+            embed: { title: "db", description: "", severity: "critical" },
+            platforms: { webhook: { alert: "db", extra: "none" } },
+        });
+    });
+
+    it("rejects invalid definitions and unknown names", () => {
+        const templates = new TemplateRegistry();
+        templates.define("a", { title: "A" });
+
+        expect(() => templates.define("", { title: "x" })).toThrow("non-empty string");
+        expect(() => templates.define("b", { title: "" })).toThrow("Template 'b' requires a 'title'");
+        expect(() => templates.define("b", { title: "x", severity: "loud" as any })).toThrow("invalid severity 'loud'");
+        expect(() => templates.define("b", { title: "x", platforms: { slack: "text" as any } })).toThrow(
+            "override for 'slack' must be an object or a function"
+        );
+        expect(() => templates.render("nope")).toThrow(ConfigurationError);
+        expect(() => templates.get("nope")).toThrow("Available templates: a");
+        expect(templates.list()).toEqual(["a"]);
+        expect(templates.remove("a")).toBe(true);
+        expect(templates.has("a")).toBe(false);
+    });
+});
+
+describe("broadcastTemplate", () => {
+    it("sends the embed, or the override for the client's platform, with the template's severity", async () => {
+        const log = new logifly();
+        const ops = new MemoryClient();
+        const pager = new MemoryClient();
+        log.defineTemplate("disk", {
+            title: "Disk {{percent}}% full on {{host}}",
+            severity: "error",
+            platforms: { memory: { text: "{{host}}: {{percent}}%" } },
+        });
+        const group = log.createGroup("alerts").addClient(ops, "ops").addClient(pager, "pager", { minLevel: "critical" });
+
+        const summary = await group.broadcastTemplate("disk", { host: "db-1", percent: 97 });
+
+        expect(summary.severity).toBe("error");
+        expect(ops.sent[0]).toMatchObject({ method: "send", message: { text: "db-1: 97%" } });
+        expect(Object.keys(summary.skipped)).toEqual(["pager"]);
+        await expect(group.broadcastTemplate("disk", { host: "db-1" })).rejects.toThrow("missing variables: percent");
+        expect(ops.calls).toHaveLength(1);
+    });
+});
@@ -0,0 +1,133 @@
+import { ConfigurationError } from "./utils/errors";
+import { interpolate, lookup, placeholders } from "./utils/interpolate";
+import { isSeverity } from "./utils/severity";
+import { EmbedOptions } from "./types/broadcast";
+import { TemplateDefinition, TemplateVariables } from "./types/template";
+
+/** Interpolates every string of a plain payload. */
+const fill = (node: unknown, vars: TemplateVariables): unknown => {
+    if (typeof node === "string") return interpolate(node, vars);
+    if (Array.isArray(node)) return node.map((item) => fill(item, vars));
+    if (node && typeof node === "object") {
+        return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, fill(value, vars)]));
+    }
+    return node;
+};
+
+/**
+ * A rendered template: the embed sent to most clients and the payloads
+ * that replace it on specific platforms.
+ */
+export interface RenderedTemplate {
+    embed: EmbedOptions;
+    platforms: Record<string, object>;
+}
+
+/**
+ * `TemplateRegistry` stores named message templates and renders them with variables.
+ *
+ * Every placeholder a template uses must be given a value; rendering fails with a
+ * `ConfigurationError` listing the missing variables before anything is sent.
+ *
+ * @example
+ * ```ts
+ * const templates = new TemplateRegistry();
+ * templates.define("deploy", { title: "{{service}} deployed", description: "Version {{version}}" });
+ * templates.render("deploy", { service: "api", version: "1.4.2" });
+ * ```
+ */
+export class TemplateRegistry {
+    private templates: Map<string, TemplateDefinition> = new Map();
+
+    /**
+     * Registers (or replaces) a template.
+     * @throws {ConfigurationError} If the name or definition is invalid.
+     */
+    define(name: string, definition: TemplateDefinition): void {
+        if (!name) {
+            throw new ConfigurationError("Template name must be a non-empty string");
+        }
+        if (!definition || typeof definition.title !== "string" || !definition.title) {
+            throw new ConfigurationError(`Template '${name}' requires a 'title'`);
+        }
+        if (definition.severity !== undefined && !isSeverity(definition.severity)) {
+            throw new ConfigurationError(`Template '${name}' has an invalid severity '${definition.severity}'`);
+        }
+
+        const overrides = definition.platforms ?? {};
+        Object.entries(overrides).forEach(([platform, override]) => {
+            if (!override || (typeof override !== "object" && typeof override !== "function")) {
+                throw new ConfigurationError(
+                    `Template '${name}' override for '${platform}' must be an object or a function`
+                );
+            }
+        });
+
+        this.templates.set(name, definition);
+    }
+
+    /**
+     * @throws {ConfigurationError} If no template has this name.
+     */
+    get(name: string): TemplateDefinition {
+        const template = this.templates.get(name);
+        if (!template) {
+            const available = Array.from(this.templates.keys()).join(", ") || "none";
+            throw new ConfigurationError(`Template '${name}' not found. Available templates: ${available}`);
+        }
+        return template;
+    }
+
+    has(name: string): boolean {
+        return this.templates.has(name);
+    }
+
+    list(): string[] {
+        return Array.from(this.templates.keys());
+    }
+
+    remove(name: string): boolean {
+        return this.templates.delete(name);
+    }
+
+    /**
+     * Lists the variables a template needs, including those used by object overrides.
+     * Function overrides are not inspected.
+     */
+    variables(name: string): string[] {
+        const { platforms, ...definition } = this.get(name);
+        const objectOverrides = Object.values(platforms ?? {}).filter((o) => typeof o !== "function");
+        return Array.from(placeholders([definition, objectOverrides]));
+    }
+
+    /**
+     * Renders a template into an embed and per-platform payloads.
+     * @param name - Template name.
+     * @param vars - Placeholder values.
+     * @throws {ConfigurationError} If the template is unknown or a variable is missing.
+     */
+    render(name: string, vars: TemplateVariables = {}): RenderedTemplate {
+        const template = this.get(name);
+
+        const missing = this.variables(name).filter((path) => lookup(vars, path) == null);
+        if (missing.length > 0) {
+            throw new ConfigurationError(`Template '${name}' is missing variables: ${missing.join(", ")}`);
+        }
+
+        const embed: EmbedOptions = {
+            title: interpolate(template.title, vars),
+            description: interpolate(template.description ?? "", vars),
+            severity: template.severity ?? "info",
+        };
+        if (template.color !== undefined) embed.color = template.color;
+        if (template.fields) embed.fields = fill(template.fields, vars);
+        if (template.footer) embed.footer = { text: interpolate(template.footer, vars) };
+
+        const platforms: Record<string, object> = {};
+        Object.entries(template.platforms ?? {}).forEach(([platform, override]) => {
+            platforms[platform] = typeof override === "function" ? override(vars) : (fill(override, vars) as object);
+        });
+
+        return { embed, platforms };
+    }
+}
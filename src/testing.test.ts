@@ -0,0 +1,79 @@
+import { AssertionError } from "assert";
+import { describe, expect, it } from "@jest/globals";
+import { expectBroadcast } from "./testing";
+import { BroadcastGroup } from "./broadcast";
+import { MemoryClient } from "./clients/Memory";
+
+/** Runs an assertion and returns the message it failed with. */
+const failure = (assertion: () => unknown): string => {
+    try {
+        assertion();
+    } catch (error) {
+        expect(error).toBeInstanceOf(AssertionError);
+        return (error as AssertionError).message;
+    }
+    throw new Error("Expected the assertion to fail");
+};
+
+describe("expectBroadcast", () => {
+    const setup = async () => {
+        const ops = new MemoryClient();
+        const pager = new MemoryClient().fail({ times: 1, error: "HTTP 503" });
+        const group = new BroadcastGroup("alerts", []).addClient(ops, "ops").addClient(pager, "pager");
+        await group.broadcastError("DB", "db down");
+        await group.broadcastWarning("Disk", "80% used");
+        return { group, ops, pager };
+    };
+
+    it("passes when any client received a matching message", async () => {
+        const { group } = await setup();
+
+        expectBroadcast(group).toHaveSentError(/db down/).toHaveSentWarning("Disk").toHaveSentCount(3);
+        expectBroadcast(group).not.toHaveSentCritical();
+        expectBroadcast(group).client("pager").not.toHaveSentError();
+        expectBroadcast(group).client("pager").toHaveSent((call) => call.embed?.severity === "warn");
+    });
+
+    it("lists every call, failures included, when an assertion fails", async () => {
+        const { group } = await setup();
+
+        expect(failure(() => expectBroadcast(group).client("pager").toHaveSentError("db down"))).toBe(
+            [
+                `Expected client 'pager' to have sent an error message matching "db down". Received:`,
+                "  - pager: sendEmbed [error] ❌ DB db down (failed: HTTP 503)",
+                "  - pager: sendEmbed [warn] ⚠️ Disk 80% used",
+            ].join("\n")
+        );
+        expect(failure(() => expectBroadcast(group).not.toHaveSentWarning(/Disk/))).toMatch(
+            /^Expected broadcast not to have sent a warn message matching \/Disk\/\. Received:\n {2}- ops: /
+        );
+        expect(failure(() => expectBroadcast(group).toHaveSentCount(4))).toMatch(
+            /^Expected broadcast to have sent 4 message\(s\), but 3 were sent\./
+        );
+    });
+
+    it("checks edits and deletions", async () => {
+        const client = new MemoryClient();
+        const group = new BroadcastGroup("deploys", [client]);
+        const { handles = {} } = await group.broadcast("⏳ running");
+
+        expect(failure(() => expectBroadcast(client).toHaveEdited())).toBe(
+            "Expected client 'memory' to have sent an edit. Received:\n  - memory: send ⏳ running"
+        );
+
+        await group.editBroadcast(handles, "✅ done");
+        await group.deleteBroadcast(handles);
+
+        expectBroadcast(client).toHaveEdited("done").toHaveDeleted().toHaveSentCount(1);
+    });
+
+    it("reports clients it cannot check", () => {
+        const group = new BroadcastGroup("alerts", []).addClient(new MemoryClient(), "ops");
+
+        expect(() => expectBroadcast(new BroadcastGroup("empty", []))).toThrow("at least one MemoryClient");
+        expect(() => expectBroadcast(group).client("pager")).toThrow("No memory client 'pager'. Available memory clients: ops");
+        expect(failure(() => expectBroadcast(new MemoryClient()).toHaveSent())).toBe(
+            "Expected client 'memory' to have sent a message. Received:\n  (nothing)"
+        );
+    });
+});
@@ -0,0 +1,221 @@
+import { AssertionError } from "assert";
+import { BroadcastGroup } from "./broadcast";
+import { MemoryClient } from "./clients/Memory";
+import { richToText } from "./rich";
+import { Severity } from "./types/broadcast";
+import { FileOptions } from "./types/file";
+import { MemoryCall, MemoryMethod, MessageMatcher } from "./types/memory";
+
+const SEND_METHODS: MemoryMethod[] = ["send", "sendEmbed", "sendRich", "sendFile"];
+const EDIT_METHODS: MemoryMethod[] = ["edit", "editEmbed"];
+
+/**
+ * Returns the text a matcher is tested against: the message, or the embed's title, description,
+ * fields and footer, or the rendered rich message, or the file's name and caption.
+ */
+export const callText = (call: MemoryCall): string => {
+    const parts: Array<string | undefined> = [];
+    const fileOptions = call.method === "sendFile" ? (call.options as FileOptions) : undefined;
+    const embed = call.embed ?? fileOptions?.embed;
+
+    if (typeof call.message === "string") parts.push(call.message);
+    else if (call.message) parts.push(JSON.stringify(call.message));
+    if (embed) {
+        parts.push(embed.title, embed.description);
+        (Array.isArray(embed.fields) ? embed.fields : []).forEach((f) => parts.push(`${f.name}: ${f.value}`));
+        parts.push(embed.footer?.text);
+    }
+    if (call.rich) parts.push(richToText(call.rich));
+    if (fileOptions) {
+        parts.push(fileOptions.filename ?? (typeof call.file === "string" ? call.file : undefined), fileOptions.content);
+    }
+
+    return parts.filter(Boolean).join("\n");
+};
+
+const severityOf = (call: MemoryCall): Severity | undefined =>
+    call.embed?.severity ?? call.rich?.severity ?? (call.options as FileOptions | undefined)?.embed?.severity;
+
+const matches = (call: MemoryCall, matcher?: MessageMatcher): boolean => {
+    if (matcher === undefined) return true;
+    if (typeof matcher === "function") return matcher(call);
+    const text = callText(call);
+    return typeof matcher === "string" ? text.includes(matcher) : text.search(matcher) >= 0;
+};
+
+const describeMatcher = (matcher?: MessageMatcher): string => {
+    if (matcher === undefined) return "";
+    if (typeof matcher === "function") return " matching the predicate";
+    return ` matching ${typeof matcher === "string" ? JSON.stringify(matcher) : matcher}`;
+};
+
+/** One line per recorded call, for assertion messages. */
+const describeCall = (alias: string, call: MemoryCall): string => {
+    const severity = severityOf(call);
+    const text = callText(call).replace(/\s+/g, " ").slice(0, 120);
+    return `  - ${alias}: ${call.method}${severity ? ` [${severity}]` : ""} ${text}${call.error ? ` (failed: ${call.error})` : ""}`;
+};
+
+/**
+ * Assertions about what the memory clients of a group (or a single memory client) received.
+ * Failed assertions throw an `AssertionError`, which every test runner reports.
+ * Send assertions pass when any selected client received a matching message; use `client()`
+ * to check one client and `not` to negate.
+ */
+export class BroadcastExpectation {
+    /**
+     * @param {Array<{ alias: string; client: MemoryClient }>} clients - The memory clients checked.
+     * @param {boolean} [negated=false] - Whether assertions are negated.
+     */
+    constructor(
+        private clients: Array<{ alias: string; client: MemoryClient }>,
+        private negated = false
+    ) {}
+
+    /**
+     * The same expectation, negated.
+     * @returns {BroadcastExpectation}
+     */
+    get not(): BroadcastExpectation {
+        return new BroadcastExpectation(this.clients, !this.negated);
+    }
+
+    /**
+     * Restricts the expectation to one client of the group.
+     * @param {string} alias - Alias of a memory client in the group.
+     * @returns {BroadcastExpectation}
+     * @throws {Error} If the group has no memory client with that alias.
+     */
+    client(alias: string): BroadcastExpectation {
+        const selected = this.clients.filter((c) => c.alias === alias);
+        if (selected.length === 0) {
+            const available = this.clients.map((c) => c.alias).join(", ");
+            throw new Error(`No memory client '${alias}'. Available memory clients: ${available}`);
+        }
+        return new BroadcastExpectation(selected, this.negated);
+    }
+
+    /**
+     * Asserts that a message (text, embed, rich message or file) was sent.
+     * @param {MessageMatcher} [matcher] - Substring, pattern or predicate the message must match.
+     * @returns {this}
+     */
+    toHaveSent(matcher?: MessageMatcher): this {
+        return this._assert(`a message${describeMatcher(matcher)}`, (call) =>
+            SEND_METHODS.includes(call.method) && matches(call, matcher)
+        );
+    }
+
+    /**
+     * Asserts that an embed, rich message or file of the given severity was sent.
+     * @param {Severity} severity - Severity the message must have.
+     * @param {MessageMatcher} [matcher] - Substring, pattern or predicate the message must match.
+     * @returns {this}
+     */
+    toHaveSentSeverity(severity: Severity, matcher?: MessageMatcher): this {
+        const article = /^[aeiou]/.test(severity) ? "an" : "a";
+        return this._assert(`${article} ${severity} message${describeMatcher(matcher)}`, (call) =>
+            SEND_METHODS.includes(call.method) && severityOf(call) === severity && matches(call, matcher)
+        );
+    }
+
+    /** Asserts that an error message was sent, e.g. by `broadcastError()`. */
+    toHaveSentError(matcher?: MessageMatcher): this {
+        return this.toHaveSentSeverity("error", matcher);
+    }
+
+    /** Asserts that a critical message was sent, e.g. by `broadcastCritical()`. */
+    toHaveSentCritical(matcher?: MessageMatcher): this {
+        return this.toHaveSentSeverity("critical", matcher);
+    }
+
+    /** Asserts that a warning was sent, e.g. by `broadcastWarning()`. */
+    toHaveSentWarning(matcher?: MessageMatcher): this {
+        return this.toHaveSentSeverity("warn", matcher);
+    }
+
+    /**
+     * Asserts how many messages the selected clients received in total.
+     * @param {number} count - Expected number of successful sends.
+     * @returns {this}
+     */
+    toHaveSentCount(count: number): this {
+        const sent = this.clients.reduce(
+            (total, { client }) => total + client.sent.filter((call) => SEND_METHODS.includes(call.method)).length,
+            0
+        );
+        if ((sent === count) === this.negated) {
+            this._fail(`${this.negated ? "not " : ""}to have sent ${count} message(s), but ${sent} were sent`);
+        }
+        return this;
+    }
+
+    /**
+     * Asserts that an earlier message was edited.
+     * @param {MessageMatcher} [matcher] - Substring, pattern or predicate the new content must match.
+     * @returns {this}
+     */
+    toHaveEdited(matcher?: MessageMatcher): this {
+        return this._assert(`an edit${describeMatcher(matcher)}`, (call) =>
+            EDIT_METHODS.includes(call.method) && matches(call, matcher)
+        );
+    }
+
+    /**
+     * Asserts that an earlier message was deleted.
+     * @returns {this}
+     */
+    toHaveDeleted(): this {
+        return this._assert("a deletion", (call) => call.method === "delete");
+    }
+
+    /** @private */
+    private _assert(what: string, predicate: (call: MemoryCall) => boolean): this {
+        const found = this.clients.some(({ client }) => client.sent.some(predicate));
+        if (found === this.negated) {
+            this._fail(`${this.negated ? "not " : ""}to have sent ${what}`);
+        }
+        return this;
+    }
+
+    /** @private */
+    private _fail(expectation: string): never {
+        const subject = this.clients.length === 1 ? `client '${this.clients[0]!.alias}'` : "broadcast";
+        const received = this.clients.flatMap(({ alias, client }) => client.calls.map((call) => describeCall(alias, call)));
+        throw new AssertionError({
+            message: `Expected ${subject} ${expectation}. Received:\n${received.join("\n") || "  (nothing)"}`,
+            stackStartFn: this._fail,
+        });
+    }
+}
+
+/**
+ * Starts assertions about what a group's memory clients, or a single memory client, received.
+ * Clients of other platforms in the group are ignored.
+ *
+ * @param {BroadcastGroup | MemoryClient} target - The group or client to check.
+ * @returns {BroadcastExpectation}
+ * @throws {Error} If the group has no memory clients.
+ *
+ * @example
+ * ```ts
+ * await checkDatabase(alerts); // calls alerts.broadcastError("DB", "db down")
+ *
+ * expectBroadcast(alerts).toHaveSentError(/db down/);
+ * expectBroadcast(alerts).client("pager").not.toHaveSent();
+ * ```
+ */
+export const expectBroadcast = (target: BroadcastGroup | MemoryClient): BroadcastExpectation => {
+    if (target instanceof MemoryClient) {
+        return new BroadcastExpectation([{ alias: "memory", client: target }]);
+    }
+
+    const clients = target
+        .listClients()
+        .map(({ alias }) => ({ alias, client: target.getClient(alias) }))
+        .filter((c): c is { alias: string; client: MemoryClient } => c.client instanceof MemoryClient);
+    if (clients.length === 0) {
+        throw new Error("expectBroadcast() needs a group with at least one MemoryClient");
+    }
+    return new BroadcastExpectation(clients);
+};
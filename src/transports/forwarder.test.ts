@@ -0,0 +1,88 @@
+import { describe, expect, it } from "@jest/globals";
+import { LogForwarder } from "./forwarder";
+import { BroadcastGroup } from "../broadcast";
+import { EmbedOptions } from "../types/broadcast";
+import { LogRecord } from "../types/transports";
+
+/** A client whose deliveries stay open until released, tracking how many run at once. */
+const gatedClient = () => {
+    const gates: Array<() => void> = [];
+    const state = { active: 0, peak: 0, sent: [] as string[] };
+    const client = {
+        send: async () => ({ success: true }),
+        sendEmbed: async (embed: EmbedOptions) => {
+            state.active++;
+            state.peak = Math.max(state.peak, state.active);
+            await new Promise<void>((resolve) => gates.push(resolve));
+            state.active--;
+            state.sent.push(embed.description);
+            return { success: true };
+        },
+    };
+    const release = async () => {
+        while (gates.length > 0) {
+            gates.splice(0).forEach((open) => open());
+            await new Promise((resolve) => setImmediate(resolve));
+        }
+    };
+    return { client, state, release };
+};
+
+const record = (message: string): LogRecord => ({ level: "error", message, fields: {} });
+
+describe("LogForwarder", () => {
+    it("caps concurrent deliveries and drops what does not fit in the queue", async () => {
+        const { client, state, release } = gatedClient();
+        const errors: string[] = [];
+        const forwarder = new LogForwarder(new BroadcastGroup("logs", [client]), {
+            maxConcurrent: 2,
+            maxQueue: 1,
+            onError: (error) => errors.push(error.message),
+        });
+
+        ["a", "b", "c", "d", "e"].forEach((m) => forwarder.forward(record(m)));
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(state.active).toBe(2);
+        expect(forwarder.dropped).toBe(2);
+        expect(errors).toEqual(["Log forwarding queue is full (1); dropping log lines"]);
+
+        const flushed = forwarder.flush();
+        await release();
+        await flushed;
+
+        expect(state.sent).toEqual(["a", "b", "c"]);
+        expect(state.peak).toBe(2);
+    });
+
+    it("reports a new burst once the queue has drained", async () => {
+        const { client, release } = gatedClient();
+        const errors: Error[] = [];
+        const forwarder = new LogForwarder(new BroadcastGroup("logs", [client]), {
+            maxConcurrent: 1,
+            maxQueue: 0,
+            onError: (error) => errors.push(error),
+        });
+
+        forwarder.forward(record("a"));
+        forwarder.forward(record("b"));
+        forwarder.forward(record("c"));
+        await Promise.all([forwarder.flush(), release()]);
+        forwarder.forward(record("d"));
+        forwarder.forward(record("e"));
+        await Promise.all([forwarder.flush(), release()]);
+
+        expect(forwarder.dropped).toBe(3);
+        expect(errors).toHaveLength(2);
+    });
+
+    it("ignores records below its level", async () => {
+        const { client, state } = gatedClient();
+        const forwarder = new LogForwarder(new BroadcastGroup("logs", [client]), { level: "error" });
+
+        forwarder.forward({ level: "warn", message: "ignored", fields: {} });
+        await forwarder.flush();
+
+        expect(state.peak).toBe(0);
+    });
+});
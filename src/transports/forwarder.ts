@@ -0,0 +1,171 @@
+import { BroadcastGroup } from "../broadcast";
+import { PLATFORM_LIMITS, SEVERITY_COLORS } from "../utils/constants";
+import { meetsSeverity } from "../utils/severity";
+import { EmbedOptions, Severity } from "../types/broadcast";
+import { LogRecord, LogTransportOptions } from "../types/transports";
+
+const SEVERITY_EMOJI: Record<Severity, string> = {
+    debug: "🐛",
+    info: "ℹ️",
+    warn: "⚠️",
+    error: "❌",
+    critical: "🚨",
+};
+
+/** Shortens text to `max` characters, marking the cut. */
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+/** Renders a structured field value as display text. */
+const stringify = (value: unknown): string => {
+    if (typeof value === "string") return value;
+    if (value instanceof Date) return value.toISOString();
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        return String(value);
+    }
+};
+
+/**
+ * @internal
+ * `LogForwarder` turns normalized log records into embeds and broadcasts them without blocking
+ * the logger. The logger adapters share it. At most `maxConcurrent` deliveries run at once;
+ * further records wait in a queue of `maxQueue`, and records arriving while it is full are
+ * dropped and counted. `flush()` waits for the queue to drain on shutdown.
+ */
+export class LogForwarder {
+    /** Least severe level forwarded */
+    readonly level: Severity;
+
+    /** Records dropped because the queue was full */
+    dropped = 0;
+
+    private group: BroadcastGroup;
+    private options: LogTransportOptions;
+    private omit: Set<string>;
+    private maxConcurrent: number;
+    private maxQueue: number;
+    private queue: LogRecord[] = [];
+    private inFlight: Set<Promise<void>> = new Set();
+    /** Set from the first drop until the queue drains, so a burst is reported once. */
+    private overflowing = false;
+
+    constructor(group: BroadcastGroup, options: LogTransportOptions) {
+        this.group = group;
+        this.options = options;
+        this.level = options.level ?? "error";
+        this.omit = new Set(options.omitFields ?? []);
+        this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 4);
+        this.maxQueue = Math.max(0, options.maxQueue ?? 100);
+    }
+
+    /** Returns `true` if records of this severity are forwarded. */
+    accepts(level: Severity): boolean {
+        return meetsSeverity(level, this.level);
+    }
+
+    /**
+     * Starts delivering a record in the background, or queues it, and returns immediately.
+     * Records below the threshold are ignored; records that do not fit in the queue are dropped.
+     */
+    forward(record: LogRecord): void {
+        if (!this.accepts(record.level)) return;
+
+        if (this.inFlight.size < this.maxConcurrent) {
+            this._start(record);
+        } else if (this.queue.length < this.maxQueue) {
+            this.queue.push(record);
+        } else {
+            this.dropped++;
+            if (!this.overflowing) {
+                this.overflowing = true;
+                this._report(new Error(`Log forwarding queue is full (${this.maxQueue}); dropping log lines`), record);
+            }
+        }
+    }
+
+    /** Waits for every delivery started or queued so far. */
+    async flush(): Promise<void> {
+        while (this.inFlight.size > 0) {
+            await Promise.all(Array.from(this.inFlight));
+        }
+    }
+
+    /**
+     * Delivers a record, then starts the next queued one.
+     * @private
+     */
+    private _start(record: LogRecord): void {
+        const task = this.group
+            .broadcastEmbed(this.toEmbed(record))
+            .then((summary) => {
+                Object.entries(summary.results).forEach(([alias, result]) => {
+                    if (!result.success) {
+                        this._report(new Error(`Failed to forward log to '${alias}': ${result.error}`), record);
+                    }
+                });
+            })
+            .catch((err: unknown) => this._report(err instanceof Error ? err : new Error(String(err)), record))
+            .finally(() => {
+                this.inFlight.delete(task);
+                const next = this.queue.shift();
+                if (next) this._start(next);
+                else this.overflowing = false;
+            });
+
+        this.inFlight.add(task);
+    }
+
+    /**
+     * Maps a record onto an embed: level and name in the title, message and stack in the
+     * description, structured fields as embed fields.
+     */
+    toEmbed(record: LogRecord): EmbedOptions {
+        const limits = PLATFORM_LIMITS.discord;
+        const name = this.options.name;
+        const maxFields = Math.min(this.options.maxFields ?? 10, limits.fieldsPerEmbed);
+
+        let description = record.message || record.error?.message || "(no message)";
+        if (record.error?.stack) {
+            description += `\n\`\`\`\n${record.error.stack}\n\`\`\``;
+        }
+
+        const fields = Object.entries(record.fields)
+            .filter(([key, value]) => !this.omit.has(key) && value !== undefined)
+            .slice(0, maxFields)
+            .map(([key, value]) => {
+                const text = stringify(value);
+                return {
+                    name: truncate(key, limits.fieldName),
+                    value: truncate(text || "\u200b", limits.fieldValue),
+                    inline: text.length <= 40,
+                };
+            });
+
+        const embed: EmbedOptions = {
+            title: truncate(
+                `${SEVERITY_EMOJI[record.level]} ${record.level.toUpperCase()}${name ? ` · ${name}` : ""}`,
+                limits.title
+            ),
+            description: truncate(description, limits.description),
+            color: SEVERITY_COLORS[record.level],
+            severity: record.level,
+            timestamp: (record.timestamp ?? new Date()).toISOString(),
+        };
+        if (fields.length > 0) embed.fields = fields;
+        if (name) embed.footer = { text: name };
+
+        return embed;
+    }
+
+    /**
+     * @private
+     */
+    private _report(error: Error, record: LogRecord): void {
+        try {
+            this.options.onError?.(error, record);
+        } catch {
+            // A failing error handler must not break logging.
+        }
+    }
+}
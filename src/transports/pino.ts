@@ -0,0 +1,161 @@
+import { Writable } from "stream";
+import { BroadcastGroup } from "../broadcast";
+import { LogForwarder } from "./forwarder";
+import { Severity } from "../types/broadcast";
+import { LogRecord, PinoTransportOptions } from "../types/transports";
+
+/** Severity of the standard numeric pino levels. */
+const PINO_LEVELS: Record<number, Severity> = {
+    10: "debug",
+    20: "debug",
+    30: "info",
+    40: "warn",
+    50: "error",
+    60: "critical",
+};
+
+/** Severity of the standard level labels, for loggers using `formatters.level`. */
+const PINO_LABELS: Record<string, Severity> = {
+    trace: "debug",
+    debug: "debug",
+    info: "info",
+    warn: "warn",
+    error: "error",
+    fatal: "critical",
+};
+
+/** Keys pino adds to every line, which are not useful as embed fields. */
+const RESERVED_KEYS = new Set(["level", "time", "msg", "pid", "hostname", "v", "err", "error"]);
+
+/**
+ * Pino destination stream that forwards log lines at or above a severity threshold to a broadcast group.
+ *
+ * Pass it as the destination (or one of the `pino.multistream` streams) of an in-process logger.
+ * Lines are parsed from pino's NDJSON output and delivered in the background, so `write()` never
+ * waits on a webhook. Ending the stream waits for in-flight deliveries.
+ *
+ * @example
+ * ```ts
+ * import pino from "pino";
+ *
+ * const logger = pino(
+ *   { level: "info" },
+ *   pino.multistream([
+ *     { stream: process.stdout },
+ *     { level: "error", stream: new PinoTransport(alerts, { level: "error", name: "billing-api" }) },
+ *   ])
+ * );
+ *
+ * logger.error({ orderId: 42, err }, "Charge failed");
+ * ```
+ */
+export class PinoTransport extends Writable {
+    private forwarder: LogForwarder;
+    private levels: Record<number, Severity>;
+    private buffer = "";
+
+    /**
+     * @param {BroadcastGroup} group - Group that receives the log lines.
+     * @param {PinoTransportOptions} options - Threshold, naming and field options.
+     */
+    constructor(group: BroadcastGroup, options: PinoTransportOptions = {}) {
+        super({ decodeStrings: false });
+        this.forwarder = new LogForwarder(group, options);
+        this.levels = { ...PINO_LEVELS, ...options.levels };
+    }
+
+    /**
+     * Log lines dropped because the delivery queue was full.
+     */
+    get dropped(): number {
+        return this.forwarder.dropped;
+    }
+
+    /**
+     * Waits for every delivery started or queued so far.
+     */
+    async flush(): Promise<void> {
+        await this.forwarder.flush();
+    }
+
+    /** @private */
+    override _write(chunk: Buffer | string, _encoding: string, callback: () => void): void {
+        this.buffer += chunk.toString();
+
+        let index: number;
+        while ((index = this.buffer.indexOf("\n")) >= 0) {
+            const line = this.buffer.slice(0, index);
+            this.buffer = this.buffer.slice(index + 1);
+            this._handleLine(line);
+        }
+
+        callback();
+    }
+
+    /** @private */
+    override _final(callback: (error?: Error | null) => void): void {
+        if (this.buffer) this._handleLine(this.buffer);
+        this.buffer = "";
+        this.flush().then(() => callback(), callback);
+    }
+
+    /**
+     * Parses one NDJSON line and forwards it. Lines that are not pino JSON are ignored.
+     * @private
+     */
+    private _handleLine(line: string): void {
+        if (!line.trim()) return;
+
+        let entry: Record<string, any>;
+        try {
+            entry = JSON.parse(line);
+        } catch {
+            return;
+        }
+
+        const record = this._normalize(entry);
+        if (record) this.forwarder.forward(record);
+    }
+
+    /**
+     * Converts a parsed pino line into a log record, or `null` for unknown levels.
+     * Custom numeric levels without a mapping take the severity of the nearest standard level below.
+     * @private
+     */
+    private _normalize(entry: Record<string, any>): LogRecord | null {
+        const level = this._severity(entry.level);
+        if (!level) return null;
+
+        const err = entry.err ?? entry.error;
+        const fields: Record<string, unknown> = {};
+        Object.keys(entry).forEach((key) => {
+            if (!RESERVED_KEYS.has(key)) fields[key] = entry[key];
+        });
+
+        return {
+            level,
+            message: typeof entry.msg === "string" ? entry.msg : "",
+            fields,
+            error:
+                err && typeof err === "object"
+                    ? { name: err.type ?? err.name, message: err.message, stack: err.stack }
+                    : undefined,
+            timestamp: typeof entry.time === "number" ? new Date(entry.time) : undefined,
+        };
+    }
+
+    /** @private */
+    private _severity(level: unknown): Severity | null {
+        if (typeof level === "string") return PINO_LABELS[level] ?? null;
+        if (typeof level !== "number") return null;
+
+        const mapped = this.levels[level];
+        if (mapped) return mapped;
+
+        const below = Object.keys(this.levels)
+            .map(Number)
+            .filter((n) => n <= level)
+            .sort((a, b) => b - a)[0];
+        return below === undefined ? null : this.levels[below] ?? null;
+    }
+}
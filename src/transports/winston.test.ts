@@ -0,0 +1,73 @@
+import { describe, expect, it } from "@jest/globals";
+import { WinstonTransport } from "./winston";
+import { BroadcastGroup } from "../broadcast";
+import { MemoryClient } from "../clients/Memory";
+import { WinstonTransportOptions } from "../types/transports";
+
+const LEVEL = Symbol.for("level");
+const NPM_LEVELS = { error: 0, warn: 1, info: 2, http: 3, verbose: 4, debug: 5, silly: 6 };
+
+/** Pipes a transport from a stand-in for a winston logger, as `logger.add()` does. */
+const setup = (options: WinstonTransportOptions = {}) => {
+    const client = new MemoryClient();
+    const transport = new WinstonTransport(new BroadcastGroup("logs", [client]), options);
+    transport.emit("pipe", { levels: NPM_LEVELS, level: "info" });
+
+    const log = (level: string, message: string, meta: Record<string, unknown> = {}) =>
+        new Promise<void>((resolve) => transport.write({ level, message, ...meta, [LEVEL]: level }, () => resolve()));
+    return { client, transport, log };
+};
+
+describe("WinstonTransport", () => {
+    it("forwards lines at or above its level, with fields", async () => {
+        const { client, transport, log } = setup();
+
+        await log("warn", "slow query");
+        await log("error", "charge failed", { orderId: 42 });
+        await transport.flush();
+
+        expect(client.sent).toHaveLength(1);
+        expect(client.sent[0]!.embed).toMatchObject({
+            description: "charge failed",
+            severity: "error",
+            fields: [{ name: "orderId", value: "42" }],
+        });
+    });
+
+    it("maps a winston level below error to a severity", async () => {
+        const { client, transport, log } = setup({ level: "http" });
+
+        await log("http", "GET /health");
+        await transport.flush();
+
+        expect(client.sent[0]!.embed?.severity).toBe("info");
+    });
+
+    it("honours silent and handleExceptions", async () => {
+        const silent = setup({ silent: true });
+        await silent.log("error", "hidden");
+        await silent.transport.flush();
+
+        const plain = setup();
+        await plain.log("error", "uncaught", { exception: true });
+        await plain.transport.flush();
+
+        const handling = setup({ handleExceptions: true });
+        await handling.log("error", "uncaught", { exception: true });
+        await handling.transport.flush();
+
+        expect(silent.client.sent).toHaveLength(0);
+        expect(plain.client.sent).toHaveLength(0);
+        expect(handling.client.sent).toHaveLength(1);
+    });
+
+    it("applies its own format", async () => {
+        const format = { transform: (info: any) => ({ ...info, message: `[billing] ${info.message}` }) };
+        const { client, transport, log } = setup({ format: format as NonNullable<WinstonTransportOptions["format"]> });
+
+        await log("error", "charge failed");
+        await transport.flush();
+
+        expect(client.sent[0]!.embed?.description).toBe("[billing] charge failed");
+    });
+});
@@ -0,0 +1,131 @@
+import TransportStream from "winston-transport";
+import { BroadcastGroup } from "../broadcast";
+import { LogForwarder } from "./forwarder";
+import { Severity } from "../types/broadcast";
+import { LogRecord, WinstonTransportOptions } from "../types/transports";
+
+/** Severity of the npm and syslog level names. */
+const WINSTON_LEVELS: Record<string, Severity> = {
+    silly: "debug",
+    debug: "debug",
+    verbose: "debug",
+    http: "info",
+    info: "info",
+    notice: "info",
+    warn: "warn",
+    warning: "warn",
+    error: "error",
+    crit: "critical",
+    alert: "critical",
+    emerg: "critical",
+};
+
+/** Keys of the info object that describe the log line itself rather than its metadata. */
+const RESERVED_KEYS = new Set(["level", "message", "stack", "timestamp", "error", "err"]);
+
+const LEVEL = Symbol.for("level");
+
+/**
+ * Winston transport that forwards log lines at or above a level to a broadcast group.
+ *
+ * It is a regular winston transport: `level`, `silent`, `format`, `handleExceptions` and
+ * `handleRejections` work as for any other. Delivery happens in the background: `log()` returns
+ * immediately and a slow or failing webhook never holds up the logger. Ending the logger waits
+ * for in-flight deliveries.
+ *
+ * @example
+ * ```ts
+ * import winston from "winston";
+ *
+ * const logger = winston.createLogger({
+ *   format: winston.format.combine(winston.format.errors({ stack: true }), winston.format.json()),
+ *   transports: [
+ *     new winston.transports.Console(),
+ *     new WinstonTransport(alerts, { level: "error", name: "billing-api" }),
+ *   ],
+ * });
+ *
+ * logger.error("Charge failed", { orderId: 42 });
+ * ```
+ */
+export class WinstonTransport extends TransportStream {
+    /** Transport name reported to winston. */
+    readonly name = "logifly";
+
+    private forwarder: LogForwarder;
+    private severities: Record<string, Severity>;
+
+    /**
+     * @param {BroadcastGroup} group - Group that receives the log lines.
+     * @param {WinstonTransportOptions} options - Level, format, naming and field options.
+     */
+    constructor(group: BroadcastGroup, options: WinstonTransportOptions = {}) {
+        const { level = "error", format, silent, handleExceptions, handleRejections, ...forwarding } = options;
+        super({
+            level,
+            ...(format ? { format } : {}),
+            ...(silent !== undefined ? { silent } : {}),
+            ...(handleExceptions !== undefined ? { handleExceptions } : {}),
+            ...(handleRejections !== undefined ? { handleRejections } : {}),
+        });
+        // Winston filters by level before calling log(), so every line that reaches it is forwarded.
+        this.forwarder = new LogForwarder(group, { ...forwarding, level: "debug" });
+        this.severities = { ...WINSTON_LEVELS, ...options.levels };
+    }
+
+    /**
+     * Log lines dropped because the delivery queue was full.
+     */
+    get dropped(): number {
+        return this.forwarder.dropped;
+    }
+
+    /**
+     * Receives a winston info object. Called by winston for every log line.
+     * @param {Record<string | symbol, any>} info - The winston info object.
+     * @param {Function} callback - Signals winston that the line was handled.
+     */
+    override log(info: Record<string | symbol, any>, callback: () => void): void {
+        const record = this._normalize(info);
+        if (record) this.forwarder.forward(record);
+        callback();
+    }
+
+    /**
+     * Waits for every delivery started or queued so far.
+     */
+    async flush(): Promise<void> {
+        await this.forwarder.flush();
+    }
+
+    /** @private */
+    override _final(callback: (error?: Error | null) => void): void {
+        this.flush().then(() => callback(), callback);
+    }
+
+    /**
+     * Converts a winston info object into a log record, or `null` for unknown levels.
+     * The raw level symbol is preferred since `format.colorize()` rewrites `info.level`.
+     * @private
+     */
+    private _normalize(info: Record<string | symbol, any>): LogRecord | null {
+        const level = this.severities[String(info[LEVEL] ?? info.level)];
+        if (!level) return null;
+
+        const error = info.error instanceof Error ? info.error : info.err instanceof Error ? info.err : undefined;
+        const fields: Record<string, unknown> = {};
+        Object.keys(info).forEach((key) => {
+            if (!RESERVED_KEYS.has(key)) fields[key] = info[key];
+        });
+
+        const timestamp = info.timestamp ? new Date(info.timestamp) : undefined;
+
+        return {
+            level,
+            message: typeof info.message === "string" ? info.message : JSON.stringify(info.message),
+            fields,
+            error: error ?? (info.stack ? { stack: String(info.stack) } : undefined),
+            timestamp: timestamp && !isNaN(timestamp.getTime()) ? timestamp : undefined,
+        };
+    }
+}
@@ -1,28 +1,157 @@
+import { SEVERITY_LEVELS } from "../utils/constants";
+import { RedactionConfig } from "./redaction";
+import type { TemplateRegistry } from "../templates";
+import { RichMessage } from "./rich";
+import type { FileInput, FileOptions } from "./file";
+import { DryRunConfig } from "./dryrun";
+import type { UnsentPart } from "./overflow";
+
+export type Severity = (typeof SEVERITY_LEVELS)[number];
+
 export interface PlatformClient {
     send(message: string | object, options?: Record<string, any>): Promise<any>;
     sendEmbed?(embedOptions: EmbedOptions): Promise<any>;
+    sendRich?(message: RichMessage): Promise<any>;
+    sendFile?(file: FileInput, options?: FileOptions): Promise<any>;
+    edit?(handle: MessageHandle, message: string | object): Promise<any>;
+    editEmbed?(handle: MessageHandle, embedOptions: EmbedOptions): Promise<any>;
+    delete?(handle: MessageHandle): Promise<any>;
     testConnection?(): Promise<boolean>;
+    /** `true` for clients that print previews instead of sending while dry run is active. */
+    readonly supportsDryRun?: boolean;
 }
 
 export interface EmbedOptions {
-    title: string;
+    title?: string;
     description: string;
     color?: number;
+    severity?: Severity;
+    /** Metadata such as `{ service: "payments", env: "prod" }`, used by routing rules. */
+    tags?: Record<string, string>;
     [key: string]: any;
 }
 
+export interface ClientOptions {
+    /** Least severe level this client receives; anything below is skipped. Defaults to `"debug"`. */
+    minLevel?: Severity;
+    /** Redaction for this client, overriding the group's setting; `false` disables it. */
+    redact?: RedactionConfig;
+}
+
+/**
+ * Identifies the messages a client posted for one send, so they can be edited or deleted later.
+ * A handle is plain data: it can be stored and used again after a restart.
+ */
+export interface MessageHandle {
+    platform: string;
+    /** IDs of the posted messages, in order; several when an oversized message was split. */
+    ids: string[];
+}
+
+export interface SkippedClient {
+    platform: string;
+    reason: string;
+}
+
 export interface BroadcastResult {
     success: boolean;
     platform: string;
     result?: any;
     error?: string;
     note?: string;
+    /** Number of delivery attempts the client made, when it reports them. */
+    attempts?: number | undefined;
+    /** Number of redactions applied to the payload (by the group and the client), when redaction is enabled. */
+    redactions?: number | undefined;
+    /** The posted messages, when the client supports editing them. */
+    handle?: MessageHandle | undefined;
 }
 
 export interface BroadcastSummary {
     groupName: string;
     totalClients: number;
+    severity: Severity;
     results: Record<string, BroadcastResult>;
+    /** Clients that were not sent the message, keyed by alias. */
+    skipped: Record<string, SkippedClient>;
+    /** Set when the message was held back as a duplicate within the suppression window. */
+    suppressed?: { fingerprint: string; count: number };
+    /** Set when the message was queued for the next digest instead of being sent. */
+    digest?: { pending: number };
+    /** Handles of the posted messages by alias, for `editBroadcast()` and `deleteBroadcast()`. */
+    handles?: Record<string, MessageHandle>;
+    /** Set when dry run was active: payloads were printed, not sent. */
+    dryRun?: boolean;
+}
+
+export type BroadcastMessage = string | object;
+
+export interface DedupOptions {
+    /** Suppression window in milliseconds. Defaults to 60 seconds. */
+    window?: number;
+    /** Computes the identity of a message. Defaults to title + description for embeds, the text otherwise. */
+    fingerprint?: (message: BroadcastMessage | EmbedOptions) => string;
+}
+
+export interface DigestOptions {
+    /** How often the digest is flushed, in milliseconds. Defaults to 5 minutes. */
+    interval?: number;
+    /** Flush as soon as this many messages are pending. Defaults to 50. */
+    maxSize?: number;
+    /** Most severe level that is digested; anything above is sent immediately. Defaults to `"info"`. */
+    maxSeverity?: Severity;
+}
+
+export interface OutboxOptions {
+    /** JSONL file holding undelivered messages. Use one file per group. */
+    path: string;
+    /** Delivery attempts before a message is moved to the dead-letter list. Defaults to 5. */
+    maxAttempts?: number;
+    /** How often the background worker replays pending messages, in milliseconds. Defaults to 30 seconds; `0` disables it. */
+    retryInterval?: number;
+    /** Lines of acknowledged or superseded events after which the log is compacted. Defaults to 1000. */
+    compactAfter?: number;
+}
+
+export type OutboxPayload =
+    | { kind: "message"; message: BroadcastMessage; options: Record<string, any> }
+    | { kind: "embed"; embed: EmbedOptions }
+    | { kind: "rich"; rich: RichMessage }
+    /** The rest of a split message, after some of its parts were posted. */
+    | { kind: "parts"; parts: UnsentPart[] };
+
+export interface OutboxRecord {
+    id: string;
+    group: string;
+    alias: string;
+    severity: Severity;
+    payload: OutboxPayload;
+    status: "pending" | "dead";
+    attempts: number;
+    createdAt: string;
+    lastError?: string | undefined;
+}
+
+export interface OutboxReplayResult {
+    delivered: number;
+    failed: number;
+    /** Messages moved to the dead-letter list during this replay. */
+    dead: number;
+}
+
+export interface GroupOptions {
+    /** Enables duplicate suppression; `true` uses the defaults. */
+    dedup?: DedupOptions | boolean;
+    /** Buffers low-severity messages and sends them as periodic digests; `true` uses the defaults. */
+    digest?: DigestOptions | boolean;
+    /** Persists every delivery to a local outbox until it is acknowledged. */
+    outbox?: OutboxOptions;
+    /** Redacts secrets and personal data before messages leave the process; `true` uses the built-in detectors. */
+    redact?: RedactionConfig;
+    /** Prints payloads instead of sending them, overriding the global dry-run setting. */
+    dryRun?: DryRunConfig;
+    /** Templates available to `broadcastTemplate()`; `createGroup()` passes the SDK's registry. */
+    templates?: TemplateRegistry;
 }
 
 export interface TestConnectionResult {
@@ -0,0 +1,18 @@
+/** Process events that `captureProcessErrors` reports. */
+export type ProcessErrorEvent = "uncaughtException" | "unhandledRejection" | "SIGTERM";
+
+export interface CaptureOptions {
+    /** Also report `SIGTERM`. Defaults to `false`. */
+    sigterm?: boolean;
+    /**
+     * Exit after reporting: code 1 for uncaught exceptions and unhandled rejections, 143 for
+     * `SIGTERM` (only when no other `SIGTERM` listener is installed). Defaults to `true`.
+     */
+    exit?: boolean;
+    /** Longest time to wait for each delivery before moving on, in milliseconds. Defaults to 5000. */
+    timeout?: number;
+    /** Events reported after the first one, when they arrive while it is being sent. Defaults to 10. */
+    maxQueued?: number;
+    /** Extra fields added to every report, e.g. `{ release: "1.4.2" }`. */
+    fields?: Record<string, string>;
+}
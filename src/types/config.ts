@@ -0,0 +1,67 @@
+import { DedupOptions, DigestOptions, OutboxOptions, PlatformClient, Severity } from "./broadcast";
+import { RedactionConfig } from "./redaction";
+import { DryRunOptions } from "./dryrun";
+import { HttpTransportOptions } from "./http";
+import { RoutingRule } from "./routing";
+import { TemplateDefinition } from "./template";
+import type { BroadcastGroup } from "../broadcast";
+
+/** Built-in platforms. Platforms added with `registerPlatform()` are accepted too. */
+export type ClientType = "discord" | "slack" | "teams" | "telegram" | "email" | "webhook" | "memory";
+
+/**
+ * A client declared in a configuration: its platform plus the options of that platform's client,
+ * e.g. `{ type: "discord", webhookUrl: "${DISCORD_WEBHOOK_URL}" }`.
+ */
+export interface ClientDefinition {
+    type: ClientType | (string & {});
+    [option: string]: unknown;
+}
+
+/** A group member: a client name, or a client name with per-client options. */
+export type GroupMemberDefinition =
+    | string
+    | {
+          client: string;
+          /** Alias within the group. Defaults to the client name. */
+          alias?: string;
+          minLevel?: Severity;
+          redact?: RedactionConfig;
+      };
+
+export interface GroupDefinition {
+    clients: GroupMemberDefinition[];
+    dedup?: Omit<DedupOptions, "fingerprint"> | boolean;
+    digest?: DigestOptions | boolean;
+    outbox?: OutboxOptions;
+    redact?: RedactionConfig;
+    dryRun?: Omit<DryRunOptions, "output"> | boolean;
+}
+
+/**
+ * Declarative SDK setup. Strings may reference environment variables as `${NAME}` or
+ * `${NAME:-default}`; numbers and booleans may be given as strings.
+ */
+export interface LogiflyConfig {
+    /** Clients by name. */
+    clients: Record<string, ClientDefinition>;
+    /** Groups by name, listing their members. */
+    groups?: Record<string, GroupDefinition>;
+    /** Routing rules, appended in order. */
+    routes?: RoutingRule[];
+    /** Message templates by name. */
+    templates?: Record<string, TemplateDefinition>;
+    /** Options of the default transport, e.g. a proxy for every client. */
+    transport?: HttpTransportOptions;
+}
+
+export interface ConfigLoadOptions {
+    /** Variables used for `${NAME}` interpolation and the `LOGIFLY_*` convention. Defaults to `process.env`. */
+    env?: Record<string, string | undefined>;
+}
+
+/** What `fromConfig()` built. */
+export interface LoadedConfig {
+    clients: Record<string, PlatformClient>;
+    groups: Record<string, BroadcastGroup>;
+}
@@ -1,9 +1,25 @@
+import { RetryPolicy } from "./retry";
+import { TransportConfig } from "./http";
+import { OverflowPolicy } from "./overflow";
+import { RedactionConfig } from "./redaction";
+import { MessageHandle } from "./broadcast";
+
 export interface DiscordClientConfig {
     webhookUrl: string;
     username?: string;
     avatarUrl?: string;
     defaultColor?: number;
+    /** Deadline of each request, in milliseconds. Defaults to 5000. */
     timeout?: number;
+    /** Transport, or options for one, used instead of the default set with `setTransport()`. */
+    transport?: TransportConfig;
+    retry?: RetryPolicy;
+    /** Redacts secrets and personal data from every payload before it is sent. Off by default. */
+    redact?: RedactionConfig;
+    /** What to do with messages that exceed the platform's limits. Defaults to `"split"`. */
+    overflow?: OverflowPolicy;
+    /** Largest file `sendFile()` uploads, in bytes. Defaults to 10 MiB, the limit on servers without boosts. */
+    maxFileSize?: number;
 }
 
 export interface DiscordEmbedField {
@@ -28,4 +44,16 @@ export interface DiscordEmbed {
 export interface SendOptions {
     username?: string;
     avatarUrl?: string;
-}
\ No newline at end of file
+}
+export interface DiscordSendResult {
+    success: boolean;
+    platform: string;
+    timestamp: string;
+    /** Highest attempt count across the requests made. */
+    attempts: number;
+    redactions: number;
+    /** Number of messages posted or edited; more than one when an oversized message was split. */
+    parts: number;
+    /** Identifies the messages, for `edit()` and `delete()`. */
+    handle: MessageHandle;
+}
@@ -0,0 +1,12 @@
+export interface DryRunOptions {
+    /** Receives each rendered preview. Defaults to writing it to stdout. */
+    output?: (preview: string) => void;
+    /** Colorize previews. Defaults to `true` when stdout is a terminal and `NO_COLOR` is unset. */
+    color?: boolean;
+}
+
+/**
+ * `true` prints previews instead of sending, `false` sends normally (overriding the global setting),
+ * an options object customizes the previews.
+ */
+export type DryRunConfig = boolean | DryRunOptions;
@@ -0,0 +1,67 @@
+import { ConnectionOptions } from "tls";
+import { RetryPolicy } from "./retry";
+
+export type SmtpAuthMethod = "PLAIN" | "LOGIN";
+
+export interface EmailAuth {
+    user: string;
+    pass: string;
+    method?: SmtpAuthMethod;
+}
+
+export interface EmailClientConfig {
+    host: string;
+    port?: number;
+    /** Use implicit TLS from the start (usually port 465). */
+    secure?: boolean;
+    /** Upgrade with STARTTLS when the server advertises it. */
+    starttls?: boolean;
+    /** Fail instead of sending in clear text when STARTTLS is unavailable. */
+    requireTLS?: boolean;
+    /** Send `auth` credentials even when the connection is not encrypted. Off by default. */
+    allowInsecureAuth?: boolean;
+    auth?: EmailAuth;
+    tls?: ConnectionOptions;
+    from: string;
+    to: string | string[];
+    cc?: string | string[];
+    bcc?: string | string[];
+    subjectPrefix?: string;
+    /** Name announced in EHLO; defaults to the machine's host name. */
+    clientName?: string;
+    defaultColor?: number;
+    timeout?: number;
+    retry?: RetryPolicy;
+}
+
+export interface EmailEmbedField {
+    name: string;
+    value: string;
+    inline?: boolean;
+}
+
+export interface EmailEmbed {
+    title?: string | undefined;
+    description?: string | undefined;
+    color?: number | undefined;
+    fields?: EmailEmbedField[] | undefined;
+    timestamp?: string | undefined;
+    footer?: { text: string; icon_url?: string; } | undefined;
+    author?: { name: string; icon_url?: string; url?: string; } | undefined;
+    thumbnail?: { url: string; } | undefined;
+    image?: { url: string; } | undefined;
+    url?: string | undefined;
+}
+
+export interface EmailMessage {
+    subject?: string;
+    text?: string;
+    html?: string;
+}
+
+export interface EmailSendOptions {
+    subject?: string;
+    to?: string | string[];
+    cc?: string | string[];
+    bcc?: string | string[];
+}
@@ -0,0 +1,23 @@
+import { EmbedOptions, Severity } from "./broadcast";
+
+/** A file to send: its contents, or the path of a file on disk (streamed when uploaded). */
+export type FileInput = Buffer | string;
+
+export interface FileOptions {
+    /** Name shown for the attachment. Defaults to the file's base name, or `attachment` for buffers. */
+    filename?: string;
+    /** Message text sent with the file. */
+    content?: string;
+    /** Embed sent with the file; on Discord it may show an uploaded image via `attachment://<filename>`. */
+    embed?: EmbedOptions;
+}
+
+export interface BroadcastFileOptions extends FileOptions {
+    /** Severity used to select clients. Defaults to the embed's severity, or `"info"`. */
+    severity?: Severity;
+    /**
+     * Characters of the file shown inline by clients that cannot upload files; longer files are
+     * cut to an excerpt of their beginning. Defaults to 1500.
+     */
+    excerptLength?: number;
+}
@@ -0,0 +1,13 @@
+import { LogTransportOptions } from "./transports";
+
+/** Structured fields attached to a log call or logger context. */
+export type LogContext = Record<string, unknown>;
+
+export interface LoggerOptions extends Omit<LogTransportOptions, "level"> {
+    /** Name of the broadcast group that receives the log lines. */
+    group: string;
+    /** Fields attached to every log line, rendered as embed fields. */
+    context?: LogContext;
+    /** Least severe level sent. Defaults to `"info"`. */
+    level?: LogTransportOptions["level"];
+}
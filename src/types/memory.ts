@@ -0,0 +1,49 @@
+import { EmbedOptions, MessageHandle } from "./broadcast";
+import { FileInput, FileOptions } from "./file";
+import { RichMessage } from "./rich";
+
+export interface MemoryClientConfig {
+    /** Milliseconds each call waits before it is recorded, to simulate a slow platform. Defaults to `0`. */
+    latency?: number;
+}
+
+export type MemoryMethod = "send" | "sendEmbed" | "sendRich" | "sendFile" | "edit" | "editEmbed" | "delete";
+
+/** A call recorded by a `MemoryClient`. Only the fields relevant to the method are set. */
+export interface MemoryCall {
+    method: MemoryMethod;
+    /** Text or payload passed to `send()` or `edit()`. */
+    message?: string | object;
+    /** Embed passed to `sendEmbed()` or `editEmbed()`. */
+    embed?: EmbedOptions;
+    rich?: RichMessage;
+    file?: FileInput;
+    /** Send options, or the options passed to `sendFile()`. */
+    options?: Record<string, any> | FileOptions;
+    /** Handle passed to `edit()`, `editEmbed()` or `delete()`. */
+    handle?: MessageHandle;
+    timestamp: string;
+    /** Set when the call failed through failure injection. */
+    error?: string;
+}
+
+export interface FailureOptions {
+    /** Error thrown (wrapped in a `MessageSendError`). Defaults to `"Simulated failure"`. */
+    error?: string | Error;
+    /** Number of calls that fail. Defaults to every call until `recover()`. */
+    times?: number;
+    /** Fails only the calls this returns `true` for. */
+    when?: (call: MemoryCall) => boolean;
+}
+
+export interface MemorySendResult {
+    success: boolean;
+    platform: string;
+    timestamp: string;
+    attempts: number;
+    /** Set for sends and edits, so `editBroadcast()` and `deleteBroadcast()` can be tested. */
+    handle?: MessageHandle;
+}
+
+/** Matches a recorded call: a substring or pattern of its text, or a predicate. */
+export type MessageMatcher = string | RegExp | ((call: MemoryCall) => boolean);
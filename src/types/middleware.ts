@@ -0,0 +1,33 @@
+export interface HttpReporterOptions {
+    /** Fraction of reportable requests that are sent, from 0 to 1. Defaults to 1. */
+    sampleRate?: number;
+    /** Paths that are never reported: exact strings or patterns. */
+    ignorePaths?: Array<string | RegExp>;
+    /** Status codes that are never reported, e.g. `[503]`. */
+    ignoreStatus?: number[];
+    /** Headers included in the report. Defaults to user agent, content type, referer and forwarded-for. */
+    headers?: string[];
+    /** Header and body keys whose values are replaced with `[REDACTED]`. Merged with the defaults. */
+    redactKeys?: string[];
+    /** Include the parsed request body. Defaults to `true`. */
+    includeBody?: boolean;
+    /** Header that carries the request ID. Defaults to `x-request-id`. */
+    requestIdHeader?: string;
+    /** Service name shown in the footer. */
+    name?: string;
+}
+
+/**
+ * A failed request, normalized from a framework-specific request and response.
+ */
+export interface HttpErrorReport {
+    method: string;
+    path: string;
+    status: number;
+    requestId?: string | undefined;
+    /** Milliseconds between the request arriving and the response finishing, when known. */
+    latency?: number | undefined;
+    headers: Record<string, unknown>;
+    body?: unknown;
+    error?: unknown;
+}
@@ -0,0 +1,16 @@
+/**
+ * What a client does with a message that exceeds its platform's limits:
+ * - `"split"` sends it as several ordered messages, paginating embed fields and blocks;
+ * - `"truncate"` sends a single message, cutting text with a `… (truncated)` marker;
+ * - `"error"` throws before anything is sent.
+ */
+export type OverflowPolicy = "split" | "truncate" | "error";
+
+/**
+ * A send still owed after a split message was only partly delivered: passing `message`
+ * and `options` to the client's `send()` posts what did not go out.
+ */
+export interface UnsentPart {
+    message: string | object;
+    options: Record<string, unknown>;
+}
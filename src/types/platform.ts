@@ -0,0 +1,43 @@
+import { PlatformClient } from "./broadcast";
+
+/**
+ * Type of a client option, used to validate configurations loaded by `fromConfig()`.
+ * Numbers and booleans may be given as strings. `scalar` is a string or a number;
+ * `retry`, `redact`, `overflow`, `severity` and `transport` are the options shared by the built-in clients.
+ */
+export type ConfigField =
+    | "string"
+    | "number"
+    | "boolean"
+    | "scalar"
+    | "object"
+    | "retry"
+    | "redact"
+    | "overflow"
+    | "severity"
+    | "transport"
+    | { oneOf: readonly string[] }
+    | { list: ConfigField }
+    | { oneOrMany: ConfigField }
+    | ConfigSchema;
+
+/** Options of an object: unknown options and missing required ones are reported. */
+export interface ConfigSchema {
+    fields: Record<string, ConfigField>;
+    required?: string[];
+}
+
+/** Builds a client from its configuration. Should throw a `ConfigurationError` for invalid configurations. */
+export type PlatformFactory<C = any> = (config: C) => PlatformClient;
+
+export interface PlatformOptions {
+    /** Pattern the `webhookUrl` (or `url`) option must match. */
+    urlPattern?: RegExp;
+    /** Options accepted by `fromConfig()`. Without a schema, any options are passed to the factory. */
+    configSchema?: ConfigSchema;
+}
+
+export interface PlatformRegistration extends PlatformOptions {
+    name: string;
+    factory: PlatformFactory;
+}
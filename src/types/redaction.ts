@@ -0,0 +1,23 @@
+/** Built-in detectors for secrets and personal data. */
+export type RedactionDetector = "tokens" | "emails" | "creditCards" | "jwts";
+
+/**
+ * A custom redaction rule: a pattern whose matches are replaced (applied globally),
+ * or a function that returns the redacted text.
+ */
+export type RedactionRule = RegExp | ((text: string) => string);
+
+export interface RedactionOptions {
+    /** Built-in detectors to run. Defaults to all of them. */
+    detectors?: RedactionDetector[];
+    /** Additional patterns or functions, applied after the detectors. */
+    rules?: RedactionRule[];
+    /** Text that replaces each match. Defaults to `[REDACTED]`. */
+    replacement?: string;
+}
+
+/**
+ * `true` enables the built-in detectors, `false` disables redaction,
+ * an options object customizes it.
+ */
+export type RedactionConfig = boolean | RedactionOptions;
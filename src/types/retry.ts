@@ -0,0 +1,10 @@
+export interface RetryPolicy {
+    /** Total number of attempts, including the first one. `1` disables retries. */
+    maxAttempts?: number;
+    /** Base delay in milliseconds for the exponential backoff. */
+    baseDelay?: number;
+    /** Upper bound in milliseconds for a single wait between attempts. */
+    maxDelay?: number;
+    /** Randomizes each backoff delay ("full jitter") to avoid synchronized retries. */
+    jitter?: boolean;
+}
@@ -0,0 +1,40 @@
+import { Severity } from "./broadcast";
+
+export interface RichField {
+    name: string;
+    value: string;
+    inline?: boolean;
+}
+
+export interface RichButton {
+    text: string;
+    url: string;
+}
+
+/**
+ * A platform-neutral building block of a rich message.
+ * Text in `section` and `context` blocks may use basic Markdown (`**bold**`, `_italic_`, `` `code` ``, `[label](url)`).
+ */
+export type RichBlock =
+    | { type: "header"; text: string }
+    | { type: "section"; text: string }
+    | { type: "fields"; fields: RichField[] }
+    | { type: "context"; elements: string[] }
+    | { type: "divider" }
+    | { type: "image"; url: string; alt?: string }
+    | { type: "buttons"; buttons: RichButton[] };
+
+/**
+ * A rich message rendered natively by each platform: Block Kit on Slack,
+ * embeds and link buttons on Discord, and plain text elsewhere.
+ */
+export interface RichMessage {
+    blocks: RichBlock[];
+    /** Accent color where the platform supports one (e.g. `0x2ecc71`). */
+    color?: number;
+    severity?: Severity;
+    /** Notification and fallback text. Derived from the first header or section when omitted. */
+    text?: string;
+    /** Metadata used by routing rules. */
+    tags?: Record<string, string>;
+}
@@ -0,0 +1,45 @@
+import { BroadcastSummary, EmbedOptions, Severity } from "./broadcast";
+
+export type Tags = Record<string, string>;
+
+/** A tag condition: an exact value, one of several values, or a pattern. */
+export type TagMatcher = string | string[] | RegExp;
+
+export interface RouteMatch {
+    /** Every listed tag must be present on the message and match. */
+    tags?: Record<string, TagMatcher>;
+    /** Pattern tested against the embed title, or the text of a plain message. */
+    title?: RegExp | string;
+    /** Least severe level the rule applies to. */
+    minSeverity?: Severity;
+    /** Most severe level the rule applies to. */
+    maxSeverity?: Severity;
+}
+
+export interface RoutingRule {
+    name?: string;
+    /** Conditions that must all hold; omit to match every message. */
+    match?: RouteMatch;
+    /** Names of groups that receive matching messages. */
+    groups?: string[];
+    /** Individual clients that receive matching messages, as `"group:alias"`. */
+    clients?: string[];
+    /** Keep evaluating later rules after this one matches. Defaults to `false` (stop). */
+    continue?: boolean;
+}
+
+export interface RouteOptions {
+    tags?: Tags;
+    severity?: Severity;
+}
+
+export type RoutableMessage = string | EmbedOptions;
+
+export interface RouteSummary {
+    severity: Severity;
+    tags: Tags;
+    /** Names (or indexes, for unnamed rules) of the rules that matched, in evaluation order. */
+    matchedRules: string[];
+    /** One broadcast summary per group the message was delivered to. */
+    summaries: BroadcastSummary[];
+}
@@ -1,3 +1,8 @@
+import { RetryPolicy } from "./retry";
+import { TransportConfig } from "./http";
+import { OverflowPolicy } from "./overflow";
+import { RedactionConfig } from "./redaction";
+
 export interface SlackClientConfig {
     webhookUrl: string;
     username?: string;
@@ -5,7 +10,20 @@ export interface SlackClientConfig {
     iconUrl?: string;
     channel?: string;
     defaultColor?: string;
+    /** Deadline of each request, in milliseconds. Defaults to 5000. */
     timeout?: number;
+    /** Transport, or options for one, used instead of the default set with `setTransport()`. */
+    transport?: TransportConfig;
+    retry?: RetryPolicy;
+    /**
+     * How `sendEmbed()` renders embeds: legacy `"attachments"` (default), which keep the colored side bar,
+     * or Block Kit `"blocks"`, which have no color.
+     */
+    embedStyle?: "blocks" | "attachments";
+    /** Redacts secrets and personal data from every payload before it is sent. Off by default. */
+    redact?: RedactionConfig;
+    /** What to do with messages that exceed the platform's limits. Defaults to `"split"`. */
+    overflow?: OverflowPolicy;
 }
 
 export interface SlackAttachment {
@@ -32,15 +50,30 @@ export interface SlackField {
     short?: boolean;
 }
 
-export interface SlackBlock {
-    type: string;
-    text?: {
-        type: string;
-        text: string;
-    };
-    [key: string]: any;
+export interface SlackTextObject {
+    type: "plain_text" | "mrkdwn";
+    text: string;
+    emoji?: boolean;
+}
+
+export interface SlackButtonElement {
+    type: "button";
+    text: SlackTextObject;
+    url?: string;
+    action_id?: string;
+    value?: string;
+    style?: "primary" | "danger";
 }
 
+/** Block Kit layout blocks supported by incoming webhooks. */
+export type SlackBlock =
+    | { type: "header"; text: SlackTextObject; block_id?: string }
+    | { type: "section"; text?: SlackTextObject; fields?: SlackTextObject[]; accessory?: object; block_id?: string }
+    | { type: "divider"; block_id?: string }
+    | { type: "image"; image_url: string; alt_text: string; title?: SlackTextObject; block_id?: string }
+    | { type: "context"; elements: Array<SlackTextObject | { type: "image"; image_url: string; alt_text: string }>; block_id?: string }
+    | { type: "actions"; elements: SlackButtonElement[]; block_id?: string };
+
 export interface SlackMessageOptions {
     username?: string;
     icon_emoji?: string;
@@ -0,0 +1,51 @@
+import { RetryPolicy } from "./retry";
+import { TransportConfig } from "./http";
+import { OverflowPolicy } from "./overflow";
+
+export interface TeamsClientConfig {
+    webhookUrl: string;
+    defaultColor?: number;
+    /** Deadline of each request, in milliseconds. Defaults to 5000. */
+    timeout?: number;
+    /** Transport, or options for one, used instead of the default set with `setTransport()`. */
+    transport?: TransportConfig;
+    retry?: RetryPolicy;
+    /** What to do with messages that exceed the 28 KB payload limit. Defaults to `"split"`. */
+    overflow?: OverflowPolicy;
+}
+
+export interface TeamsEmbedField {
+    name: string;
+    value: string;
+    inline?: boolean;
+}
+
+export interface TeamsEmbed {
+    title?: string | undefined;
+    description?: string | undefined;
+    color?: number | undefined;
+    fields?: TeamsEmbedField[] | undefined;
+    timestamp?: string | undefined;
+    footer?: { text: string; icon_url?: string; } | undefined;
+    author?: { name: string; icon_url?: string; url?: string; } | undefined;
+    thumbnail?: { url: string; } | undefined;
+    image?: { url: string; } | undefined;
+    url?: string | undefined;
+}
+
+/** Container styles supported by Adaptive Cards, used to approximate embed colors. */
+export type TeamsContainerStyle = "default" | "emphasis" | "good" | "attention" | "warning" | "accent";
+
+export interface AdaptiveCardElement {
+    type: string;
+    [key: string]: unknown;
+}
+
+export interface AdaptiveCard {
+    $schema: string;
+    type: "AdaptiveCard";
+    version: string;
+    body: AdaptiveCardElement[];
+    actions?: AdaptiveCardElement[];
+    msteams?: { width?: "Full" };
+}
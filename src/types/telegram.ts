@@ -0,0 +1,50 @@
+import { RetryPolicy } from "./retry";
+import { TransportConfig } from "./http";
+import { OverflowPolicy } from "./overflow";
+
+export type TelegramParseMode = "HTML" | "MarkdownV2";
+
+export type TelegramChatId = string | number;
+
+export interface TelegramClientConfig {
+    botToken: string;
+    chatId: TelegramChatId | TelegramChatId[];
+    parseMode?: TelegramParseMode;
+    disableNotification?: boolean;
+    messageThreadId?: number;
+    disableWebPagePreview?: boolean;
+    apiBaseUrl?: string;
+    /** Deadline of each request, in milliseconds. Defaults to 5000. */
+    timeout?: number;
+    /** Transport, or options for one, used instead of the default set with `setTransport()`. */
+    transport?: TransportConfig;
+    retry?: RetryPolicy;
+    /** What to do with messages that exceed the platform's limits. Defaults to `"split"`. */
+    overflow?: OverflowPolicy;
+}
+
+export interface TelegramEmbedField {
+    name: string;
+    value: string;
+    inline?: boolean;
+}
+
+export interface TelegramEmbed {
+    title?: string | undefined;
+    description?: string | undefined;
+    color?: number | undefined;
+    fields?: TelegramEmbedField[] | undefined;
+    timestamp?: string | undefined;
+    footer?: { text: string; icon_url?: string; } | undefined;
+    author?: { name: string; icon_url?: string; url?: string; } | undefined;
+    thumbnail?: { url: string; } | undefined;
+    image?: { url: string; } | undefined;
+    url?: string | undefined;
+}
+
+export interface TelegramSendOptions {
+    chatId?: TelegramChatId | TelegramChatId[];
+    parseMode?: TelegramParseMode;
+    disableNotification?: boolean;
+    messageThreadId?: number;
+}
@@ -0,0 +1,25 @@
+import { Severity } from "./broadcast";
+
+/** Values substituted into `{{variable}}` placeholders; dotted paths such as `{{build.id}}` are supported. */
+export type TemplateVariables = Record<string, unknown>;
+
+/**
+ * A platform-specific payload: an object whose strings are interpolated,
+ * or a function that builds the payload from the variables.
+ */
+export type TemplateOverride = object | ((vars: TemplateVariables) => object);
+
+export interface TemplateDefinition {
+    title: string;
+    description?: string;
+    fields?: Array<{ name: string; value: string; inline?: boolean }>;
+    color?: number;
+    /** Severity of the rendered embed. Defaults to `"info"`. */
+    severity?: Severity;
+    footer?: string;
+    /**
+     * Payloads sent instead of the embed to clients of the given platform,
+     * e.g. `{ slack: { blocks: [...] } }`. Keys are platform identifiers (`discord`, `slack`, ...).
+     */
+    platforms?: Record<string, TemplateOverride>;
+}
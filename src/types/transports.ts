@@ -0,0 +1,49 @@
+import type TransportStream from "winston-transport";
+import { Severity } from "./broadcast";
+
+/**
+ * A log line normalized from a logger-specific record.
+ */
+export interface LogRecord {
+    level: Severity;
+    message: string;
+    /** Structured fields attached to the log line (bindings, metadata). */
+    fields: Record<string, unknown>;
+    /** Error attached to the log line, if any. */
+    error?: { name?: string; message?: string; stack?: string } | undefined;
+    timestamp?: Date | undefined;
+}
+
+export interface LogTransportOptions {
+    /** Least severe level forwarded to the group. Defaults to `"error"`. */
+    level?: Severity;
+    /** Name shown in the embed title and footer, e.g. the service name. */
+    name?: string;
+    /** Field names that are never forwarded, e.g. `["password", "token"]`. */
+    omitFields?: string[];
+    /** Maximum number of structured fields rendered as embed fields. Defaults to 10. */
+    maxFields?: number;
+    /** Most deliveries running at once. Defaults to 4. */
+    maxConcurrent?: number;
+    /**
+     * Log lines waiting for a delivery slot. Lines logged while the queue is full are dropped,
+     * counted in the transport's `dropped`, and reported once per burst to `onError`. Defaults to 100.
+     */
+    maxQueue?: number;
+    /** Called when a log line could not be delivered. Logging itself never throws. */
+    onError?: (error: Error, record: LogRecord) => void;
+}
+
+export interface PinoTransportOptions extends LogTransportOptions {
+    /** Maps custom numeric pino levels to severities; merged over the standard levels. */
+    levels?: Record<number, Severity>;
+}
+
+export interface WinstonTransportOptions
+    extends Omit<LogTransportOptions, "level">,
+        Pick<TransportStream.TransportStreamOptions, "format" | "silent" | "handleExceptions" | "handleRejections"> {
+    /** Least severe winston level forwarded, e.g. `"warn"`. Defaults to `"error"`. */
+    level?: string;
+    /** Maps custom winston level names to severities; merged over the npm and syslog levels. */
+    levels?: Record<string, Severity>;
+}
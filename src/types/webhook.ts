@@ -0,0 +1,49 @@
+import { EmbedOptions } from "./broadcast";
+import { RetryPolicy } from "./retry";
+import { TransportConfig } from "./http";
+
+export type WebhookMethod = "POST" | "PUT" | "PATCH";
+
+/**
+ * Values available to a payload template.
+ * `text` is always set: the message itself, or a Markdown rendition of the embed.
+ */
+export interface WebhookTemplateInput {
+    kind: "message" | "embed";
+    text: string;
+    message?: string | Record<string, unknown> | undefined;
+    embed?: EmbedOptions | undefined;
+    timestamp: string;
+}
+
+/**
+ * Either a function returning the request body, or a JSON string whose string values
+ * may contain `{{path}}` placeholders (e.g. `{{text}}`, `{{embed.title}}`).
+ * A value that is exactly one placeholder is replaced with the raw value, keeping its type.
+ */
+export type WebhookTemplate = string | ((input: WebhookTemplateInput) => unknown);
+
+export interface WebhookSigningOptions {
+    secret: string;
+    algorithm?: "sha1" | "sha256" | "sha512";
+    /** Header carrying the signature, formatted as `<algorithm>=<hex digest>`. */
+    header?: string;
+    /**
+     * Header carrying the Unix timestamp that is signed along with the body
+     * (`<timestamp>.<body>`). Set to an empty string to sign the body alone.
+     */
+    timestampHeader?: string;
+}
+
+export interface WebhookClientConfig {
+    url: string;
+    method?: WebhookMethod;
+    headers?: Record<string, string>;
+    template?: WebhookTemplate;
+    signing?: WebhookSigningOptions;
+    /** Deadline of each request, in milliseconds. Defaults to 5000. */
+    timeout?: number;
+    /** Transport, or options for one, used instead of the default set with `setTransport()`. */
+    transport?: TransportConfig;
+    retry?: RetryPolicy;
+}
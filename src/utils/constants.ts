@@ -1,6 +1,72 @@
-export const AVAILABLE_PLATFORMS = ["discord"]
+/** Severity levels, ordered from least to most severe. */
+export const SEVERITY_LEVELS = ["debug", "info", "warn", "error", "critical"] as const;
+
+/** Embed color used for each severity level (matches the group shortcuts). */
+export const SEVERITY_COLORS = {
+    debug: 0x95a5a6,
+    info: 0x3498db,
+    warn: 0xffff00,
+    error: 0xff0000,
+    critical: 0x8b0000,
+} as const;
+
+/** Emoji and color of the clients' `success()`, `error()`, `warn()` and `info()` shortcuts. */
+export const STATUS_STYLES = {
+    success: { emoji: "✅", color: 0x00ff00 },
+    error: { emoji: "❌", color: 0xff0000 },
+    warn: { emoji: "⚠️", color: 0xffff00 },
+    info: { emoji: "ℹ️", color: 0x3498db },
+} as const;
 
 export const WEBHOOK_PATTERNS = {
     discord: /^https:\/\/discord\.com\/api\/webhooks\/\d+\/.+$/,
-    slack: /^https:\/\/hooks\.slack\.com\/services\/.+$/
-};
\ No newline at end of file
+    slack: /^https:\/\/hooks\.slack\.com\/services\/.+$/,
+    teams: /^https:\/\/(?:[\w-]+\.webhook\.office\.com\/webhookb2\/|[\w-]+\.[\w-]+\.logic\.azure\.com(?::443)?\/workflows\/|[\w.-]+\.environment\.api\.powerplatform\.com(?::443)?\/powerautomate\/).+$/
+};
+
+/** Message size limits enforced by each platform's API. */
+export const PLATFORM_LIMITS = {
+    discord: {
+        content: 2000,
+        embedsPerMessage: 10,
+        /** Combined characters of all embeds in one message. */
+        charsPerMessage: 6000,
+        title: 256,
+        description: 4096,
+        fieldsPerEmbed: 25,
+        fieldName: 256,
+        fieldValue: 1024,
+        footer: 2048,
+        authorName: 256,
+        actionRows: 5,
+        buttonsPerRow: 5,
+        buttonLabel: 80,
+        /** Bytes per uploaded file on servers without boosts. */
+        fileSize: 10 * 1024 * 1024,
+    },
+    slack: {
+        /** Slack recommends no more than 20 attachments per message and drops those beyond 100. */
+        attachmentsPerMessage: 20,
+        /** Kept in line with a Block Kit section so long texts are not collapsed. */
+        attachmentText: 3000,
+        text: 40000,
+        blocksPerMessage: 50,
+        headerText: 150,
+        sectionText: 3000,
+        fieldsPerSection: 10,
+        fieldText: 2000,
+        contextElements: 10,
+        buttonsPerBlock: 25,
+        buttonText: 75,
+    },
+    telegram: {
+        /** Characters of a message after entity parsing. */
+        text: 4096,
+    },
+    teams: {
+        /** Total size of the card payload in bytes. */
+        payload: 28000,
+    },
+} as const;
+
+export const TELEGRAM_BOT_TOKEN_PATTERN = /^\d+:[\w-]+$/;
@@ -1,3 +1,6 @@
+import { HttpResponse } from "../types/http";
+import type { UnsentPart } from "../types/overflow";
+
 export class logiflyError extends Error {
     code: string;
     constructor(message: string, code: string) {
@@ -8,20 +11,71 @@ export class logiflyError extends Error {
 }
 
 export class ConfigurationError extends logiflyError {
-    constructor(message: string) {
+    /** Every problem found, when several are reported at once (e.g. by `fromConfig()`). */
+    problems: string[];
+    constructor(message: string, problems: string[] = []) {
         super(message, 'CONFIGURATION_ERROR');
         this.name = 'ConfigurationError';
+        this.problems = problems;
     }
 }
 
 export class MessageSendError extends logiflyError {
     originalError: any;
-    constructor(platform: string, originalError: any) {
+    attempts: number | undefined;
+    /** What is left to send when only some parts of a split message were posted. */
+    unsent: UnsentPart[] | undefined;
+    constructor(platform: string, originalError: any, attempts?: number, unsent?: UnsentPart[]) {
         super(
             `Failed to send message via ${platform}: ${originalError?.message}`,
             'MESSAGE_SEND_ERROR'
         );
         this.name = 'MessageSendError';
         this.originalError = originalError;
+        this.attempts = attempts;
+        this.unsent = unsent;
+    }
+}
+
+export class OverflowError extends logiflyError {
+    platform: string;
+    constructor(platform: string, detail: string) {
+        super(`Message exceeds ${platform} limits: ${detail}`, 'OVERFLOW_ERROR');
+        this.name = 'OverflowError';
+        this.platform = platform;
+    }
+}
+
+export class SmtpError extends logiflyError {
+    responseCode: number | undefined;
+    constructor(message: string, responseCode?: number) {
+        super(message, 'SMTP_ERROR');
+        this.name = 'SmtpError';
+        this.responseCode = responseCode;
+    }
+}
+
+/**
+ * A request that got no response, or a response outside 2xx. `reason` tells which:
+ * `"status"` (see `status` and `response`), `"timeout"`, `"aborted"`, or `"network"`.
+ * The URL is left out, since webhook URLs and bot tokens are secrets.
+ */
+export class HttpError extends logiflyError {
+    reason: "status" | "timeout" | "aborted" | "network";
+    status: number | undefined;
+    response: HttpResponse | undefined;
+    cause: unknown;
+    constructor(
+        message: string,
+        reason: HttpError["reason"],
+        response?: HttpResponse,
+        cause?: unknown
+    ) {
+        super(message, 'HTTP_ERROR');
+        this.name = 'HttpError';
+        this.reason = reason;
+        this.status = response?.status;
+        this.response = response;
+        this.cause = cause;
     }
 }
@@ -0,0 +1,48 @@
+import { Readable } from "stream";
+import { describe, expect, it } from "@jest/globals";
+import { FileSource, readHead, resolveFile } from "./files";
+
+/** A source that yields the given chunks and counts how many were read. */
+const chunked = (chunks: string[]) => {
+    let read = 0;
+    const source: FileSource = {
+        filename: "app.log",
+        size: chunks.reduce((size, chunk) => size + Buffer.byteLength(chunk), 0),
+        open: () =>
+            Readable.from(
+                (function* () {
+                    for (const chunk of chunks) {
+                        read++;
+                        yield Buffer.from(chunk);
+                    }
+                })()
+            ),
+    };
+    return { source, read: () => read };
+};
+
+describe("readHead", () => {
+    it("reads a short file whole", async () => {
+        const source = await resolveFile(Buffer.from("all of it"), "a.txt");
+
+        expect(await readHead(source, 100)).toEqual({ text: "all of it", truncated: false, binary: false });
+    });
+
+    it("stops reading once it has enough and marks the rest as truncated", async () => {
+        const { source, read } = chunked(["a".repeat(10), "b".repeat(10), "c".repeat(10), "d".repeat(10)]);
+
+        const head = await readHead(source, 5);
+
+        expect(head).toEqual({ text: "aaaaa", truncated: true, binary: false });
+        expect(read()).toBe(2);
+    });
+
+    it("counts characters, not bytes, and flags binary content", async () => {
+        const accented = await resolveFile(Buffer.from("ééé"), "e.txt");
+        const binary = await resolveFile(Buffer.from([0x50, 0x4b, 0x00, 0x03]), "x.zip");
+
+        expect(await readHead(accented, 3)).toEqual({ text: "ééé", truncated: false, binary: false });
+        expect(await readHead(accented, 2)).toMatchObject({ text: "éé", truncated: true });
+        expect((await readHead(binary, 10)).binary).toBe(true);
+    });
+});
@@ -0,0 +1,89 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Readable } from "stream";
+import { ConfigurationError } from "./errors";
+import { FileInput } from "../types/file";
+
+/**
+ * A resolved file: its name, its size in bytes and a way to open it. Every call to `open()`
+ * returns a fresh stream, so uploads can be retried without buffering the file.
+ */
+export interface FileSource {
+    filename: string;
+    size: number;
+    open(): Readable;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+    ".txt": "text/plain",
+    ".log": "text/plain",
+    ".csv": "text/csv",
+    ".json": "application/json",
+    ".html": "text/html",
+    ".xml": "application/xml",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".webp": "image/webp",
+    ".pdf": "application/pdf",
+    ".zip": "application/zip",
+    ".gz": "application/gzip",
+};
+
+/**
+ * Resolves a buffer or a path into a file source. Paths are checked but not read.
+ * @throws {ConfigurationError} If the path does not exist or is not a file.
+ */
+export const resolveFile = async (file: FileInput, filename?: string): Promise<FileSource> => {
+    if (Buffer.isBuffer(file)) {
+        return { filename: filename ?? "attachment", size: file.length, open: () => Readable.from([file]) };
+    }
+
+    const stats = await fs.promises.stat(file).catch(() => null);
+    if (!stats?.isFile()) {
+        throw new ConfigurationError(`File not found: ${file}`);
+    }
+    return { filename: filename ?? path.basename(file), size: stats.size, open: () => fs.createReadStream(file) };
+};
+
+/** Returns the MIME type for a file name, by extension. */
+export const contentTypeOf = (filename: string): string =>
+    CONTENT_TYPES[path.extname(filename).toLowerCase()] ?? "application/octet-stream";
+
+/** Formats a byte count as e.g. `12.3 KB`. */
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Reads the beginning of a file as UTF-8 text, without reading more than is needed.
+ * @param maxChars - Characters wanted; up to four bytes are read per character.
+ * @returns The text read, whether the file continues past it, and whether it looks binary.
+ */
+export const readHead = async (
+    source: FileSource,
+    maxChars: number
+): Promise<{ text: string; truncated: boolean; binary: boolean }> => {
+    const limit = maxChars * 4;
+    const chunks: Buffer[] = [];
+    let read = 0;
+
+    // Leaving the loop early destroys the stream.
+    for await (const chunk of source.open()) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        chunks.push(buffer);
+        read += buffer.length;
+        if (read >= limit) break;
+    }
+
+    const head = Buffer.concat(chunks).subarray(0, limit);
+    const text = head.toString("utf8");
+    return {
+        text: text.slice(0, maxChars),
+        truncated: source.size > head.length || text.length > maxChars,
+        binary: head.includes(0),
+    };
+};
@@ -0,0 +1,36 @@
+/** Matches `{{ path }}` placeholders; the capture is the dotted path. */
+export const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/** Resolves a dotted path such as `embed.title` against a value. */
+export const lookup = (input: unknown, path: string): unknown =>
+    path
+        .split(".")
+        .reduce<unknown>(
+            (value, key) => (value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+            input
+        );
+
+/**
+ * Replaces every placeholder in `text` with its value; objects are serialized as JSON
+ * and missing values become empty strings.
+ */
+export const interpolate = (text: string, input: unknown): string =>
+    text.replace(PLACEHOLDER, (_, path: string) => {
+        const value = lookup(input, path);
+        if (value == null) return "";
+        return typeof value === "object" ? JSON.stringify(value) : String(value);
+    });
+
+/**
+ * Collects the placeholder paths used anywhere in a string, array or plain object.
+ */
+export const placeholders = (node: unknown, found: Set<string> = new Set()): Set<string> => {
+    if (typeof node === "string") {
+        for (const match of node.matchAll(PLACEHOLDER)) found.add(match[1]!);
+    } else if (Array.isArray(node)) {
+        node.forEach((item) => placeholders(item, found));
+    } else if (node && typeof node === "object") {
+        Object.values(node).forEach((item) => placeholders(item, found));
+    }
+    return found;
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "@jest/globals";
+import { classifyHttpError, computeBackoff, parseRetryAfter, resolveRetryPolicy, withRetry } from "./retry";
+import { HttpError } from "./errors";
+import { HttpResponse } from "../types/http";
+import { TeamsClient } from "../clients/Teams";
+
+const response = (status: number, headers: Record<string, string> = {}, data: unknown = {}): HttpResponse => ({
+    status,
+    statusText: "",
+    headers,
+    data,
+});
+
+const statusError = (status: number, headers?: Record<string, string>, data?: unknown) =>
+    new HttpError(`HTTP ${status}`, "status", response(status, headers, data));
+
+describe("computeBackoff", () => {
+    it("doubles from baseDelay up to maxDelay", () => {
+        const policy = resolveRetryPolicy({ baseDelay: 100, maxDelay: 1000, jitter: false });
+
+        expect([1, 2, 3, 4, 5].map((attempt) => computeBackoff(attempt, policy))).toEqual([100, 200, 400, 800, 1000]);
+    });
+
+    it("picks a random delay below the exponential one with jitter", () => {
+        const policy = resolveRetryPolicy({ baseDelay: 100, jitter: true });
+
+        for (let i = 0; i < 20; i++) {
+            const delay = computeBackoff(3, policy);
+            expect(delay).toBeGreaterThanOrEqual(0);
+            expect(delay).toBeLessThan(400);
+        }
+    });
+});
+
+describe("parseRetryAfter", () => {
+    it("reads seconds and HTTP dates as milliseconds", () => {
+        expect(parseRetryAfter("1.5")).toBe(1500);
+        expect(parseRetryAfter(2)).toBe(2000);
+        expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+        expect(parseRetryAfter("soon")).toBeUndefined();
+        expect(parseRetryAfter("")).toBeUndefined();
+    });
+});
+
+describe("classifyHttpError", () => {
+    it("retries network failures, 429 and 5xx only", () => {
+        expect(classifyHttpError(new HttpError("timed out", "timeout"))).toEqual({ retryable: true });
+        expect(classifyHttpError(new HttpError("aborted", "aborted"))).toEqual({ retryable: false });
+        expect(classifyHttpError(new Error("boom"))).toEqual({ retryable: false });
+        expect(classifyHttpError(statusError(503))).toEqual({ retryable: true });
+        expect(classifyHttpError(statusError(400, { "retry-after": "5" }))).toEqual({ retryable: false });
+    });
+
+    it("waits for the first hint that parses", () => {
+        const error = statusError(429, { "retry-after": "3", "x-ratelimit-reset-after": "1" }, { retry_after: "later" });
+
+        expect(classifyHttpError(error)).toEqual({ retryable: true, retryAfter: 3000 });
+        expect(
+            classifyHttpError(error, (res) => [(res.data as { retry_after?: unknown }).retry_after, res.headers["x-ratelimit-reset-after"]])
+        ).toEqual({ retryable: true, retryAfter: 1000 });
+    });
+});
+
+describe("withRetry", () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 3, baseDelay: 1, jitter: false });
+
+    it("retries until an attempt succeeds", async () => {
+        const attempts: number[] = [];
+
+        const result = await withRetry(
+            async (attempt) => {
+                attempts.push(attempt);
+                if (attempt < 3) throw statusError(503);
+                return "ok";
+            },
+            policy,
+            classifyHttpError
+        );
+
+        expect(result).toBe("ok");
+        expect(attempts).toEqual([1, 2, 3]);
+    });
+
+    it("gives up after maxAttempts and on errors that are not retryable", async () => {
+        let calls = 0;
+        const failing = (status: number) => async () => {
+            calls++;
+            throw statusError(status);
+        };
+
+        await expect(withRetry(failing(503), policy, classifyHttpError)).rejects.toThrow("HTTP 503");
+        expect(calls).toBe(3);
+
+        calls = 0;
+        await expect(withRetry(failing(404), policy, classifyHttpError)).rejects.toThrow("HTTP 404");
+        expect(calls).toBe(1);
+    });
+
+    it("throws instead of waiting longer than maxDelay", async () => {
+        let calls = 0;
+        const task = async () => {
+            calls++;
+            throw statusError(429, { "retry-after": "60" });
+        };
+
+        await expect(withRetry(task, resolveRetryPolicy({ maxDelay: 1000 }), classifyHttpError)).rejects.toThrow("HTTP 429");
+        expect(calls).toBe(1);
+    });
+});
+
+describe("client retries", () => {
+    it("honours Retry-After and reports the attempts", async () => {
+        const statuses = [503, 200];
+        const started: number[] = [];
+        const transport = {
+            request: async (): Promise<HttpResponse> => {
+                started.push(Date.now());
+                const status = statuses.shift()!;
+                if (status !== 200) throw statusError(status, { "retry-after": "0.05" });
+                return response(200);
+            },
+        };
+        const teams = new TeamsClient({
+            webhookUrl: "https://example.webhook.office.com/webhookb2/abc",
+            transport,
+            retry: { baseDelay: 1, jitter: false },
+        });
+
+        const result = await teams.success("Deploy", "done");
+
+        expect(result).toMatchObject({ success: true, attempts: 2 });
+        expect(started[1]! - started[0]!).toBeGreaterThanOrEqual(45);
+        expect(teams.config.retry).toEqual({ maxAttempts: 3, baseDelay: 1, maxDelay: 30000, jitter: false });
+    });
+});
@@ -0,0 +1,120 @@
+import { HttpResponse } from "../types/http";
+import { RetryPolicy } from "../types/retry";
+import { HttpError } from "./errors";
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+    maxAttempts: 3,
+    baseDelay: 500,
+    maxDelay: 30000,
+    jitter: true,
+};
+
+/**
+ * Describes whether a failed attempt may be retried and,
+ * if the platform told us, how long to wait before doing so.
+ */
+export interface RetryDecision {
+    retryable: boolean;
+    retryAfter?: number | undefined;
+}
+
+export const resolveRetryPolicy = (policy: RetryPolicy = {}): Required<RetryPolicy> => ({
+    maxAttempts: Math.max(1, Math.floor(policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts)),
+    baseDelay: policy.baseDelay ?? DEFAULT_RETRY_POLICY.baseDelay,
+    maxDelay: policy.maxDelay ?? DEFAULT_RETRY_POLICY.maxDelay,
+    jitter: policy.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+});
+
+/** 429 and 5xx responses are transient; anything else is the caller's fault. */
+export const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Parses a `Retry-After` style header (seconds, possibly fractional, or an HTTP date)
+ * into milliseconds.
+ */
+export const parseRetryAfter = (value: unknown): number | undefined => {
+    if (value === undefined || value === null || value === "") {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(value));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classifies a failed HTTP request: network failures, timeouts, 429 and 5xx responses are retryable,
+ * aborted requests and other statuses are not. The wait is the first parsable value returned by
+ * `hints`, which defaults to the `Retry-After` header.
+ *
+ * @param error - The error thrown by the request.
+ * @param hints - Returns the platform's wait hints for a response, most authoritative first.
+ */
+export const classifyHttpError = (
+    error: unknown,
+    hints: (response: HttpResponse) => unknown[] = (response) => [response.headers["retry-after"]]
+): RetryDecision => {
+    if (!(error instanceof HttpError) || error.reason === "aborted") {
+        return { retryable: false };
+    }
+
+    const response = error.response;
+    if (!response) {
+        // Network failures and timeouts never reached the platform.
+        return { retryable: true };
+    }
+
+    if (!isRetryableStatus(response.status)) {
+        return { retryable: false };
+    }
+
+    for (const hint of hints(response)) {
+        const retryAfter = parseRetryAfter(hint);
+        if (retryAfter !== undefined) return { retryable: true, retryAfter };
+    }
+    return { retryable: true };
+};
+
+export const computeBackoff = (attempt: number, policy: Required<RetryPolicy>) => {
+    const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+    return policy.jitter ? Math.random() * exponential : exponential;
+}
+
+export const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `task` until it succeeds, the error is not retryable, or the policy's
+ * attempts are exhausted. A platform-provided `retryAfter` takes precedence over
+ * the computed backoff; if it exceeds `maxDelay` the last error is thrown instead
+ * of blocking the caller.
+ *
+ * @param task - The operation to run; receives the 1-based attempt number.
+ * @param policy - Resolved retry policy.
+ * @param classify - Decides whether a thrown error may be retried.
+ * @returns The value of the first successful attempt.
+ */
+export const withRetry = async <T>(
+    task: (attempt: number) => Promise<T>,
+    policy: Required<RetryPolicy>,
+    classify: (error: unknown) => RetryDecision
+): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task(attempt);
+        } catch (error) {
+            if (attempt >= policy.maxAttempts) throw error;
+
+            const decision = classify(error);
+            if (!decision.retryable) throw error;
+
+            const delay = decision.retryAfter ?? computeBackoff(attempt, policy);
+            if (delay > policy.maxDelay) throw error;
+
+            await sleep(delay);
+        }
+    }
+}
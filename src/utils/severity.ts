@@ -0,0 +1,9 @@
+import { SEVERITY_LEVELS } from "./constants";
+import { Severity } from "../types/broadcast";
+
+export const isSeverity = (value: unknown): value is Severity =>
+    typeof value === "string" && (SEVERITY_LEVELS as readonly string[]).includes(value);
+
+/** Returns `true` if `level` is at least as severe as `threshold`. */
+export const meetsSeverity = (level: Severity, threshold: Severity) =>
+    SEVERITY_LEVELS.indexOf(level) >= SEVERITY_LEVELS.indexOf(threshold);
@@ -0,0 +1,255 @@
+import * as net from "net";
+import * as tls from "tls";
+import { SmtpError } from "./errors";
+
+/**
+ * A single (possibly multi-line) SMTP server reply.
+ */
+export interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+export interface SmtpConnectionOptions {
+    host: string;
+    port: number;
+    secure: boolean;
+    timeout: number;
+    tls?: tls.ConnectionOptions | undefined;
+}
+
+/**
+ * Minimal SMTP client connection.
+ * Handles socket setup, reply parsing, STARTTLS upgrades and command/response pairing;
+ * the message transaction itself is driven by the caller.
+ *
+ * @example
+ * ```ts
+ * const conn = new SmtpConnection({ host: "localhost", port: 2525, secure: false, timeout: 5000 });
+ * await conn.connect();
+ * await conn.command("EHLO me", [250]);
+ * await conn.quit();
+ * ```
+ */
+export class SmtpConnection {
+    private options: SmtpConnectionOptions;
+    private socket: net.Socket | null = null;
+    private buffer = "";
+    private pendingLines: string[] = [];
+    private replies: SmtpReply[] = [];
+    private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+    private failure: Error | null = null;
+
+    /** Whether the connection is currently encrypted. */
+    secure: boolean;
+
+    constructor(options: SmtpConnectionOptions) {
+        this.options = options;
+        this.secure = options.secure;
+    }
+
+    /**
+     * Opens the connection and waits for the server greeting.
+     * @returns The greeting reply.
+     * @throws {SmtpError} If the server does not greet with 220.
+     */
+    async connect(): Promise<SmtpReply> {
+        const { host, port, secure } = this.options;
+
+        const socket = await this._open(() =>
+            secure
+                ? tls.connect({ ...this.options.tls, host, port, ...this._serverName() })
+                : net.connect({ host, port }),
+            secure ? "secureConnect" : "connect"
+        );
+        this._attach(socket);
+
+        return this._expect(await this.read(), [220]);
+    }
+
+    /**
+     * Sends a command line and waits for its reply.
+     * @param line - Command without the trailing CRLF.
+     * @param expected - Accepted reply codes.
+     * @param label - Name used in error messages; defaults to the command verb so credentials never leak.
+     * @returns The server reply.
+     * @throws {SmtpError} If the reply code is not expected.
+     */
+    async command(line: string, expected: number[], label?: string): Promise<SmtpReply> {
+        this._write(`${line}\r\n`);
+        return this._expect(await this.read(), expected, label ?? line.split(" ")[0]);
+    }
+
+    /**
+     * Upgrades the plain connection to TLS using STARTTLS.
+     * @throws {SmtpError} If the server refuses the upgrade.
+     */
+    async startTls(): Promise<void> {
+        await this.command("STARTTLS", [220]);
+
+        const plain = this.socket as net.Socket;
+        plain.removeAllListeners("data");
+        plain.removeAllListeners("error");
+        plain.removeAllListeners("close");
+        plain.removeAllListeners("timeout");
+
+        const socket = await this._open(
+            () => tls.connect({ ...this.options.tls, socket: plain, ...this._serverName() }),
+            "secureConnect"
+        );
+        this._attach(socket);
+        this.secure = true;
+    }
+
+    /**
+     * Waits for the next complete reply from the server.
+     */
+    read(): Promise<SmtpReply> {
+        const reply = this.replies.shift();
+        if (reply) return Promise.resolve(reply);
+        if (this.failure) return Promise.reject(this.failure);
+
+        return new Promise((resolve, reject) => {
+            this.waiter = { resolve, reject };
+        });
+    }
+
+    /**
+     * Politely ends the session, ignoring failures since the message is already accepted.
+     */
+    async quit(): Promise<void> {
+        try {
+            await this.command("QUIT", [221]);
+        } catch {
+            // The server may drop the connection without answering.
+        }
+        this.close();
+    }
+
+    /**
+     * Closes the underlying socket immediately.
+     */
+    close(): void {
+        if (this.socket) {
+            this.socket.removeAllListeners();
+            this.socket.on("error", () => undefined);
+            this.socket.destroy();
+            this.socket = null;
+        }
+    }
+
+    /**
+     * SNI server name for TLS; IP addresses must not be sent as SNI.
+     * @private
+     */
+    private _serverName(): { servername?: string } {
+        return net.isIP(this.options.host) ? {} : { servername: this.options.host };
+    }
+
+    /**
+     * Creates a socket and resolves once it reaches the given ready event.
+     * @private
+     */
+    private _open(create: () => net.Socket, readyEvent: string): Promise<net.Socket> {
+        return new Promise((resolve, reject) => {
+            const socket = create();
+            const timer = setTimeout(() => {
+                socket.destroy();
+                reject(new SmtpError(`SMTP connection to ${this.options.host} timed out`));
+            }, this.options.timeout);
+
+            socket.once("error", (error) => {
+                clearTimeout(timer);
+                reject(error);
+            });
+            socket.once(readyEvent, () => {
+                clearTimeout(timer);
+                socket.removeAllListeners("error");
+                resolve(socket);
+            });
+        });
+    }
+
+    /**
+     * Wires reply parsing and failure handling onto a connected socket.
+     * @private
+     */
+    private _attach(socket: net.Socket): void {
+        this.socket = socket;
+        socket.setTimeout(this.options.timeout);
+        socket.on("data", (chunk: Buffer) => this._onData(chunk.toString("utf8")));
+        socket.on("timeout", () => this._fail(new SmtpError("SMTP server timed out")));
+        socket.on("error", (error: Error) => this._fail(error));
+        socket.on("close", () => this._fail(new SmtpError("SMTP connection closed unexpectedly")));
+    }
+
+    /**
+     * Splits incoming data into reply lines and groups continuation lines ("250-...") into replies.
+     * @private
+     */
+    private _onData(data: string): void {
+        this.buffer += data;
+
+        let index: number;
+        while ((index = this.buffer.indexOf("\n")) >= 0) {
+            const line = this.buffer.slice(0, index).replace(/\r$/, "");
+            this.buffer = this.buffer.slice(index + 1);
+            this.pendingLines.push(line);
+
+            if (line.charAt(3) !== "-") {
+                const reply: SmtpReply = {
+                    code: parseInt(line.slice(0, 3), 10),
+                    lines: this.pendingLines.map((l) => l.slice(4)),
+                };
+                this.pendingLines = [];
+
+                if (this.waiter) {
+                    const { resolve } = this.waiter;
+                    this.waiter = null;
+                    resolve(reply);
+                } else {
+                    this.replies.push(reply);
+                }
+            }
+        }
+    }
+
+    /**
+     * Records a fatal connection error and rejects whoever is waiting for a reply.
+     * @private
+     */
+    private _fail(error: Error): void {
+        if (!this.failure) this.failure = error;
+        this.socket?.destroy();
+
+        if (this.waiter) {
+            const { reject } = this.waiter;
+            this.waiter = null;
+            reject(this.failure);
+        }
+    }
+
+    /**
+     * @private
+     */
+    private _write(data: string): void {
+        if (!this.socket || this.failure) {
+            throw this.failure ?? new SmtpError("SMTP connection is not open");
+        }
+        this.socket.write(data);
+    }
+
+    /**
+     * @private
+     * @throws {SmtpError} If the reply code is not one of `expected`.
+     */
+    private _expect(reply: SmtpReply, expected: number[], command = "CONNECT"): SmtpReply {
+        if (!expected.includes(reply.code)) {
+            throw new SmtpError(
+                `SMTP ${command} failed: ${reply.code} ${reply.lines.join(" ")}`.trim(),
+                reply.code
+            );
+        }
+        return reply;
+    }
+}
@@ -0,0 +1,10 @@
+import { STATUS_STYLES } from "./constants";
+
+export type EmbedStatus = keyof typeof STATUS_STYLES;
+
+/** Builds the embed of a client's status shortcut: the title prefixed with the status emoji, in its color. */
+export const statusEmbed = (status: EmbedStatus, title: string, description: string) => ({
+    title: `${STATUS_STYLES[status].emoji} ${title}`,
+    description,
+    color: STATUS_STYLES[status].color as number,
+});